@@ -0,0 +1,65 @@
+// Poiseuille check of the CPU reference solver (npm run check:poiseuille): a
+// channel with a Zou-He velocity inlet, a Zou-He pressure outlet and no-slip
+// walls runs to steady state; the velocity profile and the pressure gradient
+// downstream are compared against the analytic solution.
+import { CPULBM } from "../src/CPULBM";
+import { applyEdges } from "../src/scenario";
+
+const Nx = 160;
+const Ny = 22;
+const tau = 0.8;
+const U = 0.02; // uniform inlet velocity, low to keep the density drop small
+const STEPS = 30000;
+const PROFILE_TOLERANCE = 0.005; // of the peak velocity
+const GRADIENT_TOLERANCE = 0.02;
+
+const mask = new Uint32Array(Nx * Ny);
+applyEdges(mask, Nx, Ny, {
+  left: "zouHeInlet",
+  right: "zouHeOutlet",
+  bottom: "wall",
+  top: "wall",
+});
+const lbm = new CPULBM(Nx, Ny, { tau, inletUx: U, mask });
+lbm.step(STEPS);
+const { rho, ux } = lbm.readMacroscopic();
+
+// Halfway bounce-back puts the walls half a cell into the wall rows. The
+// density drops along the channel (weak compressibility), so the mean
+// velocity grows downstream: the parabola uses the local mean velocity, and
+// the pressure gradient the mass flux, which stays constant.
+const H = Ny - 2;
+const nu = (tau - 0.5) / 3;
+const x = Math.round(0.75 * Nx);
+let flux = 0;
+let massFlux = 0;
+for (let y = 1; y < Ny - 1; y++) {
+  flux += ux[y * Nx + x];
+  massFlux += rho[y * Nx + x] * ux[y * Nx + x];
+}
+const uMax = (1.5 * flux) / H;
+const parabola = (y: number) => (4 * uMax * (y - 0.5) * (H + 0.5 - y)) / H ** 2;
+
+let profileError = 0;
+for (let y = 1; y < Ny - 1; y++) {
+  const err = Math.abs(ux[y * Nx + x] - parabola(y)) / uMax;
+  profileError = Math.max(profileError, err);
+}
+
+// dp/dx = -12 nu rho u_mean / H^2 with p = rho / 3, on the centre line
+// between the middle of the channel and x
+const row = (Ny >> 1) * Nx;
+const x0 = Nx >> 1;
+const gradient = (rho[row + x] - rho[row + x0]) / 3 / (x - x0);
+const expected = (-12 * nu * massFlux) / H ** 3;
+const gradientError = Math.abs(gradient / expected - 1);
+
+const percent = (v: number) => `${(100 * v).toFixed(2)} %`;
+console.log(`Poiseuille ${Nx} × ${Ny}, tau ${tau}, ${STEPS} steps`);
+console.log(
+  `  profile at x = ${x}: max error ${percent(profileError)} of u_max`
+);
+console.log(`  pressure gradient: error ${percent(gradientError)}`);
+if (profileError > PROFILE_TOLERANCE || gradientError > GRADIENT_TOLERANCE) {
+  throw new Error("Poiseuille check failed.");
+}
@@ -0,0 +1,387 @@
+// Round-trip checks of the pure modules (npm run check:roundtrip): FP16s
+// conversion, inlet expressions, checkpoint encoding and migration, the
+// .npy/.npz writer, obstacle spans, the edge ranks of applyEdges and a short
+// CPU run of the convective outflow.
+import { decodeCheckpoint, encodeCheckpoint } from "../src/checkpoint";
+import type { Checkpoint, CheckpointParams } from "../src/checkpoint";
+import { CollisionOperators } from "../src/collision";
+import { CPULBM } from "../src/CPULBM";
+import { toNpy, toNpz, type ExportFields } from "../src/export";
+import { decodeF16s, fromHalfBits, packF16s, toHalfBits } from "../src/fp16";
+import { obstacleSpans, type Obstacle } from "../src/geometry";
+import { compileExpression } from "../src/inlet";
+import { CELL, movingWall, Normals, withNormal } from "../src/mask";
+import { applyEdges } from "../src/scenario";
+
+const failures: string[] = [];
+let passed = 0;
+function check(name: string, ok: boolean): void {
+  if (ok) passed++;
+  else failures.push(name);
+}
+function throws(name: string, fn: () => unknown): void {
+  try {
+    fn();
+  } catch {
+    passed++;
+    return;
+  }
+  failures.push(`${name} (did not throw)`);
+}
+const sameBytes = (a: ArrayBufferView, b: ArrayBufferView) => {
+  const x = new Uint8Array(a.buffer, a.byteOffset, a.byteLength);
+  const y = new Uint8Array(b.buffer, b.byteOffset, b.byteLength);
+  return x.length === y.length && x.every((v, i) => v === y[i]);
+};
+
+// ---------- fp16 ----------
+
+check("half of 1", toHalfBits(1) === 0x3c00);
+check("half of -2", toHalfBits(-2) === 0xc000);
+check("largest half", toHalfBits(65504) === 0x7bff);
+check("half overflow", toHalfBits(65520) === 0x7c00);
+check("smallest subnormal", toHalfBits(2 ** -24) === 0x0001);
+check("below half the smallest subnormal", toHalfBits(2 ** -26) === 0);
+check("ties to even (down)", toHalfBits(1 + 2 ** -11) === 0x3c00);
+check("ties to even (up)", toHalfBits(1 + 3 * 2 ** -11) === 0x3c02);
+check("NaN stays NaN", Number.isNaN(fromHalfBits(toHalfBits(NaN))));
+let halfErrors = 0;
+for (let h = 0; h < 0x10000; h++) {
+  const v = fromHalfBits(h);
+  if (!Number.isNaN(v) && toHalfBits(v) !== h) halfErrors++;
+}
+check("every finite half round-trips", halfErrors === 0);
+let f16sError = 0;
+for (let v = -1; v <= 1; v += 1 / 997) {
+  const err = Math.abs(decodeF16s(packF16s(v)) - v);
+  f16sError = Math.max(f16sError, err / Math.max(Math.abs(v), 2 ** -15));
+}
+check("FP16s keeps 11 bits", f16sError <= 2 ** -11);
+
+// ---------- inlet expressions ----------
+
+const evaluate = (src: string, s = 0.5, y = 3, H = 10) =>
+  compileExpression(src)(s, y, H);
+check("parabola", evaluate("4*s*(1-s)") === 1);
+check("^ is right associative", evaluate("2^3^2") === 512);
+check("unary minus binds weaker than ^", evaluate("-2^2") === -4);
+check("precedence", evaluate("1 + 2 * 3 - 4 / 2") === 5);
+check(
+  "functions and constants",
+  Math.abs(evaluate("sin(pi/2)") - 1) < 1e-12
+);
+check("variables", evaluate("y / H + s") === 0.8);
+check("exponent literals", evaluate("1e-2 * 2") === 0.02);
+throws("unknown names", () => compileExpression("alert(1)"));
+throws("trailing operator", () => compileExpression("1 +"));
+throws("unbalanced parenthesis", () => compileExpression("(1"));
+throws("trailing tokens", () => compileExpression("1 2"));
+throws("empty expression", () => compileExpression(" "));
+
+// ---------- checkpoints ----------
+
+const Nx = 5;
+const Ny = 4;
+const C = Nx * Ny;
+const random = (n: number) => Uint8Array.from({ length: n }, (_, i) => i * 37);
+const params: CheckpointParams = {
+  tau: 0.6,
+  inletUx: 0.05,
+  inletUy: 0,
+  rhoIn: 1,
+  rhoOut: 0.99,
+  forceX: 1e-6,
+  forceY: 0,
+  collision: CollisionOperators.TRT,
+  trtMagic: 0.25,
+  mrtRates: { sE: 1.1, sEps: 1.2, sQ: 1.3 },
+  les: true,
+  smagorinsky: 0.1,
+  units: null,
+  edges: { left: "inlet", right: "outlet", bottom: "wall", top: "slip" },
+  edgeVelocity: {},
+  initial: { rho: 1, ux: 0.01, uy: 0 },
+};
+const mask = new Uint32Array(C);
+applyEdges(mask, Nx, Ny, params.edges!);
+const original: Omit<Checkpoint, "version"> = {
+  Nx,
+  Ny,
+  Q: 9,
+  tick: 1234,
+  parity: 1,
+  savedAt: "2024-01-01T00:00:00.000Z",
+  params,
+  f: random(9 * C * 2),
+  u: random(2 * C * 2 + 2), // odd padding of the GPU buffers survives
+  rho: random(C * 2),
+  mask,
+  forceField: Float32Array.from({ length: 2 * C }, (_, i) => i / 8),
+};
+const bytes = encodeCheckpoint(original);
+const decoded = decodeCheckpoint(bytes);
+check("checkpoint header", decoded.tick === 1234 && decoded.parity === 1);
+check(
+  "checkpoint params",
+  JSON.stringify(decoded.params) === JSON.stringify(params)
+);
+check(
+  "checkpoint sections",
+  (["f", "u", "rho", "mask"] as const).every((k) =>
+    sameBytes(decoded[k], original[k])
+  ) && sameBytes(decoded.forceField!, original.forceField!)
+);
+throws("truncated checkpoint", () =>
+  decodeCheckpoint(bytes.subarray(0, bytes.length - 8))
+);
+throws("not a checkpoint", () => decodeCheckpoint(new Uint8Array(64)));
+throws("short force field", () =>
+  decodeCheckpoint(
+    encodeCheckpoint({ ...original, forceField: new Float32Array(C) })
+  )
+);
+
+// a v1 file: outlet cells were EQ cells in the right-hand column
+const v1Mask = new Uint32Array(C);
+for (let y = 0; y < Ny; y++) {
+  v1Mask[y * Nx] = CELL.EQ;
+  v1Mask[y * Nx + Nx - 1] = CELL.EQ;
+}
+v1Mask[0] = v1Mask[Nx - 1] = CELL.SOLID;
+const { edges: _edges, edgeVelocity: _velocity, ...v1Params } = params;
+const v1 = encodeCheckpoint({ ...original, mask: v1Mask, params: v1Params });
+new DataView(v1.buffer).setUint32(8, 1, true);
+const migrated = decodeCheckpoint(v1);
+const outlet = withNormal(CELL.OUTLET, Normals.WEST);
+check("v1 version", migrated.version === 1);
+check(
+  "v1 outlet column migrated",
+  migrated.mask[Nx - 1] === CELL.SOLID &&
+    migrated.mask[Nx + Nx - 1] === outlet &&
+    migrated.mask[Nx] === CELL.EQ
+);
+
+// ---------- .npy / .npz ----------
+
+const ascii = (b: Uint8Array) => new TextDecoder().decode(b);
+const npy = toNpy(new Float32Array([1, 2, 3, 4, 5, 6]), [2, 3]);
+const npyView = new DataView(npy.buffer);
+const dataOffset = 10 + npyView.getUint16(8, true);
+check("npy magic", ascii(npy.subarray(1, 6)) === "NUMPY" && npy[0] === 0x93);
+check("npy data aligned to 64", dataOffset % 64 === 0);
+check(
+  "npy header",
+  ascii(npy.subarray(10, dataOffset)).startsWith(
+    "{'descr': '<f4', 'fortran_order': False, 'shape': (2, 3), }"
+  )
+);
+check(
+  "npy data",
+  new Float32Array(npy.slice(dataOffset).buffer).join() === "1,2,3,4,5,6"
+);
+check(
+  "npy scalar shape",
+  ascii(toNpy(new Float64Array([2]), [])).includes("'shape': ()")
+);
+
+// reference CRC-32 (bitwise) for the zip entries
+const crc32 = (data: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc ^= byte;
+    for (let k = 0; k < 8; k++) {
+      crc = crc & 1 ? 0xedb88320 ^ (crc >>> 1) : crc >>> 1;
+    }
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+const fields: ExportFields = {
+  Nx,
+  Ny,
+  tick: 7,
+  units: "lattice",
+  dx: 1,
+  dt: 1,
+  rho: new Float32Array(C).fill(1),
+  ux: new Float32Array(C).fill(0.05),
+  uy: new Float32Array(C),
+  vorticity: new Float32Array(C),
+  mask,
+};
+const zip = toNpz(fields);
+const zv = new DataView(zip.buffer);
+const end = zip.length - 22;
+check("zip end record", zv.getUint32(end, true) === 0x06054b50);
+const entries = zv.getUint16(end + 10, true);
+let at = zv.getUint32(end + 16, true); // central directory
+const names: string[] = [];
+let crcErrors = 0;
+for (let i = 0; i < entries; i++) {
+  if (zv.getUint32(at, true) !== 0x02014b50) break;
+  const size = zv.getUint32(at + 24, true);
+  const nameLength = zv.getUint16(at + 28, true);
+  const local = zv.getUint32(at + 42, true);
+  names.push(ascii(zip.subarray(at + 46, at + 46 + nameLength)));
+  const start = local + 30 + zv.getUint16(local + 26, true);
+  const data = zip.subarray(start, start + size);
+  if (crc32(data) !== zv.getUint32(at + 16, true)) crcErrors++;
+  at += 46 + nameLength;
+}
+check(
+  "npz entries",
+  names.join() ===
+    "rho.npy,ux.npy,uy.npy,vorticity.npy,mask.npy,dx.npy,dt.npy,tick.npy,header.txt"
+);
+check("npz CRCs", crcErrors === 0);
+
+// ---------- obstacle spans ----------
+
+const cells = (o: Obstacle) => {
+  const set = new Set<number>();
+  for (const { y, x0, x1 } of obstacleSpans(o, 64, 64)) {
+    for (let x = x0; x <= x1; x++) set.add(y * 64 + x);
+  }
+  return set;
+};
+const step = obstacleSpans({ kind: "step", length: 5, height: 3 }, 64, 64);
+check(
+  "step spans",
+  step.length === 3 &&
+    step.every(({ y, x0, x1 }, i) => y === i && x0 === 0 && x1 === 4)
+);
+const cylinder = cells({
+  kind: "cylinders",
+  cx: 20,
+  cy: 30,
+  rows: 1,
+  cols: 1,
+  radius: 6,
+  spacing: 0,
+  staggered: false,
+});
+check(
+  "cylinder cells inside the circle",
+  [...cylinder].every(
+    (c) => ((c % 64) - 20) ** 2 + (Math.floor(c / 64) - 30) ** 2 <= 36
+  )
+);
+check(
+  "cylinder area",
+  Math.abs(cylinder.size - Math.PI * 36) < 0.1 * Math.PI * 36
+);
+const rectangle = cells({
+  kind: "rectangle",
+  cx: 30.5,
+  cy: 30.5,
+  width: 8,
+  height: 4,
+  angle: 0,
+});
+check("rectangle area", rectangle.size === 32);
+check(
+  "clipped to the domain",
+  obstacleSpans({ kind: "step", length: 100, height: 2 }, 64, 64).every(
+    ({ x1 }) => x1 === 63
+  )
+);
+
+// ---------- edge ranks ----------
+
+const edgeMask = new Uint32Array(6 * 4);
+applyEdges(edgeMask, 6, 4, {
+  left: "inlet",
+  right: "zouHeOutlet",
+  bottom: "wall",
+  top: "moving",
+});
+const cellAt = (x: number, y: number) => edgeMask[y * 6 + x];
+check("wall beats inlet", cellAt(0, 0) === CELL.SOLID);
+check("moving beats inlet", cellAt(0, 3) === movingWall(4));
+check("inlet cells", cellAt(0, 1) === CELL.EQ && cellAt(0, 2) === CELL.EQ);
+check(
+  "outlet cells",
+  cellAt(5, 1) === withNormal(CELL.ZOU_HE_OUTLET, Normals.WEST)
+);
+check(
+  "fluid inside",
+  cellAt(2, 1) === CELL.FLUID && cellAt(3, 2) === CELL.FLUID
+);
+const periodic = new Uint32Array(6 * 4).fill(7);
+applyEdges(periodic, 6, 4, {
+  left: "periodic",
+  right: "periodic",
+  bottom: "periodic",
+  top: "periodic",
+});
+check(
+  "periodic edges are fluid, the inside is kept",
+  periodic.every((m, c) => {
+    const x = c % 6;
+    const y = Math.floor(c / 6);
+    const edge = x === 0 || x === 5 || y === 0 || y === 3;
+    return m === (edge ? CELL.FLUID : 7);
+  })
+);
+const slipOutlet = new Uint32Array(6 * 4);
+applyEdges(slipOutlet, 6, 4, {
+  left: "outflow",
+  right: "outlet",
+  bottom: "slip",
+  top: "slip",
+});
+check(
+  "slip beats outlets",
+  slipOutlet[0] === withNormal(CELL.SLIP, Normals.NORTH) &&
+    slipOutlet[23] === withNormal(CELL.SLIP, Normals.SOUTH)
+);
+const convective = new Uint32Array(6 * 4);
+applyEdges(convective, 6, 4, {
+  left: "convective",
+  right: "outlet",
+  bottom: "wall",
+  top: "outflow",
+});
+check(
+  "convective cells",
+  convective[6] === withNormal(CELL.CONVECTIVE, Normals.EAST) &&
+    convective[12] === withNormal(CELL.CONVECTIVE, Normals.EAST)
+);
+check(
+  "convective beats outflow",
+  convective[18] === withNormal(CELL.CONVECTIVE, Normals.EAST)
+);
+check(
+  "outlet beats convective",
+  convective[23] === withNormal(CELL.OUTLET, Normals.WEST)
+);
+
+// ---------- convective outflow ----------
+
+const [cx, cy] = [48, 16];
+const channel = new Uint32Array(cx * cy);
+applyEdges(channel, cx, cy, {
+  left: "zouHeInlet",
+  right: "convective",
+  bottom: "wall",
+  top: "wall",
+});
+const solver = new CPULBM(cx, cy, { tau: 0.8, inletUx: 0.05, mask: channel });
+const meanRho = () => {
+  const { rho } = solver.readMacroscopic();
+  let sum = 0;
+  for (let y = 1; y < cy - 1; y++)
+    for (let x = 1; x < cx - 1; x++) sum += rho[y * cx + x];
+  return sum / ((cx - 2) * (cy - 2));
+};
+solver.step(2000);
+const rho2000 = meanRho();
+solver.step(1000);
+const rho3000 = meanRho();
+check(
+  "convective outflow keeps the density level",
+  Number.isFinite(rho3000) && Math.abs(rho3000 - rho2000) < 1e-3
+);
+
+console.log(`Round-trip checks: ${passed} passed, ${failures.length} failed`);
+for (const name of failures) console.log(`  failed: ${name}`);
+if (failures.length) throw new Error("Round-trip checks failed.");
@@ -0,0 +1,855 @@
+import {
+  CollisionOperators,
+  DEFAULT_MRT_RATES,
+  DEFAULT_TRT_MAGIC,
+  trtOmegaMinus,
+  type CollisionOperator,
+  type MRTRates,
+} from "./collision";
+import { decodeF16s, packF16s } from "./fp16";
+import {
+  DEFAULT_INLET_PROFILE,
+  inletProfileFactors,
+  modulationFactor,
+  validateInlet,
+  type InletModulation,
+  type InletProfile,
+} from "./inlet";
+import {
+  CELL,
+  cellNormal,
+  createDefaultMask,
+  isOpenBoundary,
+  isWall,
+  isZouHe,
+  wallMotionId,
+  type WallMotion,
+} from "./mask";
+
+// CPU reference implementation of the D2Q9 kernels in init.wgsl / step.wgsl.
+// Same SoA layout f[dir*C + cell], same shifted DDFs, same Esoteric Pull parity
+// handling and mask semantics. Has no DOM/WebGPU dependency so it runs in Node.
+
+// C, E, W, N, S, NE, SW, SE, NW (see common.wgsl)
+export const EX = [0, 1, -1, 0, 0, 1, -1, 1, -1] as const;
+export const EY = [0, 0, 0, 1, -1, 1, -1, -1, 1] as const;
+export const OPP = [0, 2, 1, 4, 3, 6, 5, 8, 7] as const;
+
+const W0 = 4.0 / 9.0;
+const WS = 1.0 / 9.0;
+const WE = 1.0 / 36.0;
+export const W = [W0, WS, WS, WS, WS, WE, WE, WE, WE] as const;
+
+/**
+ * Port of slip_reflect() in step.wgsl: populations leaving a free-slip wall
+ * into the domain are the arriving ones with the normal component flipped.
+ */
+function slipReflect(fi: Float64Array, n: number): void {
+  const nx = EX[n];
+  const ny = EY[n];
+  for (let i = 1; i < 9; i++) {
+    if (EX[i] * nx + EY[i] * ny <= 0) continue;
+    const mx = nx !== 0 ? -EX[i] : EX[i];
+    const my = ny !== 0 ? -EY[i] : EY[i];
+    for (let k = 1; k < 9; k++) {
+      if (EX[k] === mx && EY[k] === my) fi[i] = fi[k];
+    }
+  }
+}
+
+/** Port of zou_he_unknowns() in step.wgsl (n: direction into the domain). */
+function zouHeUnknowns(
+  fi: Float64Array,
+  n: number,
+  rho: number,
+  ux: number,
+  uy: number
+): void {
+  const nx = EX[n];
+  const ny = EY[n];
+  const tx = -ny; // tangent
+  const ty = nx;
+  let Nt = 0;
+  for (let i = 1; i < 9; i++) {
+    if (EX[i] * nx + EY[i] * ny === 0) Nt += fi[i] * (EX[i] * tx + EY[i] * ty);
+  }
+  const ut = ux * tx + uy * ty;
+  for (let i = 1; i < 9; i++) {
+    if (EX[i] * nx + EY[i] * ny <= 0) continue;
+    const cu = EX[i] * ux + EY[i] * uy;
+    const ct = EX[i] * tx + EY[i] * ty;
+    fi[i] =
+      fi[OPP[i]] + 6 * W[i] * rho * cu - 0.5 * ct * (Nt - (2 / 3) * rho * ut);
+  }
+}
+
+/** Port of zou_he_known_mass() in step.wgsl: rho (1 - u.n). */
+function zouHeKnownMass(fi: Float64Array, n: number): number {
+  let s = 0;
+  for (let i = 0; i < 9; i++) {
+    const d = EX[i] * EX[n] + EY[i] * EY[n];
+    if (d === 0) s += fi[i];
+    else if (d < 0) s += 2 * fi[i];
+  }
+  return s + 1.0;
+}
+
+/** Port of wall_velocity() in step.wgsl. */
+function wallVelocity(w: WallMotion, x: number, y: number): [number, number] {
+  return [w.ux - w.omega * (y - w.cy), w.uy + w.omega * (x - w.cx)];
+}
+
+/**
+ * "f16": values are stored exactly like on the GPU (FP16s, scaled by 2^15).
+ * "f32": values are rounded to f32 only; useful to separate storage error from scheme error.
+ */
+export type CPUStorage = "f16" | "f32";
+
+export interface CPULBMOptions {
+  storage?: CPUStorage;
+  tau?: number;
+  inletUx?: number;
+  inletUy?: number;
+  collision?: CollisionOperator;
+  trtMagic?: number;
+  mrtRates?: Partial<MRTRates>;
+  /** Smagorinsky constant Cs of the LES model, 0 (default) -> off. */
+  smagorinsky?: number;
+  /** Initial mask (copied). Defaults to the same channel scenario the GPU solver uses. */
+  mask?: Uint32Array;
+}
+
+export interface MacroscopicFields {
+  Nx: number;
+  Ny: number;
+  rho: Float32Array;
+  ux: Float32Array;
+  uy: Float32Array;
+}
+
+type Store = Uint16Array | Float32Array;
+
+// decode LUT for all 2^16 half bit patterns (built on first use)
+let F16S_LUT: Float32Array | null = null;
+function f16sLut(): Float32Array {
+  if (!F16S_LUT) {
+    F16S_LUT = new Float32Array(1 << 16);
+    for (let h = 0; h < 1 << 16; h++) F16S_LUT[h] = decodeF16s(h);
+  }
+  return F16S_LUT;
+}
+
+/**
+ * Populations f_i(x) as the next step would load them (load_f_ep_implicit),
+ * from a decoded SoA buffer in Esoteric Pull storage order. Shifted DDFs stay
+ * shifted; `out` may not alias `f`.
+ */
+export function resolveEsotericPull(
+  f: ArrayLike<number>,
+  Nx: number,
+  Ny: number,
+  parity: 0 | 1,
+  out = new Float32Array(9 * Nx * Ny)
+): Float32Array {
+  const C = Nx * Ny;
+  const odd = parity === 1;
+  const j = new Uint32Array(9); // scratch (avoid per-cell allocations)
+  for (let y = 0; y < Ny; y++) {
+    const y0 = y * Nx;
+    const yp = ((y + 1) % Ny) * Nx;
+    const ym = ((y + Ny - 1) % Ny) * Nx;
+    for (let x0 = 0; x0 < Nx; x0++) {
+      const xp = (x0 + 1) % Nx;
+      const xm = (x0 + Nx - 1) % Nx;
+      const cell = y0 + x0;
+      // neighbors in EX/EY order (same as get_neighbors())
+      j[0] = cell;
+      j[1] = xp + y0;
+      j[2] = xm + y0;
+      j[3] = x0 + yp;
+      j[4] = x0 + ym;
+      j[5] = xp + yp;
+      j[6] = xm + ym;
+      j[7] = xp + ym;
+      j[8] = xm + yp;
+      out[cell] = f[cell];
+      for (let i = 1; i < 9; i += 2) {
+        out[i * C + cell] = f[(odd ? i + 1 : i) * C + cell];
+        out[(i + 1) * C + cell] = f[(odd ? i : i + 1) * C + j[i]];
+      }
+    }
+  }
+  return out;
+}
+
+/**
+ * Shifted D2Q9 equilibrium, port of feq_d2q9_shifted() in common.wgsl.
+ * Writes into `out` (length 9) and returns it.
+ */
+export function feqD2Q9Shifted(
+  rho: number,
+  uxIn: number,
+  uyIn: number,
+  out: Float64Array | number[] = new Float64Array(9)
+): Float64Array | number[] {
+  const rhom1 = rho - 1.0; // arithmetic optimization to minimize digit extinction
+  const c3 = -3.0 * (uxIn * uxIn + uyIn * uyIn);
+  const ux = uxIn * 3.0;
+  const uy = uyIn * 3.0;
+
+  const rhos = WS * rho;
+  const rhoe = WE * rho;
+  const rhom1s = WS * rhom1;
+  const rhom1e = WE * rhom1;
+
+  out[0] = W0 * (rho * 0.5 * c3 + rhom1);
+
+  const uPlus = ux + uy;
+  const uMinus = ux - uy;
+
+  out[1] = rhos * (0.5 * (ux * ux + c3) + ux) + rhom1s; // E
+  out[2] = rhos * (0.5 * (ux * ux + c3) - ux) + rhom1s; // W
+  out[3] = rhos * (0.5 * (uy * uy + c3) + uy) + rhom1s; // N
+  out[4] = rhos * (0.5 * (uy * uy + c3) - uy) + rhom1s; // S
+
+  out[5] = rhoe * (0.5 * (uPlus * uPlus + c3) + uPlus) + rhom1e; // NE
+  out[8] = rhoe * (0.5 * (uMinus * uMinus + c3) - uMinus) + rhom1e; // NW
+  out[6] = rhoe * (0.5 * (uPlus * uPlus + c3) - uPlus) + rhom1e; // SW
+  out[7] = rhoe * (0.5 * (uMinus * uMinus + c3) + uMinus) + rhom1e; // SE
+
+  return out;
+}
+
+/** Guo forcing source (without the (1 - w/2) prefactor), port of guo_source() in step.wgsl. */
+export function guoSource(
+  ux: number,
+  uy: number,
+  Fx: number,
+  Fy: number,
+  out: Float64Array | number[] = new Float64Array(9)
+): Float64Array | number[] {
+  for (let i = 0; i < 9; i++) {
+    const cu = EX[i] * ux + EY[i] * uy;
+    const cF = EX[i] * Fx + EY[i] * Fy;
+    const cuF = (EX[i] - ux) * Fx + (EY[i] - uy) * Fy;
+    out[i] = W[i] * (3.0 * cuF + 9.0 * cu * cF);
+  }
+  return out;
+}
+
+/**
+ * Effective relaxation time of the Smagorinsky model, port of
+ * smagorinsky_tau() in common.wgsl. Pass the shifted populations and
+ * equilibria of one cell (the shift cancels in fi - feq).
+ */
+export function smagorinskyTau(
+  tau0: number,
+  rho: number,
+  fi: ArrayLike<number>,
+  feq: ArrayLike<number>,
+  cs: number
+): number {
+  let pxx = 0;
+  let pyy = 0;
+  let pxy = 0;
+  for (let i = 1; i < 9; i++) {
+    const neq = fi[i] - feq[i];
+    const cx = EX[i];
+    const cy = EY[i];
+    pxx += cx * cx * neq;
+    pyy += cy * cy * neq;
+    pxy += cx * cy * neq;
+  }
+  const q = Math.sqrt(2 * (pxx * pxx + pyy * pyy + 2 * pxy * pxy));
+  return 0.5 * (tau0 + Math.sqrt(tau0 * tau0 + (18 * cs * cs * q) / rho));
+}
+
+// D2Q9 MRT moment basis (rho, e, eps, jx, qx, jy, qy, pxx, pxy), see step.wgsl
+const MRT_M = [
+  [1, 1, 1, 1, 1, 1, 1, 1, 1],
+  [-4, -1, -1, -1, -1, 2, 2, 2, 2],
+  [4, -2, -2, -2, -2, 1, 1, 1, 1],
+  [0, 1, -1, 0, 0, 1, -1, 1, -1],
+  [0, -2, 2, 0, 0, 1, -1, 1, -1],
+  [0, 0, 0, 1, -1, 1, -1, -1, 1],
+  [0, 0, 0, -2, 2, 1, -1, -1, 1],
+  [0, 1, 1, -1, -1, 0, 0, 0, 0],
+  [0, 0, 0, 0, 0, 1, 1, -1, -1],
+] as const;
+const MRT_INV_NORM = [
+  1 / 9,
+  1 / 36,
+  1 / 36,
+  1 / 6,
+  1 / 12,
+  1 / 6,
+  1 / 12,
+  1 / 4,
+  1 / 4,
+] as const;
+
+export class CPULBM {
+  // grid
+  #Nx: number;
+  #Ny: number;
+  #Q = 9;
+  #cellCount: number;
+
+  // physics
+  #omega: number;
+  #inletUx: number;
+  #inletUy: number;
+  #inletProfile: InletProfile = DEFAULT_INLET_PROFILE;
+  #inletFactors: Float32Array; // Ny by y, then Nx by x (see inlet_velocity)
+  #inletModulation: InletModulation | null = null;
+  #inletScale = 1; // modulation factor of the current step
+  #rhoIn = 1.0;
+  #rhoOut = 1.0;
+  #forceX = 0.0; // uniform body force (Guo forcing)
+  #forceY = 0.0;
+  #forceField: Float32Array | null = null; // 2*C: Fx plane, Fy plane
+  #collision: CollisionOperator;
+  #trtMagic: number;
+  #mrtRates: MRTRates;
+  #smagorinsky: number; // Cs, 0 -> LES off
+
+  // storage
+  #storage: CPUStorage;
+  #f: Store; // SoA: f[dir*C + cell]
+  #u: Store; // 2*C: ux, uy
+  #rho: Store;
+  #mask: Uint32Array;
+  #wallMotions = new Map<number, WallMotion>(); // by wall motion table index
+
+  // step toggle
+  #tick = 0;
+  #parity: 0 | 1 = 0;
+
+  // scratch (avoid per-cell allocations)
+  #fi = new Float64Array(9);
+  #feq = new Float64Array(9);
+  #Fs = new Float64Array(9);
+  #tmp = new Float64Array(9);
+  #j = new Uint32Array(9);
+
+  constructor(nx: number, ny: number, opts: CPULBMOptions = {}) {
+    this.#Nx = nx;
+    this.#Ny = ny;
+    this.#cellCount = nx * ny;
+    this.#storage = opts.storage ?? "f16";
+    this.#omega = 1 / (opts.tau ?? 0.7);
+    this.#inletUx = opts.inletUx ?? 0.05;
+    this.#inletUy = opts.inletUy ?? 0;
+    this.#collision = opts.collision ?? CollisionOperators.BGK;
+    this.#trtMagic = opts.trtMagic ?? DEFAULT_TRT_MAGIC;
+    this.#mrtRates = { ...DEFAULT_MRT_RATES, ...opts.mrtRates };
+    this.#smagorinsky = opts.smagorinsky ?? 0;
+
+    const C = this.#cellCount;
+    const Arr = this.#storage === "f16" ? Uint16Array : Float32Array;
+    this.#f = new Arr(this.#Q * C);
+    this.#u = new Arr(2 * C);
+    this.#rho = new Arr(C);
+
+    if (opts.mask && opts.mask.length !== C) {
+      throw new Error(`Mask has ${opts.mask.length} cells, expected ${C}.`);
+    }
+    this.#mask = opts.mask
+      ? new Uint32Array(opts.mask)
+      : createDefaultMask(nx, ny);
+    this.#inletFactors = new Float32Array(nx + ny).fill(1);
+
+    this.reset();
+  }
+
+  get Nx(): number {
+    return this.#Nx;
+  }
+  get Ny(): number {
+    return this.#Ny;
+  }
+  get tick(): number {
+    return this.#tick;
+  }
+  get parity(): 0 | 1 {
+    return this.#parity;
+  }
+  get storage(): CPUStorage {
+    return this.#storage;
+  }
+  /** Live view of the mask (u32 per cell). Use setMask()/applyMaskRows() to modify. */
+  get mask(): Uint32Array {
+    return this.#mask;
+  }
+
+  // ---------- storage encode/decode (FP16s or plain f32) ----------
+  #load = (arr: Store, i: number): number => {
+    return this.#storage === "f16" ? f16sLut()[arr[i]] : arr[i];
+  };
+
+  #store = (arr: Store, i: number, v: number): void => {
+    arr[i] = this.#storage === "f16" ? packF16s(v) : v;
+  };
+
+  /** Port of initialize() in init.wgsl: equilibrium everywhere, inlet velocity on EQ cells. */
+  reset = (): void => {
+    const C = this.#cellCount;
+    const feq = this.#feq;
+    this.#inletScale = this.#inletModulation
+      ? modulationFactor(this.#inletModulation, 0)
+      : 1;
+
+    for (let cell = 0; cell < C; cell++) {
+      let ux = 0;
+      let uy = 0;
+      if ((this.#mask[cell] & CELL.EQ) !== 0) {
+        [ux, uy] = this.#inletVelocity(cell); // velocity inlet
+      }
+      this.#store(this.#rho, cell, 1.0);
+      this.#store(this.#u, cell, ux);
+      this.#store(this.#u, C + cell, uy);
+      feqD2Q9Shifted(1.0, ux, uy, feq);
+      for (let d = 0; d < 9; d++) this.#store(this.#f, d * C + cell, feq[d]);
+    }
+
+    this.#parity = 0;
+    this.#tick = 0;
+  };
+
+  // periodic neighbour indices, same order as get_neighbors() in common.wgsl
+  #neighbors = (cell: number): Uint32Array => {
+    const Nx = this.#Nx;
+    const Ny = this.#Ny;
+    const j = this.#j;
+    const x0 = cell % Nx;
+    const y = (cell - x0) / Nx;
+    const xp = (x0 + 1) % Nx;
+    const xm = (x0 + Nx - 1) % Nx;
+    const y0 = y * Nx;
+    const yp = ((y + 1) % Ny) * Nx;
+    const ym = ((y + Ny - 1) % Ny) * Nx;
+
+    j[0] = cell;
+    j[1] = xp + y0; // E
+    j[2] = xm + y0; // W
+    j[3] = x0 + yp; // N
+    j[4] = x0 + ym; // S
+    j[5] = xp + yp; // NE
+    j[6] = xm + ym; // SW
+    j[7] = xp + ym; // SE
+    j[8] = xm + yp; // NW
+    return j;
+  };
+
+  // Esoteric Pull: implicit bounce-back (load_f_ep_implicit)
+  #loadEP = (cell: number, j: Uint32Array, fi: Float64Array): void => {
+    const C = this.#cellCount;
+    const odd = this.#parity === 1;
+    fi[0] = this.#load(this.#f, cell);
+    for (let i = 1; i < 9; i += 2) {
+      fi[i] = this.#load(this.#f, (odd ? i + 1 : i) * C + cell);
+      fi[i + 1] = this.#load(this.#f, (odd ? i : i + 1) * C + j[i]);
+    }
+  };
+
+  #storeEP = (cell: number, j: Uint32Array, fi: Float64Array): void => {
+    const C = this.#cellCount;
+    const odd = this.#parity === 1;
+    this.#store(this.#f, cell, fi[0]);
+    for (let i = 1; i < 9; i += 2) {
+      this.#store(this.#f, (odd ? i : i + 1) * C + j[i], fi[i]);
+      this.#store(this.#f, (odd ? i + 1 : i) * C + cell, fi[i + 1]);
+    }
+  };
+
+  // ---------- collision operators (ports of collide_* in step.wgsl) ----------
+
+  #collideBGK = (w: number): void => {
+    const fi = this.#fi;
+    const feq = this.#feq;
+    const Fs = this.#Fs;
+    const pre = 1.0 - 0.5 * w;
+    for (let i = 0; i < 9; i++) {
+      fi[i] = w * feq[i] + (1 - w) * fi[i] + pre * Fs[i];
+    }
+  };
+
+  #collideTRT = (wp: number, wm: number): void => {
+    const fi = this.#fi;
+    const feq = this.#feq;
+    const Fs = this.#Fs;
+    const out = this.#tmp;
+    for (let i = 0; i < 9; i++) {
+      const o = OPP[i];
+      const fp = 0.5 * (fi[i] + fi[o]);
+      const fm = 0.5 * (fi[i] - fi[o]);
+      const ep = 0.5 * (feq[i] + feq[o]);
+      const em = 0.5 * (feq[i] - feq[o]);
+      const sp = 0.5 * (Fs[i] + Fs[o]);
+      const sm = 0.5 * (Fs[i] - Fs[o]);
+      out[i] =
+        fi[i] -
+        wp * (fp - ep) -
+        wm * (fm - em) +
+        (1.0 - 0.5 * wp) * sp +
+        (1.0 - 0.5 * wm) * sm;
+    }
+    fi.set(out);
+  };
+
+  #collideMRT = (w: number): void => {
+    const fi = this.#fi;
+    const feq = this.#feq;
+    const Fs = this.#Fs;
+    const dm = this.#tmp;
+    const { sE, sEps, sQ } = this.#mrtRates;
+    const S = [1, sE, sEps, 1, sQ, 1, sQ, w, w];
+    for (let k = 0; k < 9; k++) {
+      let neq = 0;
+      let src = 0;
+      for (let i = 0; i < 9; i++) {
+        neq += MRT_M[k][i] * (fi[i] - feq[i]);
+        src += MRT_M[k][i] * Fs[i];
+      }
+      dm[k] = (-S[k] * neq + (1.0 - 0.5 * S[k]) * src) * MRT_INV_NORM[k];
+    }
+    for (let i = 0; i < 9; i++) {
+      let df = 0;
+      for (let k = 0; k < 9; k++) df += MRT_M[k][i] * dm[k];
+      fi[i] += df;
+    }
+  };
+
+  /**
+   * Port of step() in step.wgsl. Cells are processed in row-major order; the
+   * kernel itself is order independent apart from outlets reading the
+   * velocity of their inner neighbour, which is a benign race on the GPU.
+   */
+  #stepOnce = (): void => {
+    const Nx = this.#Nx;
+    const C = this.#cellCount;
+    const fi = this.#fi;
+    const feq = this.#feq;
+    const Fs = this.#Fs;
+    const field = this.#forceField;
+    const omega = this.#omega;
+    const omegaMinus = trtOmegaMinus(omega, this.#trtMagic);
+    const cs = this.#smagorinsky;
+    this.#inletScale = this.#inletModulation
+      ? modulationFactor(this.#inletModulation, this.#tick)
+      : 1;
+
+    for (let cell = 0; cell < C; cell++) {
+      const m = this.#mask[cell];
+      if ((m & CELL.SOLID) !== 0) continue;
+      const eq = isOpenBoundary(m);
+
+      const j = this.#neighbors(cell);
+      this.#loadEP(cell, j, fi);
+
+      if ((m & CELL.FRESH) !== 0) {
+        // uncovered by a moving obstacle: start at rest relative to it
+        const [wx, wy] = this.#wallVelocity(cell, m);
+        feqD2Q9Shifted(1.0, wx, wy, fi);
+      } else if (this.#wallMotions.size && !eq) {
+        this.#movingWallCorrection(j, fi, this.#load(this.#rho, cell));
+      }
+
+      if (isZouHe(m)) this.#applyZouHe(cell, m, fi);
+
+      if ((m & CELL.SLIP) !== 0) {
+        slipReflect(fi, cellNormal(m));
+        this.#storeEP(cell, j, fi);
+        continue;
+      }
+
+      let rho: number;
+      let ux: number;
+      let uy: number;
+
+      // body_force()
+      let Fx = this.#forceX;
+      let Fy = this.#forceY;
+      if (field) {
+        Fx += field[cell];
+        Fy += field[C + cell];
+      }
+
+      if ((m & CELL.EQ) !== 0) {
+        // velocity inlet: prescribed density and velocity
+        rho = this.#rhoIn;
+        [ux, uy] = this.#inletVelocity(cell);
+      } else if (eq) {
+        // outlet/outflow: velocity (and density) from the inner cell
+        const n = cellNormal(m);
+        const inner = cell + EX[n] + EY[n] * Nx;
+        rho =
+          (m & CELL.OUTLET) !== 0 ? this.#rhoOut : this.#load(this.#rho, inner);
+        ux = this.#load(this.#u, inner);
+        uy = this.#load(this.#u, C + inner);
+        if ((m & CELL.CONVECTIVE) !== 0) {
+          // du/dt + U du/dn = 0: relax the last boundary values towards the
+          // inner ones with the outflow speed U (0 on backflow)
+          const U = Math.min(Math.max(-(ux * EX[n] + uy * EY[n]), 0), 1);
+          rho = (this.#load(this.#rho, cell) + U * rho) / (1 + U);
+          ux = (this.#load(this.#u, cell) + U * ux) / (1 + U);
+          uy = (this.#load(this.#u, C + cell) + U * uy) / (1 + U);
+        }
+      } else {
+        // calculate_rho_u (add 1.0 last to avoid digit extinction)
+        rho = fi[0];
+        for (let d = 1; d < 9; d++) rho += fi[d];
+        rho += 1.0;
+        // half-force correction (Guo)
+        ux = (fi[1] - fi[2] + fi[5] - fi[6] + fi[7] - fi[8] + 0.5 * Fx) / rho;
+        uy = (fi[3] - fi[4] + fi[5] - fi[6] + fi[8] - fi[7] + 0.5 * Fy) / rho;
+      }
+      this.#store(this.#rho, cell, rho);
+      this.#store(this.#u, cell, ux);
+      this.#store(this.#u, C + cell, uy);
+
+      feqD2Q9Shifted(rho, ux, uy, feq);
+      guoSource(ux, uy, Fx, Fy, Fs);
+
+      // Smagorinsky LES: local (effective) relaxation rates
+      let w = omega;
+      let wm = omegaMinus;
+      if (cs > 0 && !eq) {
+        w = 1 / smagorinskyTau(1 / omega, rho, fi, feq, cs);
+        wm = trtOmegaMinus(w, this.#trtMagic);
+      }
+
+      // perform collision; open boundaries are reset to equilibrium
+      if (eq) fi.set(feq);
+      else if (this.#collision === CollisionOperators.TRT)
+        this.#collideTRT(w, wm);
+      else if (this.#collision === CollisionOperators.MRT) this.#collideMRT(w);
+      else this.#collideBGK(w);
+
+      this.#storeEP(cell, j, fi);
+    }
+
+    // Flip EP parity
+    this.#parity ^= 1;
+    this.#tick++;
+  };
+
+  // port of apply_zou_he() in step.wgsl
+  #applyZouHe = (cell: number, m: number, fi: Float64Array): void => {
+    const n = cellNormal(m);
+    let rho: number;
+    let ux: number;
+    let uy: number;
+    if ((m & CELL.ZOU_HE_INLET) !== 0) {
+      [ux, uy] = this.#inletVelocity(cell);
+      rho = zouHeKnownMass(fi, n) / (1 - (ux * EX[n] + uy * EY[n]));
+    } else {
+      rho = this.#rhoOut;
+      const un = 1 - zouHeKnownMass(fi, n) / rho; // no tangential velocity
+      ux = un * EX[n];
+      uy = un * EY[n];
+    }
+    zouHeUnknowns(fi, n, rho, ux, uy);
+  };
+
+  // port of inlet_velocity() in step.wgsl
+  #inletVelocity = (cell: number): [number, number] => {
+    const Nx = this.#Nx;
+    const Ny = this.#Ny;
+    const x = cell % Nx;
+    const y = Math.floor(cell / Nx);
+    let profile = 1;
+    if (x === 0 || x === Nx - 1) profile = this.#inletFactors[y];
+    else if (y === 0 || y === Ny - 1) profile = this.#inletFactors[Ny + x];
+    const s = profile * this.#inletScale;
+    return [this.#inletUx * s, this.#inletUy * s];
+  };
+
+  // ---------- parameters (take effect on the next step) ----------
+
+  setInletVelocity = (ux: number, uy = 0): void => {
+    this.#inletUx = ux;
+    this.#inletUy = uy;
+  };
+
+  /** Inlet velocity profile across the inlet cells of the current mask. */
+  setInletProfile = (profile: InletProfile): void => {
+    validateInlet(profile);
+    this.#inletProfile = { ...profile };
+    this.#updateInletFactors();
+  };
+
+  /** Time modulation of the inlet velocity; null -> constant. */
+  setInletModulation = (modulation: InletModulation | null): void => {
+    const m = modulation && structuredClone(modulation);
+    if (m) validateInlet(this.#inletProfile, m);
+    this.#inletModulation = m;
+  };
+
+  #updateInletFactors = (): void => {
+    this.#inletFactors = inletProfileFactors(
+      this.#inletProfile,
+      this.#mask,
+      this.#Nx,
+      this.#Ny
+    );
+  };
+
+  setOutletDensity = (rho: number): void => {
+    this.#rhoOut = rho;
+  };
+
+  setOmega = (omega: number): void => {
+    this.#omega = omega;
+  };
+
+  setBodyForce = (fx: number, fy: number): void => {
+    this.#forceX = fx;
+    this.#forceY = fy;
+  };
+
+  /** Per-cell force field added to the uniform force; null removes it. */
+  setForceField = (fx: Float32Array | null, fy?: Float32Array): void => {
+    if (!fx) {
+      this.#forceField = null;
+      return;
+    }
+    const C = this.#cellCount;
+    if (fx.length !== C || fy?.length !== C) {
+      throw new Error(`Force field must have ${C} cells.`);
+    }
+    this.#forceField = new Float32Array(2 * C);
+    this.#forceField.set(fx, 0);
+    this.#forceField.set(fy, C);
+  };
+
+  setCollision = (op: CollisionOperator): void => {
+    this.#collision = op;
+  };
+
+  setTRTMagic = (magic: number): void => {
+    this.#trtMagic = magic;
+  };
+
+  setMRTRates = (rates: Partial<MRTRates>): void => {
+    this.#mrtRates = { ...this.#mrtRates, ...rates };
+  };
+
+  /** Smagorinsky constant Cs; 0 switches the LES model off. */
+  setSmagorinsky = (cs: number): void => {
+    this.#smagorinsky = cs;
+  };
+
+  step = (numSteps = 1): void => {
+    for (let i = 0; i < numSteps; i++) this.#stepOnce();
+  };
+
+  // ---------- mask ----------
+
+  #wallVelocity = (cell: number, m: number): [number, number] => {
+    const w = this.#wallMotions.get(wallMotionId(m));
+    if (!w) return [0, 0];
+    return wallVelocity(w, cell % this.#Nx, Math.floor(cell / this.#Nx));
+  };
+
+  // port of moving_wall_correction() in step.wgsl
+  #movingWallCorrection = (
+    j: Uint32Array,
+    fi: Float64Array,
+    rho: number
+  ): void => {
+    for (let i = 1; i < 9; i++) {
+      const nb = j[OPP[i]];
+      const mn = this.#mask[nb];
+      if ((mn & CELL.MOVING) === 0) continue;
+      const [wx, wy] = this.#wallVelocity(nb, mn);
+      fi[i] += 6 * W[i] * rho * (EX[i] * wx + EY[i] * wy);
+    }
+  };
+
+  /** Wall motion table entry `id` (see movingWall()); null removes it. */
+  setWallMotion = (id: number, motion: WallMotion | null): void => {
+    if (motion) this.#wallMotions.set(id, { ...motion });
+    else this.#wallMotions.delete(id);
+  };
+
+  setMask = (mask: Uint32Array): void => {
+    if (mask.length !== this.#cellCount) {
+      throw new Error(
+        `Mask has ${mask.length} cells, expected ${this.#cellCount}.`
+      );
+    }
+    this.#mask.set(mask);
+    this.#updateInletFactors();
+  };
+
+  resetMask = (): void => {
+    this.#mask = createDefaultMask(this.#Nx, this.#Ny);
+    this.#updateInletFactors();
+  };
+
+  applyMaskRows = (
+    rows: Array<{ y: number; x0: number; x1: number }>,
+    value: number
+  ): void => {
+    for (const { y, x0, x1 } of rows) {
+      const off = y * this.#Nx;
+      for (let x = Math.min(x0, x1); x <= Math.max(x0, x1); x++) {
+        this.#mask[off + x] = value;
+      }
+    }
+  };
+
+  // ---------- field access ----------
+
+  /** Shifted DDFs exactly as stored (parity dependent), decoded to f32. */
+  readDistributions = (): Float32Array => {
+    const out = new Float32Array(this.#f.length);
+    for (let i = 0; i < out.length; i++) out[i] = this.#load(this.#f, i);
+    return out;
+  };
+
+  /**
+   * Density and velocity computed from the EP-consistent populations, the same
+   * way render_compute.wgsl does (with the Guo half-force term, as global_u).
+   * Walls report rho = 1, u = 0.
+   */
+  readMacroscopic = (): MacroscopicFields => {
+    const C = this.#cellCount;
+    const rho = new Float32Array(C).fill(1);
+    const ux = new Float32Array(C);
+    const uy = new Float32Array(C);
+    const fi = this.#fi;
+    const field = this.#forceField;
+
+    for (let cell = 0; cell < C; cell++) {
+      const m = this.#mask[cell];
+      if (isWall(m)) continue;
+      const j = this.#neighbors(cell);
+      this.#loadEP(cell, j, fi);
+      if (this.#wallMotions.size) {
+        this.#movingWallCorrection(j, fi, 1 + fi.reduce((a, b) => a + b, 0));
+      }
+      if (isZouHe(m)) this.#applyZouHe(cell, m, fi); // unknowns come from outside
+      let r = 1.0;
+      let mx = 0;
+      let my = 0;
+      for (let d = 0; d < 9; d++) {
+        r += fi[d];
+        mx += fi[d] * EX[d];
+        my += fi[d] * EY[d];
+      }
+      // half-force correction (Guo), body_force() of step.wgsl
+      let Fx = this.#forceX;
+      let Fy = this.#forceY;
+      if (field) {
+        Fx += field[cell];
+        Fy += field[C + cell];
+      }
+      rho[cell] = r;
+      ux[cell] = (mx + 0.5 * Fx) / r;
+      uy[cell] = (my + 0.5 * Fy) / r;
+    }
+    return { Nx: this.#Nx, Ny: this.#Ny, rho, ux, uy };
+  };
+}
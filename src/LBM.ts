@@ -1,27 +1,253 @@
+import type { RowSpan } from "./canvas";
 import type { GPUController } from "./GPUController";
 import initWGSL from "./shader/init.wgsl?raw";
 import stepWGSL from "./shader/step.wgsl?raw";
 import blitWGSL from "./shader/blit.wgsl?raw";
 import renderComputeWGSL from "./shader/render_compute.wgsl?raw";
 import commonWgsl from "./shader/common.wgsl?raw";
-
-export const CELL = {
-  FLUID: 0,
-  SOLID: 1 << 0,
-  EQ: 1 << 1,
-} as const;
+import diagnosticsWGSL from "./shader/diagnostics.wgsl?raw";
+import overlayComputeWGSL from "./shader/overlay_compute.wgsl?raw";
+import overlayDrawWGSL from "./shader/overlay_draw.wgsl?raw";
+import tracerComputeWGSL from "./shader/tracer_compute.wgsl?raw";
+import tracerDrawWGSL from "./shader/tracer_draw.wgsl?raw";
+import samplingWGSL from "./shader/sampling.wgsl?raw";
+import {
+  CollisionOperators,
+  DEFAULT_MRT_RATES,
+  DEFAULT_SMAGORINSKY,
+  DEFAULT_TRT_MAGIC,
+  trtOmegaMinus,
+  type CollisionOperator,
+  type MRTRates,
+} from "./collision";
+import {
+  DEFAULT_MACH_THRESHOLD,
+  REPORT_BYTES,
+  REPORT_CLEAR,
+  decodeReport,
+  type InstabilityReport,
+} from "./diagnostics";
+import {
+  COLORMAP_SIZE,
+  getColormap,
+  hexColor,
+  VisColormaps,
+  type VisColormap,
+} from "./colormaps";
+import { resolveEsotericPull, W } from "./CPULBM";
+import {
+  decodeCheckpoint,
+  encodeCheckpoint,
+  type Checkpoint,
+  type CheckpointParams,
+} from "./checkpoint";
+import {
+  buildExportFields,
+  downloadBlob,
+  encodeFields,
+  exportFileName,
+  type ExportFields,
+  type ExportFormat,
+  type ExportUnits,
+} from "./export";
+import { decodeF16sArray } from "./fp16";
+import {
+  advanceObstacle,
+  obstacleCenter,
+  obstacleSpans,
+  validateObstacle,
+  type Obstacle,
+} from "./geometry";
+import {
+  DEFAULT_INLET_MODULATION,
+  DEFAULT_INLET_PROFILE,
+  inletProfileFactors,
+  modulationFactor,
+  validateInlet,
+  type InletModulation,
+  type InletProfile,
+} from "./inlet";
+import {
+  CELL,
+  createDefaultMask,
+  freshCell,
+  MAX_WALL_MOTIONS,
+  movingWall,
+  type WallMotion,
+} from "./mask";
+import {
+  DEFAULT_OVERLAYS,
+  MAX_STREAMLINE_POINTS,
+  MAX_STREAMLINES,
+  streamlineSeeds,
+  validateOverlays,
+  type OverlaySettings,
+} from "./overlay";
+import {
+  applyEdges,
+  CHANNEL_EDGES,
+  createScenarioMask,
+  edgeWallMotions,
+  FIRST_OBSTACLE_MOTION_ID,
+  obstacleMotionId,
+  validateEdges,
+  validateScenario,
+  type Edge,
+  type EdgeBoundary,
+  type Scenario,
+} from "./scenario";
+import { writeSpans } from "./shapeImport";
+import {
+  DEFAULT_TRACERS,
+  MAX_EMITTERS,
+  MAX_PARTICLES,
+  dyeSources,
+  initialParticles,
+  particleEmitters,
+  validateTracers,
+  type TracerSettings,
+} from "./tracer";
+import { UnitSystem } from "./units";
+
+export { CELL, type WallMotion } from "./mask";
+export {
+  listColormaps,
+  parseColormap,
+  registerColormap,
+  VisColormaps,
+  type Colormap,
+  type ColormapDefinition,
+  type VisColormap,
+} from "./colormaps";
+export { CollisionOperators, type CollisionOperator } from "./collision";
+export type { InstabilityReason, InstabilityReport } from "./diagnostics";
+export {
+  ExportFormats,
+  type ExportFields,
+  type ExportFormat,
+  type ExportUnits,
+} from "./export";
+export {
+  ObstacleKinds,
+  type Obstacle,
+  type ObstacleKind,
+  type ObstacleMotion,
+} from "./geometry";
+export {
+  InletProfiles,
+  type InletModulation,
+  type InletProfile,
+  type InletProfileKind,
+} from "./inlet";
+export {
+  DEFAULT_OVERLAYS,
+  StreamlineSeedings,
+  type OverlaySettings,
+  type StreamlineSeeding,
+} from "./overlay";
+export {
+  DEFAULT_TRACERS,
+  TracerSources,
+  type TracerSettings,
+  type TracerSource,
+} from "./tracer";
+export {
+  EdgeBoundaries,
+  ScenarioPresets,
+  type Edge,
+  type EdgeBoundary,
+  type Scenario,
+  type ScenarioPreset,
+} from "./scenario";
 
 export const VisTypes = {
   VELOCITY: 0, // |u|
   DENSITY: 1, // rho
+  EDDY_VISCOSITY: 2, // Smagorinsky nu_t (0 with LES off)
+  VORTICITY: 3, // duy/dx - dux/dy (central differences of global_u)
+  PRESSURE: 4, // cs^2 (rho - 1)
+  VELOCITY_X: 5, // ux
+  VELOCITY_Y: 6, // uy
+  Q_CRITERION: 7, // (|Omega|^2 - |S|^2) / 2, > 0 in vortex cores
+  STRAIN_RATE: 8, // |S| = sqrt(2 S:S)
 } as const;
-type VisType = (typeof VisTypes)[keyof typeof VisTypes];
+export type VisType = (typeof VisTypes)[keyof typeof VisTypes];
 
-export const VisColormaps = {
-  TURBO: 1,
-  VIRIDIS: 0,
-} as const;
-type VisColormap = (typeof VisColormaps)[keyof typeof VisColormaps];
+export interface VisRange {
+  min: number;
+  max: number;
+}
+
+// VisRange keys before a reduction: lo = max key, hi = min key
+const VIS_RANGE_CLEAR = new Uint32Array([0xffffffff, 0]);
+
+// relaxation rate within the BGK stability range (0, 2)
+const clampOmega = (omega: number): number =>
+  Math.min(1.999, Math.max(1e-3, omega));
+
+// inverse of range_key() in render_compute.wgsl
+function rangeKeyToFloat(key: number): number {
+  const bits = key & 0x80000000 ? key & 0x7fffffff : ~key >>> 0;
+  return new Float32Array(new Uint32Array([bits]).buffer)[0];
+}
+
+// initial colormap range per field (lattice units, around U = 0.05)
+const VIS_RANGES: Record<VisType, readonly [number, number]> = {
+  [VisTypes.VELOCITY]: [0, 0.05],
+  [VisTypes.DENSITY]: [1.0, 1.05],
+  [VisTypes.EDDY_VISCOSITY]: [0, 0.01],
+  [VisTypes.VORTICITY]: [-0.01, 0.01],
+  [VisTypes.PRESSURE]: [-0.002, 0.002],
+  [VisTypes.VELOCITY_X]: [-0.1, 0.1],
+  [VisTypes.VELOCITY_Y]: [-0.05, 0.05],
+  [VisTypes.Q_CRITERION]: [-1e-5, 1e-5],
+  [VisTypes.STRAIN_RATE]: [0, 0.01],
+};
+
+export type RunState = "stopped" | "running" | "paused";
+
+/** Host copy of GPU data; fields are row-major with y = 0 the bottom row. */
+export interface FieldReadback {
+  Nx: number;
+  Ny: number;
+  /** Tick of the simulation state that was copied. */
+  tick: number;
+}
+
+export interface DensityField extends FieldReadback {
+  rho: Float32Array;
+}
+
+export interface VelocityField extends FieldReadback {
+  ux: Float32Array;
+  uy: Float32Array;
+}
+
+export interface DistributionField extends FieldReadback {
+  Q: number;
+  /** SoA: f[i*C + cell], directions in EX/EY order. */
+  f: Float32Array;
+  /** true: decoded storage as-is (shifted DDFs in Esoteric Pull order). */
+  raw: boolean;
+  parity: 0 | 1;
+}
+
+export interface MaskField extends FieldReadback {
+  mask: Uint32Array;
+}
+
+// an obstacle placed as a moving wall
+interface MovingObstacle {
+  id: number; // wall motion table entry
+  current: Obstacle; // advanced every step if it animates
+  cells: Set<number>;
+  under: Map<number, number>; // mask values it covered since being placed
+}
+
+interface PlacedObstacle {
+  value: number; // mask value it was drawn with
+  under: Map<number, number>; // mask values it covered when placed
+}
 
 interface VisSettings {
   minValue: number;
@@ -42,6 +268,26 @@ export class LBM {
   #omega = 1 / this.#tau;
   #inletUx = 0.05;
   #inletUy = 0;
+  #inletProfile: InletProfile = { ...DEFAULT_INLET_PROFILE };
+  #inletModulation: InletModulation = structuredClone(DEFAULT_INLET_MODULATION);
+  #rhoIn = 1.0;
+  #rhoOut = 1.0;
+  #forceX = 0.0; // uniform body force (Guo forcing)
+  #forceY = 0.0;
+  #collision: CollisionOperator = CollisionOperators.BGK;
+  #trtMagic = DEFAULT_TRT_MAGIC;
+  #mrtRates: MRTRates = { ...DEFAULT_MRT_RATES };
+  #les = false; // Smagorinsky subgrid model
+  #smagorinsky = DEFAULT_SMAGORINSKY;
+  #units: UnitSystem | null = null; // physical scales (optional)
+  #initial = { rho0: 1, u0x: 0, u0y: 0 }; // fluid state after a reset
+  #scenario: Scenario | null = null; // null -> built-in channel (mask.ts)
+  #edges: Record<Edge, EdgeBoundary> | null = null; // overrides the channel's edges
+  #edgeVelocity: Partial<Record<Edge, number>> = {}; // with #edges
+  #wallMotions = new Map<number, WallMotion>(); // wall motion table (id 0 unused)
+  #movingObstacles = new Map<Obstacle, MovingObstacle>(); // by placed object
+  #placedObstacles = new Map<Obstacle, PlacedObstacle>(); // static ones, in order
+  #freshCells: number[] = []; // uncovered last step, fluid again before the next
 
   #WORKGROUP_SIZE = 32;
 
@@ -64,10 +310,16 @@ export class LBM {
   #initUniform!: GPUBuffer;
   #stepUniform!: GPUBuffer;
   #stepUniformUpdated!: GPUBuffer; // updated parity
+  #forceField!: GPUBuffer; // 2*C f32 (Fx plane, Fy plane), or a 16B placeholder
+  #wallTable!: GPUBuffer; // MAX_WALL_MOTIONS × WallMotion (32B)
+  #inletFactors!: GPUBuffer; // Ny + Nx f32 profile factors (inletProfileFactors)
+  #hasForceField = false;
 
   // pipelines
   #pipeInit!: GPUComputePipeline;
-  #pipeStep!: GPUComputePipeline;
+  #pipeStep!: GPUComputePipeline; // variant of the current collision operator
+  #modStep!: GPUShaderModule;
+  #stepPipelines = new Map<CollisionOperator, GPUComputePipeline>();
 
   // bind groups (prebuilt)
   #bgInit!: GPUBindGroup;
@@ -79,17 +331,76 @@ export class LBM {
   #visSampler!: GPUSampler;
 
   #visUniform!: GPUBuffer; // VisParams
+  #visRange!: GPUBuffer; // VisRange (2 atomics), reduced by the vis pass
+  #visRangeReadback!: GPUBuffer; // MAP_READ copy of it
+  #colormapLUT!: GPUBuffer; // 256 RGBA8 entries of the active colormap
   #pipeVis!: GPUComputePipeline;
   #pipeBlit!: GPURenderPipeline;
 
   #bgVis!: GPUBindGroup;
-  #bgBlit!: GPUBindGroup; // Samples #visTex
+  #bgBlit!: GPUBindGroup; // Samples #visTex, #licTex and #dyeTex
+  #blitUniform!: GPUBuffer; // BlitParams: dye color/opacity, LIC strength
+
+  // flow-line overlays (overlay.ts)
+  #overlays: OverlaySettings = structuredClone(DEFAULT_OVERLAYS);
+  #overlayUniform!: GPUBuffer; // OverlayParams
+  #streamlineSeeds!: GPUBuffer; // MAX_STREAMLINES × vec2<f32>
+  #streamlinePoints!: GPUBuffer; // MAX_STREAMLINES × MAX_STREAMLINE_POINTS × vec2<f32>
+  #licTex!: GPUTexture;
+  #pipeTrace!: GPUComputePipeline;
+  #pipeLIC!: GPUComputePipeline;
+  #pipeGlyphs!: GPURenderPipeline;
+  #pipeStreamlines!: GPURenderPipeline;
+  #bgTrace!: GPUBindGroup;
+  #bgLIC!: GPUBindGroup;
+  #bgGlyphs!: GPUBindGroup;
+  #bgStreamlines!: GPUBindGroup;
+
+  // passive tracers (tracer.ts): particles and dye, advanced every step
+  #tracers: TracerSettings = structuredClone(DEFAULT_TRACERS);
+  #tracerUniform!: GPUBuffer; // TracerParams
+  #emitters!: GPUBuffer; // MAX_EMITTERS × vec2<f32>
+  #emitterCount = 0;
+  #particles!: GPUBuffer; // MAX_PARTICLES × vec4<f32>: x, y, age, emissions
+  #dye: [GPUBuffer, GPUBuffer] | null = null; // D2Q5 populations (SoA), ping-pong; on first use
+  #dyeSource: GPUBuffer | null = null; // f32 per cell, see dyeSources()
+  #dyePhase: 0 | 1 = 0; // #dye[#dyePhase] holds the current populations
+  #dyeTex!: GPUTexture; // concentration for the blit
+  #pipeParticles!: GPUComputePipeline;
+  #pipeDye!: GPUComputePipeline;
+  #pipeParticleDraw!: GPURenderPipeline;
+  #bgParticles!: GPUBindGroup;
+  #bgDye: GPUBindGroup[] = []; // reads #dye[i]
+  #bgParticleDraw!: GPUBindGroup;
+
+  // stability check (reduction over global_rho/global_u)
+  #diagUniform!: GPUBuffer; // DiagParams
+  #diagReport!: GPUBuffer; // Report (atomics)
+  #diagReadback!: GPUBuffer; // MAP_READ copy of the report
+  #pipeDiag!: GPUComputePipeline;
+  #bgDiag!: GPUBindGroup;
+  #diagInterval = 100; // ticks between checks, 0 -> off
+  #machThreshold = DEFAULT_MACH_THRESHOLD;
+  #lastCheckTick = 0;
+  #diagPending = false; // readback in flight
+  #generation = 0; // bumped on reset, drops stale readbacks
+  #instability: InstabilityReport | null = null;
+  #instabilityListeners = new Set<(report: InstabilityReport) => void>();
+
+  // automatic colormap range (min/max of the displayed field)
+  #visAutoRange = false;
+  #visRangeInterval = 10; // rendered frames between two reductions
+  #visFrames = 0;
+  #visRangePending = false; // readback in flight
+  #visRangeListeners = new Set<(range: VisRange) => void>();
 
   // step toggle
   #tick = 0;
   #parity: 0 | 1 = 0;
-  #isRunning: boolean = false;
+  #state: RunState = "stopped";
+  #stepsPerFrame = 1; // LBM steps per rendered frame
   #rafId: number = NaN;
+  #disposed = false;
 
   constructor(nx: number, ny: number, gpu: GPUController) {
     this.#Nx = nx;
@@ -117,11 +428,29 @@ export class LBM {
     this.#mask = device.createBuffer({
       label: "mask",
       size: this.#cellCount * 4,
+      usage:
+        GPUBufferUsage.STORAGE |
+        GPUBufferUsage.COPY_DST |
+        GPUBufferUsage.COPY_SRC,
+    });
+
+    this.#wallTable = device.createBuffer({
+      label: "wall motion table",
+      size: MAX_WALL_MOTIONS * 32,
+      usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST,
+    });
+
+    this.#inletFactors = device.createBuffer({
+      label: "inlet profile",
+      size: (this.#Nx + this.#Ny) * 4,
       usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST,
     });
 
     this.#maskCPU = this.#getMaskData();
     device.queue.writeBuffer(this.#mask, 0, this.#maskCPU.buffer);
+    this.#rebuildWallMotions();
+    this.#writeWallTable();
+    this.#writeInletFactors();
 
     // uniforms (256B each)
     this.#initUniform = device.createBuffer({
@@ -141,7 +470,7 @@ export class LBM {
     });
 
     this.#writeInitUniform({
-      rho0: 1,
+      ...this.#initial,
       inletUX: this.#inletUx,
       inletUY: this.#inletUy,
     });
@@ -156,7 +485,7 @@ export class LBM {
     });
     this.#rho = device.createBuffer({
       label: "global rho array",
-      size: this.#cellCount * 2,
+      size: (this.#cellCount * 2 + 3) & ~3, // copies need a multiple of 4
       usage:
         GPUBufferUsage.STORAGE |
         GPUBufferUsage.COPY_DST |
@@ -170,7 +499,7 @@ export class LBM {
       label: "init.wgsl",
       code: commonWgsl + "\n" + initWGSL,
     });
-    const modStep = device.createShaderModule({
+    this.#modStep = device.createShaderModule({
       label: "step.wgsl",
       code: commonWgsl + "\n" + stepWGSL,
     });
@@ -180,11 +509,7 @@ export class LBM {
       layout: "auto",
       compute: { module: modInit, entryPoint: "initialize" },
     });
-    this.#pipeStep = device.createComputePipeline({
-      label: "step pipeline",
-      layout: "auto",
-      compute: { module: modStep, entryPoint: "step" },
-    });
+    this.#pipeStep = this.#getStepPipeline(this.#collision);
     // ---------- bind groups ----------
     this.#bgInit = device.createBindGroup({
       label: "init BG",
@@ -195,24 +520,15 @@ export class LBM {
         { binding: 2, resource: { buffer: this.#initUniform } },
         { binding: 3, resource: { buffer: this.#u } },
         { binding: 4, resource: { buffer: this.#rho } },
+        { binding: 5, resource: { buffer: this.#inletFactors } },
       ],
     });
 
     this.#writeStepUniform();
 
     // step
-    this.#bgStep = device.createBindGroup({
-      label: "step",
-      layout: this.#pipeStep.getBindGroupLayout(0),
-      entries: [
-        { binding: 0, resource: { buffer: this.#f } }, // f read_write
-        { binding: 1, resource: { buffer: this.#stepUniform } },
-        { binding: 2, resource: { buffer: this.#mask } },
-        { binding: 3, resource: { buffer: this.#u } },
-        { binding: 4, resource: { buffer: this.#rho } },
-        { binding: 5, resource: { buffer: this.#stepUniformUpdated } },
-      ],
-    });
+    this.#forceField = this.#createForceFieldPlaceholder();
+    this.#createStepBindGroup();
 
     // ---- visualization texture (RGBA8) ----
     this.#visTex = device.createTexture({
@@ -233,6 +549,25 @@ export class LBM {
       size: 256,
       usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
     });
+    this.#visRange = device.createBuffer({
+      label: "vis range",
+      size: 8,
+      usage:
+        GPUBufferUsage.STORAGE |
+        GPUBufferUsage.COPY_SRC |
+        GPUBufferUsage.COPY_DST,
+    });
+    this.#visRangeReadback = device.createBuffer({
+      label: "vis range readback",
+      size: 8,
+      usage: GPUBufferUsage.MAP_READ | GPUBufferUsage.COPY_DST,
+    });
+    this.#colormapLUT = device.createBuffer({
+      label: "colormap",
+      size: COLORMAP_SIZE * 4,
+      usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST,
+    });
+    this.#writeColormap();
 
     // ---- compile viz shaders ----
     const visModule = device.createShaderModule({
@@ -262,17 +597,16 @@ export class LBM {
     });
 
     // ---- viz bind group ----
-    this.#bgVis = device.createBindGroup({
-      label: "vis bg",
-      layout: this.#pipeVis.getBindGroupLayout(0),
-      entries: [
-        { binding: 0, resource: { buffer: this.#f } }, // f
-        { binding: 1, resource: { buffer: this.#visUniform } }, // VisParams
-        { binding: 2, resource: { buffer: this.#stepUniformUpdated } }, // updated parity
-        { binding: 3, resource: { buffer: this.#mask } }, // mask
-        { binding: 4, resource: this.#visView }, // storage texture
-      ],
+    this.#createVisBindGroup();
+    this.#blitUniform = device.createBuffer({
+      label: "BlitParams",
+      size: 32,
+      usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
     });
+    this.#initOverlays();
+    this.#initTracers();
+    this.#writeBlitUniform();
+
     // ---- blit bind group (sample visTex to canvas) ----
     const blitLayout = this.#pipeBlit.getBindGroupLayout(0);
     this.#bgBlit = device.createBindGroup({
@@ -281,14 +615,390 @@ export class LBM {
       entries: [
         { binding: 0, resource: this.#visView }, // sampled texture view
         { binding: 1, resource: this.#visSampler },
+        { binding: 2, resource: this.#licTex.createView() },
+        { binding: 3, resource: { buffer: this.#blitUniform } },
+        { binding: 4, resource: this.#dyeTex.createView() },
+      ],
+    });
+
+    // ---- stability check ----
+    this.#diagUniform = device.createBuffer({
+      label: "DiagParams",
+      size: 256,
+      usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
+    });
+    this.#diagReport = device.createBuffer({
+      label: "diagnostics report",
+      size: REPORT_BYTES,
+      usage:
+        GPUBufferUsage.STORAGE |
+        GPUBufferUsage.COPY_DST |
+        GPUBufferUsage.COPY_SRC,
+    });
+    this.#diagReadback = device.createBuffer({
+      label: "diagnostics readback",
+      size: REPORT_BYTES,
+      usage: GPUBufferUsage.MAP_READ | GPUBufferUsage.COPY_DST,
+    });
+    this.#writeDiagUniform();
+    this.#pipeDiag = device.createComputePipeline({
+      label: "diagnostics pipeline",
+      layout: "auto",
+      compute: {
+        module: device.createShaderModule({
+          label: "diagnostics.wgsl",
+          code: commonWgsl + "\n" + diagnosticsWGSL,
+        }),
+        entryPoint: "check",
+      },
+    });
+    this.#bgDiag = device.createBindGroup({
+      label: "diagnostics BG",
+      layout: this.#pipeDiag.getBindGroupLayout(0),
+      entries: [
+        { binding: 0, resource: { buffer: this.#rho } },
+        { binding: 1, resource: { buffer: this.#u } },
+        { binding: 2, resource: { buffer: this.#mask } },
+        { binding: 3, resource: { buffer: this.#diagUniform } },
+        { binding: 4, resource: { buffer: this.#diagReport } },
       ],
     });
 
     this.#resetSimulation();
   };
 
+  // glyph, streamline and LIC passes; they read global_u of the last step
+  #initOverlays = (): void => {
+    const device = this.#gpu.device;
+    this.#overlayUniform = device.createBuffer({
+      label: "OverlayParams",
+      size: 256,
+      usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
+    });
+    this.#streamlineSeeds = device.createBuffer({
+      label: "streamline seeds",
+      size: MAX_STREAMLINES * 8,
+      usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST,
+    });
+    this.#streamlinePoints = device.createBuffer({
+      label: "streamline points",
+      size: MAX_STREAMLINES * MAX_STREAMLINE_POINTS * 8,
+      usage: GPUBufferUsage.STORAGE,
+    });
+    this.#licTex = device.createTexture({
+      label: "licTex",
+      size: { width: this.#Nx, height: this.#Ny },
+      format: "rgba8unorm",
+      usage: GPUTextureUsage.STORAGE_BINDING | GPUTextureUsage.TEXTURE_BINDING,
+    });
+    this.#writeOverlayUniform();
+    this.#writeStreamlineSeeds();
+
+    const computeModule = device.createShaderModule({
+      label: "overlay_compute",
+      code: [commonWgsl, samplingWGSL, overlayComputeWGSL].join("\n"),
+    });
+    const drawModule = device.createShaderModule({
+      label: "overlay_draw",
+      code: commonWgsl + "\n" + overlayDrawWGSL,
+    });
+    this.#pipeTrace = device.createComputePipeline({
+      label: "streamline trace pipeline",
+      layout: "auto",
+      compute: { module: computeModule, entryPoint: "trace_streamlines" },
+    });
+    this.#pipeLIC = device.createComputePipeline({
+      label: "LIC pipeline",
+      layout: "auto",
+      compute: { module: computeModule, entryPoint: "lic" },
+    });
+    const drawPipeline = (
+      label: string,
+      entryPoint: string,
+      topology: GPUPrimitiveTopology
+    ) =>
+      device.createRenderPipeline({
+        label,
+        layout: "auto",
+        vertex: { module: drawModule, entryPoint },
+        fragment: {
+          module: drawModule,
+          entryPoint: "overlay_fs",
+          targets: [
+            {
+              format: this.#gpu.contextFormat,
+              blend: {
+                color: {
+                  srcFactor: "src-alpha",
+                  dstFactor: "one-minus-src-alpha",
+                },
+                alpha: { srcFactor: "one", dstFactor: "one-minus-src-alpha" },
+              },
+            },
+          ],
+        },
+        primitive: { topology },
+      });
+    this.#pipeGlyphs = drawPipeline(
+      "glyph pipeline",
+      "glyph_vs",
+      "triangle-list"
+    );
+    this.#pipeStreamlines = drawPipeline(
+      "streamline pipeline",
+      "streamline_vs",
+      "line-strip"
+    );
+
+    const params = { binding: 0, resource: { buffer: this.#overlayUniform } };
+    const mask = { binding: 1, resource: { buffer: this.#mask } };
+    const u = { binding: 2, resource: { buffer: this.#u } };
+    const points = { binding: 4, resource: { buffer: this.#streamlinePoints } };
+    this.#bgTrace = device.createBindGroup({
+      label: "streamline trace BG",
+      layout: this.#pipeTrace.getBindGroupLayout(0),
+      entries: [
+        params,
+        mask,
+        u,
+        { binding: 3, resource: { buffer: this.#streamlineSeeds } },
+        points,
+      ],
+    });
+    this.#bgLIC = device.createBindGroup({
+      label: "LIC BG",
+      layout: this.#pipeLIC.getBindGroupLayout(0),
+      entries: [
+        params,
+        mask,
+        u,
+        { binding: 5, resource: this.#licTex.createView() },
+      ],
+    });
+    this.#bgGlyphs = device.createBindGroup({
+      label: "glyph BG",
+      layout: this.#pipeGlyphs.getBindGroupLayout(0),
+      entries: [params, mask, u],
+    });
+    this.#bgStreamlines = device.createBindGroup({
+      label: "streamline BG",
+      layout: this.#pipeStreamlines.getBindGroupLayout(0),
+      entries: [params, points],
+    });
+  };
+
+  // particle and dye passes; the dye buffers are allocated when first enabled
+  #initTracers = (): void => {
+    const device = this.#gpu.device;
+    this.#tracerUniform = device.createBuffer({
+      label: "TracerParams",
+      size: 256,
+      usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
+    });
+    this.#emitters = device.createBuffer({
+      label: "particle emitters",
+      size: MAX_EMITTERS * 8,
+      usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST,
+    });
+    this.#particles = device.createBuffer({
+      label: "particles",
+      size: MAX_PARTICLES * 16,
+      usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST,
+    });
+    this.#dyeTex = device.createTexture({
+      label: "dyeTex",
+      size: { width: this.#Nx, height: this.#Ny },
+      format: "rgba8unorm",
+      usage:
+        GPUTextureUsage.STORAGE_BINDING |
+        GPUTextureUsage.TEXTURE_BINDING |
+        GPUTextureUsage.COPY_DST,
+    });
+    this.#writeTracerSources();
+
+    const computeModule = device.createShaderModule({
+      label: "tracer_compute",
+      code: [commonWgsl, samplingWGSL, tracerComputeWGSL].join("\n"),
+    });
+    const drawModule = device.createShaderModule({
+      label: "tracer_draw",
+      code: commonWgsl + "\n" + tracerDrawWGSL,
+    });
+    this.#pipeParticles = device.createComputePipeline({
+      label: "particle pipeline",
+      layout: "auto",
+      compute: { module: computeModule, entryPoint: "advect_particles" },
+    });
+    this.#pipeDye = device.createComputePipeline({
+      label: "dye pipeline",
+      layout: "auto",
+      compute: { module: computeModule, entryPoint: "dye_step" },
+    });
+    this.#pipeParticleDraw = device.createRenderPipeline({
+      label: "particle draw pipeline",
+      layout: "auto",
+      vertex: { module: drawModule, entryPoint: "particle_vs" },
+      fragment: {
+        module: drawModule,
+        entryPoint: "particle_fs",
+        targets: [
+          {
+            format: this.#gpu.contextFormat,
+            blend: {
+              color: {
+                srcFactor: "src-alpha",
+                dstFactor: "one-minus-src-alpha",
+              },
+              alpha: { srcFactor: "one", dstFactor: "one-minus-src-alpha" },
+            },
+          },
+        ],
+      },
+    });
+
+    const params = { binding: 0, resource: { buffer: this.#tracerUniform } };
+    const particles = { binding: 4, resource: { buffer: this.#particles } };
+    this.#bgParticles = device.createBindGroup({
+      label: "particle BG",
+      layout: this.#pipeParticles.getBindGroupLayout(0),
+      entries: [
+        params,
+        { binding: 1, resource: { buffer: this.#mask } },
+        { binding: 2, resource: { buffer: this.#u } },
+        { binding: 3, resource: { buffer: this.#emitters } },
+        particles,
+      ],
+    });
+    this.#bgParticleDraw = device.createBindGroup({
+      label: "particle draw BG",
+      layout: this.#pipeParticleDraw.getBindGroupLayout(0),
+      entries: [params, particles],
+    });
+    if (this.#tracers.dye) this.#ensureDye();
+  };
+
+  #ensureDye = (): void => {
+    if (this.#dye || !this.#tracerUniform) return;
+    const device = this.#gpu.device;
+    const populations = () =>
+      device.createBuffer({
+        label: "dye populations",
+        size: 5 * this.#cellCount * 4,
+        usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST,
+      });
+    this.#dye = [populations(), populations()];
+    this.#dyeSource = device.createBuffer({
+      label: "dye sources",
+      size: this.#cellCount * 4,
+      usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST,
+    });
+    this.#writeTracerSources();
+    this.#bgDye = [0, 1].map((k) =>
+      device.createBindGroup({
+        label: `dye BG ${k}`,
+        layout: this.#pipeDye.getBindGroupLayout(0),
+        entries: [
+          { binding: 0, resource: { buffer: this.#tracerUniform } },
+          { binding: 1, resource: { buffer: this.#mask } },
+          { binding: 2, resource: { buffer: this.#u } },
+          { binding: 5, resource: { buffer: this.#dye![k] } },
+          { binding: 6, resource: { buffer: this.#dye![1 - k] } },
+          { binding: 7, resource: { buffer: this.#dyeSource! } },
+          { binding: 8, resource: this.#dyeTex.createView() },
+        ],
+      })
+    );
+    this.resetDye();
+  };
+
+  // after the step pass: the tracers move with the velocity it stored
+  #encodeTracers = (enc: GPUCommandEncoder): void => {
+    const { particles, dye, particleCount } = this.#tracers;
+    if (!particles && !(dye && this.#dye)) return;
+    const p = enc.beginComputePass({ label: "tracer pass" });
+    if (particles) {
+      p.setPipeline(this.#pipeParticles);
+      p.setBindGroup(0, this.#bgParticles);
+      p.dispatchWorkgroups(Math.ceil(particleCount / 64));
+    }
+    if (dye && this.#dye) {
+      p.setPipeline(this.#pipeDye);
+      p.setBindGroup(0, this.#bgDye[this.#dyePhase]);
+      p.dispatchWorkgroups(
+        Math.ceil(this.#Nx / this.#WORKGROUP_SIZE),
+        Math.ceil(this.#Ny / this.#WORKGROUP_SIZE)
+      );
+      this.#dyePhase ^= 1;
+    }
+    p.end();
+  };
+
+  // step.wgsl pipeline variants, one per collision operator (override constant)
+  #getStepPipeline = (op: CollisionOperator): GPUComputePipeline => {
+    let pipe = this.#stepPipelines.get(op);
+    if (!pipe) {
+      pipe = this.#gpu.device.createComputePipeline({
+        label: `step pipeline (collision ${op})`,
+        layout: "auto",
+        compute: {
+          module: this.#modStep,
+          entryPoint: "step",
+          constants: { COLLISION: op },
+        },
+      });
+      this.#stepPipelines.set(op, pipe);
+    }
+    return pipe;
+  };
+
+  #createStepBindGroup = (): void => {
+    this.#bgStep = this.#gpu.device.createBindGroup({
+      label: "step",
+      layout: this.#pipeStep.getBindGroupLayout(0),
+      entries: [
+        { binding: 0, resource: { buffer: this.#f } }, // f read_write
+        { binding: 1, resource: { buffer: this.#stepUniform } },
+        { binding: 2, resource: { buffer: this.#mask } },
+        { binding: 3, resource: { buffer: this.#u } },
+        { binding: 4, resource: { buffer: this.#rho } },
+        { binding: 5, resource: { buffer: this.#stepUniformUpdated } },
+        { binding: 6, resource: { buffer: this.#forceField } },
+        { binding: 7, resource: { buffer: this.#wallTable } },
+        { binding: 8, resource: { buffer: this.#inletFactors } },
+      ],
+    });
+  };
+
+  // rebuilt with the step bind group when the force field buffer changes
+  #createVisBindGroup = (): void => {
+    this.#bgVis = this.#gpu.device.createBindGroup({
+      label: "vis bg",
+      layout: this.#pipeVis.getBindGroupLayout(0),
+      entries: [
+        { binding: 0, resource: { buffer: this.#f } }, // f
+        { binding: 1, resource: { buffer: this.#visUniform } }, // VisParams
+        { binding: 2, resource: { buffer: this.#stepUniformUpdated } }, // updated parity
+        { binding: 3, resource: { buffer: this.#mask } }, // mask
+        { binding: 4, resource: this.#visView }, // storage texture
+        { binding: 5, resource: { buffer: this.#wallTable } },
+        { binding: 6, resource: { buffer: this.#u } }, // gradients
+        { binding: 7, resource: { buffer: this.#visRange } },
+        { binding: 8, resource: { buffer: this.#colormapLUT } },
+        { binding: 9, resource: { buffer: this.#forceField } }, // half-force term
+      ],
+    });
+  };
+
+  // the step kernel only reads force_field if the uniform flag is set
+  #createForceFieldPlaceholder = (): GPUBuffer => {
+    return this.#gpu.device.createBuffer({
+      label: "force field (unused)",
+      size: 16,
+      usage: GPUBufferUsage.STORAGE,
+    });
+  };
+
   #resetSimulation = (): void => {
-    cancelAnimationFrame(this.#rafId);
     const device = this.#gpu.device;
 
     // ---------- run the GPU init once ----------
@@ -306,117 +1016,210 @@ export class LBM {
 
     this.#parity = 0;
     this.#tick = 0;
+    this.#lastCheckTick = 0;
+    this.#generation++;
+    this.#instability = null;
+    // tracers start over with the flow (resetParticles/resetDye alone keep it)
+    this.resetParticles();
+    this.resetDye();
   };
 
+  get visType(): VisType {
+    return this.#visSettings.type;
+  }
+
+  get visColormap(): VisColormap {
+    return this.#visSettings.colorMap;
+  }
+
+  /**
+   * Selects the displayed field with a typical range for it. Signed fields
+   * switch to the diverging colormap (centred on 0), the others back from it.
+   */
   setVisType = (newType: VisType): void => {
-    if (newType === VisTypes.DENSITY) {
-      this.#visSettings.minValue = 1.0;
-      this.#visSettings.maxValue = 1.05;
-    } else if (newType === VisTypes.VELOCITY) {
-      this.#visSettings.minValue = 0;
-      this.#visSettings.maxValue = 0.05;
+    const [min, max] = VIS_RANGES[newType];
+    this.#visSettings.minValue = min;
+    this.#visSettings.maxValue = max;
+    this.#visFrames = 0; // auto range: measure the new field right away
+    const signed = min < 0;
+    if (signed !== getColormap(this.#visSettings.colorMap).diverging) {
+      this.setVisColormap(signed ? VisColormaps.COOLWARM : VisColormaps.TURBO);
     }
     this.#visSettings.type = newType;
   };
 
+  /** Any registered colormap (see colormaps.ts); throws on unknown names. */
   setVisColormap = (newColormap: VisColormap): void => {
+    getColormap(newColormap);
     this.#visSettings.colorMap = newColormap;
+    this.#writeColormap();
   };
 
-  #getMaskData = (): Uint32Array => {
-    const maskData = new Uint32Array(this.#cellCount).fill(CELL.FLUID);
-
-    // walls (top & bottom)
-    for (let x = 0; x < this.#Nx; x++) {
-      maskData[0 * this.#Nx + x] = CELL.SOLID; // bottom wall (y=0)
-      maskData[(this.#Ny - 1) * this.#Nx + x] = CELL.SOLID; // top wall   (y=Ny-1)
-    }
+  // uploads the LUT of the active colormap (re-registered maps included)
+  #writeColormap = (): void => {
+    if (!this.#colormapLUT) return;
+    const { lut } = getColormap(this.#visSettings.colorMap);
+    this.#gpu.device.queue.writeBuffer(this.#colormapLUT, 0, lut);
+  };
 
-    // inlet window geometry
-    const INLET_HEIGHT = 300;
+  /** Values mapped to the ends of the colormap. */
+  get visRange(): VisRange {
+    return { min: this.#visSettings.minValue, max: this.#visSettings.maxValue };
+  }
 
-    // Centered window, clamped to [1, Ny-2] (avoid solid walls)
-    let y0 = Math.floor(this.#Ny * 0.5 - INLET_HEIGHT * 0.5);
-    let y1 = Math.floor(this.#Ny * 0.5 + INLET_HEIGHT * 0.5) - 1; // inclusive
+  get visAutoRange(): boolean {
+    return this.#visAutoRange;
+  }
 
-    y0 = Math.max(1, y0);
-    y1 = Math.min(this.#Ny - 2, y1);
+  /** Manual colormap range; switches the automatic range off. */
+  setVisRange = (min: number, max: number): void => {
+    if (!(max > min)) throw new Error("Colormap range needs max > min.");
+    this.#visAutoRange = false;
+    this.#visSettings.minValue = min;
+    this.#visSettings.maxValue = max;
+  };
 
-    // Guard against tiny/invalid windows
-    if (y1 < y0) {
-      [y0, y1] = [1, Math.min(this.#Ny - 2, 1)];
+  /**
+   * Automatic colormap range: every `intervalFrames` rendered frames the vis
+   * pass reduces the min/max of the displayed field on the GPU (centred on 0
+   * for signed fields). Updates are reported to onVisRange listeners.
+   */
+  setVisAutoRange = (enabled: boolean, intervalFrames?: number): void => {
+    this.#visAutoRange = enabled;
+    if (intervalFrames !== undefined) {
+      this.#visRangeInterval = Math.max(1, Math.floor(intervalFrames));
     }
+    this.#visFrames = 0; // measure on the next frame
+    if (enabled && this.#state === "stopped" && this.#visRange) this.#render();
+  };
 
-    // inlet: left column, y in [y0..y1]
-    for (let y = y0; y <= y1; y++) {
-      maskData[y * this.#Nx + 0] = CELL.EQ;
-    }
+  /** Registers a callback for automatic range updates; returns a remover. */
+  onVisRange = (listener: (range: VisRange) => void) => {
+    this.#visRangeListeners.add(listener);
+    return () => {
+      this.#visRangeListeners.delete(listener);
+    };
+  };
 
-    // make the rest of the left column solid (excluding walls at y=0, y=Ny-1)
-    for (let y = 1; y < y0; y++) {
-      maskData[y * this.#Nx + 0] = CELL.SOLID;
-    }
-    for (let y = y1 + 1; y <= this.#Ny - 2; y++) {
-      maskData[y * this.#Nx + 0] = CELL.SOLID;
-    }
+  get overlays(): OverlaySettings {
+    return structuredClone(this.#overlays);
+  }
 
-    // outlet: right column, skip wall rows
-    for (let y = 1; y <= this.#Ny - 2; y++) {
-      maskData[y * this.#Nx + (this.#Nx - 1)] = CELL.EQ;
-    }
+  /**
+   * Switches the flow-line overlays (glyphs, streamlines, LIC) and their
+   * parameters; omitted fields keep their value. Throws on invalid settings.
+   */
+  setOverlays = (settings: Partial<OverlaySettings>): void => {
+    const next = structuredClone({ ...this.#overlays, ...settings });
+    validateOverlays(next);
+    this.#overlays = next;
+    this.#writeOverlayUniform();
+    this.#writeStreamlineSeeds();
+    if (this.#state === "stopped" && this.#overlayUniform) this.#render();
+  };
 
-    // obstacle: filled circle
-    const cx = Math.floor(this.#Nx * 0.5); // center x
-    const cy = Math.floor(this.#Ny * 0.5); // center y
-    const r = Math.floor(Math.min(this.#Nx, this.#Ny) * 0.1); // radius
-    const r2 = r * r;
+  get tracers(): TracerSettings {
+    return structuredClone(this.#tracers);
+  }
 
-    const y0c = Math.max(0, cy - r);
-    const y1c = Math.min(this.#Ny - 1, cy + r);
+  /**
+   * Switches the particles and the dye and sets their parameters; omitted
+   * fields keep their value. Particles start over when their count,
+   * lifetime or emitters change. Throws on invalid settings.
+   */
+  setTracers = (settings: Partial<TracerSettings>): void => {
+    const next = structuredClone({ ...this.#tracers, ...settings });
+    validateTracers(next);
+    const prev = this.#tracers;
+    this.#tracers = next;
+    if (next.dye) this.#ensureDye();
+    this.#writeTracerSources();
+    const restart =
+      next.particleCount !== prev.particleCount ||
+      next.particleLifetime !== prev.particleLifetime ||
+      next.source !== prev.source ||
+      JSON.stringify(next.seedPoints) !== JSON.stringify(prev.seedPoints);
+    if (restart) this.resetParticles();
+    if (this.#state === "stopped" && this.#tracerUniform) this.#render();
+  };
 
-    for (let y = y0c; y <= y1c; y++) {
-      const dy = y - cy;
-      const dy2 = dy * dy;
-      // span of x for this scanline: fill between [cx - sqrt(r^2 - dy^2), cx + sqrt(...)]
-      let span = Math.floor(Math.sqrt(r2 - dy2));
-      if (isNaN(span)) continue; // outside circle (can happen if dy2 > r2 due to rounding)
-      let xl = Math.max(0, cx - span);
-      let xr = Math.min(this.#Nx - 1, cx + span);
-      const off = y * this.#Nx;
-      for (let x = xl; x <= xr; x++) {
-        maskData[off + x] = CELL.SOLID;
-      }
-    }
+  /** Releases the particles from the emitters again; the flow is kept. */
+  resetParticles = (): void => {
+    if (!this.#particles) return;
+    const state = initialParticles(this.#tracers);
+    this.#gpu.device.queue.writeBuffer(this.#particles, 0, state);
+  };
+
+  /** Clears the dye (concentration 0 outside the sources); the flow is kept. */
+  resetDye = (): void => {
+    if (!this.#dyeTex) return;
+    const device = this.#gpu.device;
+    const enc = device.createCommandEncoder({ label: "dye reset" });
+    for (const buf of this.#dye ?? []) enc.clearBuffer(buf);
+    device.queue.submit([enc.finish()]);
+    device.queue.writeTexture(
+      { texture: this.#dyeTex },
+      new Uint8Array(this.#cellCount * 4),
+      { bytesPerRow: this.#Nx * 4 },
+      { width: this.#Nx, height: this.#Ny }
+    );
+  };
 
-    return maskData;
+  #getMaskData = (): Uint32Array => {
+    if (this.#scenario) return createScenarioMask(this.#scenario);
+    const mask = createDefaultMask(this.#Nx, this.#Ny);
+    if (this.#edges) applyEdges(mask, this.#Nx, this.#Ny, this.#edges);
+    return mask;
   };
 
   #stepOnce = (): void => {
     const device = this.#gpu.device;
+    if (this.#freshCells.length || this.#movingObstacles.size) {
+      // cheap if nothing animates: only the fresh cells are touched
+      this.#advanceObstacles();
+    }
 
     // Update step uniform with current parity
     this.#updateStepUniform(this.#parity);
 
-    const enc = device.createCommandEncoder({ label: "LBM frame (EP)" });
+    const enc = device.createCommandEncoder({ label: "LBM step (EP)" });
+    const p = enc.beginComputePass({ label: "step" });
+    p.setPipeline(this.#pipeStep);
+    p.setBindGroup(0, this.#bgStep);
+    p.dispatchWorkgroups(
+      Math.ceil(this.#Nx / this.#WORKGROUP_SIZE),
+      Math.ceil(this.#Ny / this.#WORKGROUP_SIZE)
+    );
+    p.end();
+    this.#encodeTracers(enc);
+    device.queue.submit([enc.finish()]);
 
-    // 1) step
-    {
-      const p = enc.beginComputePass({ label: "step" });
-      p.setPipeline(this.#pipeStep);
-      p.setBindGroup(0, this.#bgStep);
-      p.dispatchWorkgroups(
-        Math.ceil(this.#Nx / this.#WORKGROUP_SIZE),
-        Math.ceil(this.#Ny / this.#WORKGROUP_SIZE)
-      );
-      p.end();
-    }
+    // Flip EP parity
+    this.#parity ^= 1;
+    this.#tick++;
+  };
 
-    // 2) visualize (read current f)
+  #render = (): void => {
+    const device = this.#gpu.device;
+
+    // the vis pass loads f like the upcoming step would
+    this.#updateStepUniform(this.#parity);
+
+    const enc = device.createCommandEncoder({ label: "LBM render" });
+
+    // every #visRangeInterval frames the vis pass also reduces min/max
+    const measure =
+      this.#visAutoRange &&
+      !this.#visRangePending &&
+      this.#visFrames++ % this.#visRangeInterval === 0;
+    if (measure) device.queue.writeBuffer(this.#visRange, 0, VIS_RANGE_CLEAR);
+
+    // 1) visualize (read current f)
     this.#writeVisUniform({
       min: this.#visSettings.minValue,
       max: this.#visSettings.maxValue,
       mode: this.#visSettings.type,
-      cmap: this.#visSettings.colorMap, // 0 Viridis, 1 Turbo
+      autoRange: measure,
     });
     {
       const p = enc.beginComputePass({ label: "vis pass" });
@@ -428,8 +1231,29 @@ export class LBM {
       );
       p.end();
     }
+    if (measure) {
+      enc.copyBufferToBuffer(this.#visRange, 0, this.#visRangeReadback, 0, 8);
+    }
+    const { glyphs, glyphSpacing, streamlines, lic } = this.#overlays;
+    if (lic || streamlines) {
+      const p = enc.beginComputePass({ label: "overlay pass" });
+      if (lic) {
+        p.setPipeline(this.#pipeLIC);
+        p.setBindGroup(0, this.#bgLIC);
+        p.dispatchWorkgroups(
+          Math.ceil(this.#Nx / this.#WORKGROUP_SIZE),
+          Math.ceil(this.#Ny / this.#WORKGROUP_SIZE)
+        );
+      }
+      if (streamlines) {
+        p.setPipeline(this.#pipeTrace);
+        p.setBindGroup(0, this.#bgTrace);
+        p.dispatchWorkgroups(Math.ceil(this.#overlays.seedCount / 64));
+      }
+      p.end();
+    }
 
-    // 3) blit
+    // 2) blit, then the overlays on top
     {
       const view = this.#gpu.context.getCurrentTexture().createView();
       const rp = enc.beginRenderPass({
@@ -446,39 +1270,699 @@ export class LBM {
       rp.setPipeline(this.#pipeBlit);
       rp.setBindGroup(0, this.#bgBlit);
       rp.draw(3);
+      const glyphCount =
+        Math.floor(this.#Nx / glyphSpacing) *
+        Math.floor(this.#Ny / glyphSpacing);
+      if (glyphs && glyphCount > 0) {
+        rp.setPipeline(this.#pipeGlyphs);
+        rp.setBindGroup(0, this.#bgGlyphs);
+        rp.draw(9, glyphCount); // one arrow (3 triangles) per instance
+      }
+      if (streamlines) {
+        rp.setPipeline(this.#pipeStreamlines);
+        rp.setBindGroup(0, this.#bgStreamlines);
+        rp.draw(this.#overlays.streamlineLength, this.#overlays.seedCount);
+      }
+      if (this.#tracers.particles) {
+        rp.setPipeline(this.#pipeParticleDraw);
+        rp.setBindGroup(0, this.#bgParticleDraw);
+        rp.draw(6, this.#tracers.particleCount); // one dot (2 triangles) each
+      }
       rp.end();
     }
 
     device.queue.submit([enc.finish()]);
+    if (measure) this.#readVisRange();
+  };
 
-    // Flip EP parity
-    this.#parity ^= 1;
-    this.#tick++;
+  #readVisRange = (): void => {
+    this.#visRangePending = true;
+    const type = this.#visSettings.type;
+    this.#visRangeReadback
+      .mapAsync(GPUMapMode.READ)
+      .then(() => {
+        const [lo, hi] = new Uint32Array(
+          this.#visRangeReadback.getMappedRange().slice(0)
+        );
+        this.#visRangeReadback.unmap();
+        this.#visRangePending = false;
+        // disposed, switched to manual or to another field meanwhile
+        if (this.#disposed || !this.#visAutoRange) return;
+        if (type !== this.#visSettings.type || lo > hi) return; // no fluid cells
+        let min = rangeKeyToFloat(lo);
+        let max = rangeKeyToFloat(hi);
+        if (VIS_RANGES[type][0] < 0) {
+          max = Math.max(Math.abs(min), Math.abs(max)); // centred on 0
+          min = -max;
+        }
+        if (max - min < 1e-12) max = min + 1e-12; // uniform field
+        this.#visSettings.minValue = min;
+        this.#visSettings.maxValue = max;
+        for (const listener of this.#visRangeListeners) listener({ min, max });
+      })
+      .catch(() => {
+        this.#visRangePending = false; // buffer destroyed by dispose()
+      });
   };
 
-  run = (numSteps?: number): void => {
-    if (this.#isRunning) {
-      this.#resetSimulation();
+  // one animation frame: advance (unless paused) and render
+  #frame = (): void => {
+    if (this.#state === "running") {
+      for (let i = 0; i < this.#stepsPerFrame; i++) this.#stepOnce();
+      this.#maybeCheckStability();
+    }
+    this.#render();
+    this.#rafId = requestAnimationFrame(this.#frame);
+  };
+
+  #startLoop = (): void => {
+    if (this.#disposed) return;
+    if (!Number.isNaN(this.#rafId)) return; // already looping
+    this.#rafId = requestAnimationFrame(this.#frame);
+  };
+
+  #stopLoop = (): void => {
+    cancelAnimationFrame(this.#rafId);
+    this.#rafId = NaN;
+  };
+
+  // ---------- stability check ----------
+
+  #maybeCheckStability = (): void => {
+    if (this.#diagInterval <= 0) return;
+    if (this.#tick - this.#lastCheckTick < this.#diagInterval) return;
+    this.#checkStability();
+  };
+
+  // Reduces the last step's rho/u into the report and reads it back
+  // asynchronously; a failure pauses the run and notifies the listeners.
+  #checkStability = (): void => {
+    if (this.#diagPending || this.#disposed) return;
+    this.#diagPending = true;
+    this.#lastCheckTick = this.#tick;
+    const tick = this.#tick;
+    const generation = this.#generation;
+    const device = this.#gpu.device;
+
+    device.queue.writeBuffer(this.#diagReport, 0, REPORT_CLEAR);
+    const enc = device.createCommandEncoder({ label: "LBM stability check" });
+    const p = enc.beginComputePass({ label: "diagnostics" });
+    p.setPipeline(this.#pipeDiag);
+    p.setBindGroup(0, this.#bgDiag);
+    p.dispatchWorkgroups(
+      Math.ceil(this.#Nx / this.#WORKGROUP_SIZE),
+      Math.ceil(this.#Ny / this.#WORKGROUP_SIZE)
+    );
+    p.end();
+    enc.copyBufferToBuffer(
+      this.#diagReport,
+      0,
+      this.#diagReadback,
+      0,
+      REPORT_BYTES
+    );
+    device.queue.submit([enc.finish()]);
+
+    this.#diagReadback
+      .mapAsync(GPUMapMode.READ)
+      .then(() => {
+        const words = new Uint32Array(
+          this.#diagReadback.getMappedRange().slice(0)
+        );
+        this.#diagReadback.unmap();
+        this.#diagPending = false;
+        // disposed or reset while the check was in flight
+        if (this.#disposed || generation !== this.#generation) return;
+
+        const report = decodeReport(words, this.#Nx, tick);
+        if (!report) return;
+        this.pause();
+        this.#instability = report;
+        for (const listener of this.#instabilityListeners) listener(report);
+      })
+      .catch(() => {
+        this.#diagPending = false; // buffer destroyed by dispose()
+      });
+  };
+
+  /**
+   * Last detected instability, cleared when the flow field is reset or the
+   * run continues (the next check reports it again if it persists).
+   */
+  get instability(): InstabilityReport | null {
+    return this.#instability;
+  }
+
+  get stabilityCheckInterval(): number {
+    return this.#diagInterval;
+  }
+
+  get machThreshold(): number {
+    return this.#machThreshold;
+  }
+
+  /**
+   * Registers a callback for diverging runs (NaN/Inf, negative density or
+   * Mach above the threshold). The run is paused before it is called.
+   * Returns a function that removes the listener.
+   */
+  onInstability = (listener: (report: InstabilityReport) => void) => {
+    this.#instabilityListeners.add(listener);
+    return () => {
+      this.#instabilityListeners.delete(listener);
+    };
+  };
+
+  /** Ticks between two stability checks; 0 disables the check. */
+  setStabilityCheckInterval = (ticks: number): void => {
+    this.#diagInterval = Math.max(0, Math.floor(ticks));
+  };
+
+  setMachThreshold = (mach: number): void => {
+    if (!(mach > 0)) throw new Error("Mach threshold must be positive.");
+    this.#machThreshold = mach;
+    if (this.#diagUniform && !this.#disposed) this.#writeDiagUniform();
+  };
+
+  // ---------- physics ----------
+
+  get tau(): number {
+    return this.#tau;
+  }
+
+  get omega(): number {
+    return this.#omega;
+  }
+
+  get inletVelocity(): { ux: number; uy: number } {
+    return { ux: this.#inletUx, uy: this.#inletUy };
+  }
+
+  get inletProfile(): InletProfile {
+    return { ...this.#inletProfile };
+  }
+
+  get inletModulation(): InletModulation {
+    return structuredClone(this.#inletModulation);
+  }
+
+  /** Inlet velocity factor of the time modulation at the current tick. */
+  get inletScale(): number {
+    return modulationFactor(this.#inletModulation, this.#tick);
+  }
+
+  get outletDensity(): number {
+    return this.#rhoOut;
+  }
+
+  /** Kinematic viscosity in lattice units, nu = (tau - 1/2) / 3. */
+  get viscosity(): number {
+    return (this.#tau - 0.5) / 3;
+  }
+
+  get units(): UnitSystem | null {
+    return this.#units;
+  }
+
+  /** Elapsed physical time [s], or null without a unit system. */
+  get physicalTime(): number | null {
+    return this.#units ? this.#units.toPhysicalTime(this.#tick) : null;
+  }
+
+  /**
+   * Applies a unit system: relaxation and inlet velocity (along +x) are taken
+   * from it. After init() the flow field is reset to the new inflow.
+   */
+  setUnits = (units: UnitSystem): void => {
+    this.#units = units;
+    this.#omega = clampOmega(units.omega); // tau <= 0.5 would not relax
+    this.#tau = 1 / this.#omega;
+    this.#inletUx = units.latticeVelocity;
+    this.#inletUy = 0;
+
+    if (!this.#writeParams()) return; // applied by init()
+    this.#resetSimulation();
+  };
+
+  // Live setters: rewrite the uniforms, the flow field keeps evolving.
+  // A unit system keeps its dx/dt, so the physical velocity/viscosity (and Re) follow.
+
+  setInletVelocity = (ux: number, uy = 0): void => {
+    this.#inletUx = ux;
+    this.#inletUy = uy;
+    if (this.#units) {
+      this.#units = this.#units.withLattice({
+        latticeVelocity: Math.hypot(ux, uy),
+      });
+    }
+    this.#writeParams();
+  };
+
+  /**
+   * Shape of the inlet velocity across the inlet (see inlet.ts). Throws on a
+   * custom expression that does not parse.
+   */
+  setInletProfile = (profile: InletProfile): void => {
+    validateInlet(profile);
+    this.#inletProfile = { ...profile };
+    this.#writeInletFactors();
+  };
+
+  /** Ramp-up, pulsation and step changes of the inlet velocity per tick. */
+  setInletModulation = (modulation: InletModulation): void => {
+    const m = structuredClone(modulation);
+    validateInlet(this.#inletProfile, m);
+    this.#inletModulation = m;
+    this.#writeParams(); // the initial state starts at the tick 0 factor
+  };
+
+  setOutletDensity = (rho: number): void => {
+    this.#rhoOut = rho;
+    this.#writeParams();
+  };
+
+  /** Relaxation rate, clamped to the BGK stability range (0, 2). */
+  setOmega = (omega: number): void => {
+    const w = clampOmega(omega);
+    this.#omega = w;
+    this.#tau = 1 / w;
+    if (this.#units) this.#units = this.#units.withLattice({ tau: this.#tau });
+    this.#writeParams();
+  };
+
+  setTau = (tau: number): void => {
+    this.setOmega(1 / tau);
+  };
+
+  /** Kinematic viscosity in lattice units. */
+  setViscosity = (nu: number): void => {
+    this.setOmega(1 / (3 * nu + 0.5));
+  };
+
+  get initialState(): { rho: number; ux: number; uy: number } {
+    const { rho0, u0x, u0y } = this.#initial;
+    return { rho: rho0, ux: u0x, uy: u0y };
+  }
+
+  /** Uniform state of the fluid cells after a reset (restart/stop). */
+  setInitialState = (rho: number, ux: number, uy: number): void => {
+    this.#initial = { rho0: rho, u0x: ux, u0y: uy };
+    this.#writeParams();
+  };
+
+  get scenario(): Scenario | null {
+    return this.#scenario && structuredClone(this.#scenario);
+  }
+
+  /**
+   * Applies a scenario of the same grid size: mask, inflow, physics and
+   * initial state. After init() the flow field is reset to it.
+   */
+  setScenario = (s: Scenario): void => {
+    validateScenario(s);
+    if (s.Nx !== this.#Nx || s.Ny !== this.#Ny) {
+      throw new Error(
+        `Scenario grid ${s.Nx} × ${s.Ny} does not match ${this.#Nx} × ${
+          this.#Ny
+        }.`
+      );
+    }
+    // rasterize before touching any state: a bad obstacle leaves all as it was
+    const mask = createScenarioMask(s);
+    this.#scenario = structuredClone(s);
+    this.#edges = null;
+    this.#rhoIn = s.inlet.rho;
+    this.#rhoOut = s.physics.rhoOut;
+    this.#forceX = s.physics.forceX;
+    this.#forceY = s.physics.forceY;
+    this.#initial = {
+      rho0: s.initial.rho,
+      u0x: s.initial.ux,
+      u0y: s.initial.uy,
+    };
+    this.#inletProfile = { ...(s.inlet.profile ?? DEFAULT_INLET_PROFILE) };
+    this.#inletModulation = structuredClone(
+      s.inlet.modulation ?? DEFAULT_INLET_MODULATION
+    );
+    this.setInletVelocity(s.inlet.ux, s.inlet.uy);
+    this.setTau(s.physics.tau); // writes the uniforms
+
+    if (!this.#stepUniform || this.#disposed) return; // applied by init()
+    this.#applyMask(mask);
+    this.#resetSimulation();
+    if (this.#state === "stopped") this.#render();
+  };
+
+  /** Back to the built-in channel (mask only; physics are kept). */
+  clearScenario = (): void => {
+    this.#scenario = null;
+    this.#edges = null;
+    this.#edgeVelocity = {};
+    if (!this.#stepUniform || this.#disposed) return;
+    this.resetMask();
+  };
+
+  /** Boundary type of each domain edge (scenario or built-in channel). */
+  get edges(): Record<Edge, EdgeBoundary> {
+    return { ...(this.#scenario?.edges ?? this.#edges ?? CHANNEL_EDGES) };
+  }
+
+  /** Tangential speed of the "moving" edges (see Scenario.edgeVelocity). */
+  get edgeVelocity(): Partial<Record<Edge, number>> {
+    return { ...(this.#scenario?.edgeVelocity ?? this.#edgeVelocity) };
+  }
+
+  /**
+   * Rewrites the outermost rows/columns for new edge boundaries; obstacles
+   * and painted cells inside are kept. The flow field keeps evolving.
+   * `velocity` sets the speed of "moving" edges (default: kept).
+   */
+  setEdges = (
+    edges: Record<Edge, EdgeBoundary>,
+    velocity: Partial<Record<Edge, number>> = this.edgeVelocity
+  ): void => {
+    validateEdges(edges);
+    if (this.#scenario) {
+      this.#scenario.edges = { ...edges };
+      this.#scenario.edgeVelocity = { ...velocity };
     } else {
-      this.#isRunning = true;
+      this.#edges = { ...edges };
+      this.#edgeVelocity = { ...velocity };
+    }
+    if (!this.#stepUniform || this.#disposed) return; // applied by init()
+
+    this.#setEdgeMotions(edges, velocity);
+    this.#writeWallTable();
+    this.#writeStepUniform();
+
+    const base = this.#getMaskData();
+    const Nx = this.#Nx;
+    const Ny = this.#Ny;
+    for (let y = 0; y < Ny; y++) {
+      const row = y * Nx;
+      if (y === 0 || y === Ny - 1) {
+        this.#maskCPU.set(base.subarray(row, row + Nx), row);
+      } else {
+        this.#maskCPU[row] = base[row];
+        this.#maskCPU[row + Nx - 1] = base[row + Nx - 1];
+      }
+    }
+    // the edge cells are no longer under placed obstacles
+    for (const { under } of this.#placedObstacles.values()) {
+      for (const cell of under.keys()) {
+        const x = cell % Nx;
+        const y = (cell - x) / Nx;
+        if (x === 0 || x === Nx - 1 || y === 0 || y === Ny - 1) {
+          under.delete(cell);
+        }
+      }
+    }
+    this.#gpu.device.queue.writeBuffer(this.#mask, 0, this.#maskCPU.buffer);
+    this.#writeInletFactors(); // the inlet may have moved or resized
+    this.#writeStreamlineSeeds();
+    this.#writeTracerSources();
+  };
+
+  get bodyForce(): { fx: number; fy: number } {
+    return { fx: this.#forceX, fy: this.#forceY };
+  }
+
+  get hasForceField(): boolean {
+    return this.#hasForceField;
+  }
+
+  /**
+   * Uniform body force (force density in lattice units), applied with Guo
+   * forcing. E.g. gravity (0, -g) or a pressure gradient driving a periodic channel.
+   */
+  setBodyForce = (fx: number, fy: number): void => {
+    this.#forceX = fx;
+    this.#forceY = fy;
+    this.#writeParams();
+  };
+
+  /**
+   * Optional per-cell force field (lattice units), added to the uniform force.
+   * `fx`/`fy` hold one value per cell in row-major order (y * Nx + x).
+   */
+  setForceField = (fx: Float32Array, fy: Float32Array): void => {
+    if (fx.length !== this.#cellCount || fy.length !== this.#cellCount) {
+      throw new Error(`Force field must have ${this.#cellCount} cells.`);
     }
+    if (!this.#stepUniform || this.#disposed) {
+      throw new Error("LBM must be initialized before setting a force field.");
+    }
+    const device = this.#gpu.device;
+    const bytes = this.#cellCount * 4;
+    if (!this.#hasForceField) {
+      this.#forceField.destroy();
+      this.#forceField = device.createBuffer({
+        label: "force field",
+        size: 2 * bytes,
+        usage:
+          GPUBufferUsage.STORAGE |
+          GPUBufferUsage.COPY_DST |
+          GPUBufferUsage.COPY_SRC,
+      });
+      this.#hasForceField = true;
+      this.#createStepBindGroup();
+      this.#createVisBindGroup();
+    }
+    device.queue.writeBuffer(
+      this.#forceField,
+      0,
+      fx.buffer,
+      fx.byteOffset,
+      bytes
+    );
+    device.queue.writeBuffer(
+      this.#forceField,
+      bytes,
+      fy.buffer,
+      fy.byteOffset,
+      bytes
+    );
+    this.#writeParams();
+  };
+
+  /** Removes the per-cell force field and frees its buffer. */
+  clearForceField = (): void => {
+    if (!this.#hasForceField || this.#disposed) return;
+    this.#forceField.destroy();
+    this.#forceField = this.#createForceFieldPlaceholder();
+    this.#hasForceField = false;
+    this.#createStepBindGroup();
+    this.#createVisBindGroup();
+    this.#writeParams();
+  };
+
+  get collision(): CollisionOperator {
+    return this.#collision;
+  }
 
+  get trtMagic(): number {
+    return this.#trtMagic;
+  }
+
+  get mrtRates(): MRTRates {
+    return { ...this.#mrtRates };
+  }
+
+  /** Switches the collision operator (pipeline variant); the flow field is kept. */
+  setCollision = (op: CollisionOperator): void => {
+    this.#collision = op;
+    if (!this.#modStep || this.#disposed) return; // picked up by init()
+    this.#pipeStep = this.#getStepPipeline(op);
+    // "auto" layouts are pipeline specific
+    this.#createStepBindGroup();
+  };
+
+  /** TRT magic parameter Lambda (3/16: exact halfway walls, 1/4: best stability). */
+  setTRTMagic = (magic: number): void => {
+    if (!(magic > 0)) throw new Error("TRT magic parameter must be positive.");
+    this.#trtMagic = magic;
+    this.#writeParams();
+  };
+
+  /** Free MRT relaxation rates, each in (0, 2). */
+  setMRTRates = (rates: Partial<MRTRates>): void => {
+    for (const v of Object.values(rates)) {
+      if (!(v > 0 && v < 2)) throw new Error("MRT rates must be in (0, 2).");
+    }
+    this.#mrtRates = { ...this.#mrtRates, ...rates };
+    this.#writeParams();
+  };
+
+  get les(): boolean {
+    return this.#les;
+  }
+
+  get smagorinskyConstant(): number {
+    return this.#smagorinsky;
+  }
+
+  /** Enables the Smagorinsky LES model (per-cell omega from the local strain). */
+  setLES = (enabled: boolean): void => {
+    this.#les = enabled;
+    this.#writeParams();
+  };
+
+  /** Smagorinsky constant Cs (typically 0.1 - 0.2); used while LES is on. */
+  setSmagorinskyConstant = (cs: number): void => {
+    if (!(cs >= 0)) throw new Error("Smagorinsky constant must be >= 0.");
+    this.#smagorinsky = cs;
+    this.#writeParams();
+  };
+
+  // Cs as seen by the shaders: 0 switches the model off
+  #smagorinskyOrZero = (): number => (this.#les ? this.#smagorinsky : 0);
+
+  // returns false if the buffers do not exist (yet/anymore)
+  #writeParams = (): boolean => {
+    if (!this.#stepUniform || this.#disposed) return false;
+    this.#writeInitUniform({
+      ...this.#initial,
+      inletUX: this.#inletUx,
+      inletUY: this.#inletUy,
+    });
+    this.#writeStepUniform();
+    return true;
+  };
+
+  // ---------- run control ----------
+
+  get state(): RunState {
+    return this.#state;
+  }
+
+  get tick(): number {
+    return this.#tick;
+  }
+
+  get stepsPerFrame(): number {
+    return this.#stepsPerFrame;
+  }
+
+  setStepsPerFrame = (n: number): void => {
+    this.#stepsPerFrame = Math.max(1, Math.floor(n));
+  };
+
+  /**
+   * Starts (from stopped) or resumes (from paused) the animation loop.
+   * With `numSteps`, advances that many steps synchronously and renders once
+   * instead, without touching the run state.
+   */
+  run = (numSteps?: number): void => {
     if (numSteps !== undefined) {
       for (let i = 0; i < numSteps; i++) this.#stepOnce();
+      this.#maybeCheckStability();
+      this.#render();
       return;
     }
-    const tick = () => {
-      this.#stepOnce();
-      this.#rafId = requestAnimationFrame(tick);
-    };
-    this.#rafId = requestAnimationFrame(tick);
+    this.#instability = null;
+    this.#state = "running";
+    this.#startLoop();
+  };
+
+  /** Resets the flow field to its initial state and runs. */
+  restart = (): void => {
+    this.#resetSimulation();
+    this.run();
+  };
+
+  /** Keeps rendering (so painting/vis changes stay visible) but stops stepping. */
+  pause = (): void => {
+    if (this.#state === "running") this.#state = "paused";
+  };
+
+  resume = (): void => {
+    if (this.#state !== "paused") return;
+    this.#instability = null;
+    this.#state = "running";
+  };
+
+  togglePause = (): void => {
+    if (this.#state === "running") this.pause();
+    else this.run();
+  };
+
+  /**
+   * Advances `n` steps while not running (a stopped simulation becomes paused).
+   * Ignored while running.
+   */
+  step = (n = 1): void => {
+    if (this.#state === "running") return;
+    this.#instability = null;
+    for (let i = 0; i < n; i++) this.#stepOnce();
+    this.#maybeCheckStability();
+    this.#state = "paused";
+    this.#startLoop();
+  };
+
+  /** Cancels the animation loop and resets the flow field to its initial state. */
+  stop = (): void => {
+    if (this.#disposed) return;
+    this.#stopLoop();
+    this.#state = "stopped";
+    this.#resetSimulation();
+    this.#render();
+  };
+
+  /**
+   * Cancels the animation loop and destroys every GPU buffer and texture owned
+   * by this instance. Pipelines, bind groups and samplers have no explicit
+   * destroy and are released with the last reference. The instance is unusable afterwards.
+   */
+  dispose = (): void => {
+    if (this.#disposed) return;
+    this.#stopLoop();
+    this.#state = "stopped";
+    this.#disposed = true;
+
+    // destroy() on resources still referenced by submitted work is deferred by the implementation
+    for (const buf of [
+      this.#f,
+      this.#mask,
+      this.#u,
+      this.#rho,
+      this.#initUniform,
+      this.#stepUniform,
+      this.#stepUniformUpdated,
+      this.#visUniform,
+      this.#visRange,
+      this.#visRangeReadback,
+      this.#colormapLUT,
+      this.#overlayUniform,
+      this.#blitUniform,
+      this.#streamlineSeeds,
+      this.#streamlinePoints,
+      this.#tracerUniform,
+      this.#emitters,
+      this.#particles,
+      ...(this.#dye ?? []),
+      this.#dyeSource,
+      this.#forceField,
+      this.#wallTable,
+      this.#inletFactors,
+      this.#diagUniform,
+      this.#diagReport,
+      this.#diagReadback,
+    ]) {
+      buf?.destroy();
+    }
+    this.#visTex?.destroy();
+    this.#licTex?.destroy();
+    this.#dyeTex?.destroy();
+    this.#stepPipelines.clear();
+    this.#instabilityListeners.clear();
+    this.#visRangeListeners.clear();
   };
 
   #writeVisUniform = (opts: {
     min: number;
     max: number;
     mode: number;
-    cmap: number;
+    autoRange: boolean;
   }): void => {
     const dv = new DataView(new ArrayBuffer(256));
     let o = 0;
@@ -490,19 +1974,104 @@ export class LBM {
     o += 4; // cellCount
     dv.setUint32(o, opts.mode | 0, true);
     o += 4; // mode
-    dv.setUint32(o, opts.cmap | 0, true);
-    o += 4; // cmap
     dv.setFloat32(o, opts.min, true);
     o += 4; // vmin
     dv.setFloat32(o, opts.max, true);
     o += 4; // vmax
-    //o += 4; // _pad0
+    dv.setFloat32(o, this.#tau, true);
+    o += 4; // tau
+    dv.setFloat32(o, this.#smagorinskyOrZero(), true);
+    o += 4; // smagorinsky
+    dv.setUint32(o, opts.autoRange ? 1 : 0, true);
+    o += 4; // autoRange
+    dv.setFloat32(o, this.#forceX, true);
+    o += 4; // Fx
+    dv.setFloat32(o, this.#forceY, true);
+    o += 4; // Fy
+    dv.setUint32(o, this.#hasForceField ? 1 : 0, true);
+    o += 4; // forceField
     this.#gpu.device.queue.writeBuffer(this.#visUniform, 0, dv.buffer);
   };
 
+  #writeOverlayUniform = (): void => {
+    if (!this.#overlayUniform) return;
+    const o = this.#overlays;
+    const dv = new DataView(new ArrayBuffer(32));
+    dv.setUint32(0, this.#Nx, true);
+    dv.setUint32(4, this.#Ny, true);
+    dv.setUint32(8, this.#cellCount, true);
+    dv.setUint32(12, o.glyphSpacing, true);
+    dv.setFloat32(16, o.glyphScale, true);
+    dv.setUint32(20, o.licLength, true);
+    dv.setUint32(24, o.streamlineLength, true);
+    dv.setUint32(28, o.seedCount, true);
+    this.#gpu.device.queue.writeBuffer(this.#overlayUniform, 0, dv.buffer);
+    this.#writeBlitUniform();
+  };
+
+  #writeBlitUniform = (): void => {
+    if (!this.#blitUniform) return;
+    const t = this.#tracers;
+    const [r, g, b] = hexColor(t.dyeColor);
+    const o = this.#overlays;
+    this.#gpu.device.queue.writeBuffer(
+      this.#blitUniform,
+      0,
+      new Float32Array([
+        ...[r, g, b, t.dye ? t.dyeOpacity : 0], // dyeColor
+        o.lic ? o.licStrength : 0,
+      ])
+    );
+  };
+
+  #writeTracerUniform = (): void => {
+    if (!this.#tracerUniform) return;
+    const t = this.#tracers;
+    const dv = new DataView(new ArrayBuffer(32));
+    dv.setUint32(0, this.#Nx, true);
+    dv.setUint32(4, this.#Ny, true);
+    dv.setUint32(8, this.#cellCount, true);
+    dv.setUint32(12, t.particleCount, true);
+    dv.setFloat32(16, t.particleLifetime, true);
+    dv.setUint32(20, this.#emitterCount, true);
+    dv.setFloat32(24, 1 / (3 * t.dyeDiffusivity + 0.5), true); // omegaDye
+    dv.setFloat32(28, t.particleSize, true);
+    this.#gpu.device.queue.writeBuffer(this.#tracerUniform, 0, dv.buffer);
+    this.#writeBlitUniform();
+  };
+
+  // emitters and dye sources follow the mask (inlet cells)
+  #writeTracerSources = (): void => {
+    if (!this.#emitters) return;
+    const device = this.#gpu.device;
+    const t = this.#tracers;
+    const emitters = particleEmitters(t, this.#maskCPU, this.#Nx, this.#Ny);
+    this.#emitterCount = emitters.length / 2;
+    device.queue.writeBuffer(this.#emitters, 0, emitters);
+    if (this.#dyeSource) {
+      const sources = dyeSources(t, this.#maskCPU, this.#Nx, this.#Ny);
+      device.queue.writeBuffer(this.#dyeSource, 0, sources);
+    }
+    this.#writeTracerUniform();
+  };
+
+  // inlet seeds follow the mask, like the inlet profile
+  #writeStreamlineSeeds = (): void => {
+    if (!this.#streamlineSeeds) return;
+    const seeds = streamlineSeeds(
+      this.#overlays,
+      this.#maskCPU,
+      this.#Nx,
+      this.#Ny
+    );
+    this.#gpu.device.queue.writeBuffer(this.#streamlineSeeds, 0, seeds);
+  };
+
   // ---------- uniforms writers ----------
   #writeInitUniform = (opts: {
     rho0: number;
+    u0x: number;
+    u0y: number;
     inletUX: number;
     inletUY: number;
   }): void => {
@@ -517,6 +2086,14 @@ export class LBM {
     dv.setFloat32(o, opts.inletUX, true);
     o += 4;
     dv.setFloat32(o, opts.inletUY, true);
+    o += 4;
+    dv.setFloat32(o, opts.rho0, true);
+    o += 4;
+    dv.setFloat32(o, opts.u0x, true);
+    o += 4;
+    dv.setFloat32(o, opts.u0y, true);
+    o += 4;
+    dv.setFloat32(o, modulationFactor(this.#inletModulation, 0), true);
 
     this.#gpu.device.queue.writeBuffer(this.#initUniform, 0, dv.buffer);
   };
@@ -533,37 +2110,447 @@ export class LBM {
     dv.setUint32(o, this.#Q, true);
     o += 4;
 
-    dv.setFloat32(o, 1.0 /* rhoIn */, true);
+    dv.setFloat32(o, this.#rhoIn, true);
     o += 4;
     dv.setFloat32(o, this.#inletUx /* uInx */, true);
     o += 4;
     dv.setFloat32(o, this.#inletUy /* uIny */, true);
     o += 4;
-    dv.setFloat32(o, 1.0 /* rhoOut*/, true);
+    dv.setFloat32(o, this.#rhoOut, true);
     o += 4;
 
     dv.setFloat32(o, this.#omega, true);
-    // o += 4;
-    // o += 12; // _pad0, _pad1, _pad2
+    o += 4;
+    dv.setFloat32(o, this.#forceX, true);
+    o += 4;
+    dv.setFloat32(o, this.#forceY, true);
+    o += 4;
+    dv.setUint32(o, this.#hasForceField ? 1 : 0, true);
+    o += 4;
+
+    dv.setFloat32(o, trtOmegaMinus(this.#omega, this.#trtMagic), true);
+    o += 4;
+    dv.setFloat32(o, this.#mrtRates.sE, true);
+    o += 4;
+    dv.setFloat32(o, this.#mrtRates.sEps, true);
+    o += 4;
+    dv.setFloat32(o, this.#mrtRates.sQ, true);
+    o += 4;
+
+    dv.setFloat32(o, this.#smagorinskyOrZero(), true);
+    o += 4;
+    dv.setFloat32(o, this.#trtMagic, true);
+    o += 4;
+    dv.setUint32(o, this.#wallMotions.size > 0 ? 1 : 0, true);
 
     this.#gpu.device.queue.writeBuffer(this.#stepUniform, 0, dv.buffer);
   };
 
+  #writeDiagUniform = (): void => {
+    const dv = new DataView(new ArrayBuffer(16));
+    dv.setUint32(0, this.#Nx, true);
+    dv.setUint32(4, this.#Ny, true);
+    dv.setUint32(8, this.#cellCount, true);
+    dv.setFloat32(12, this.#machThreshold, true);
+    this.#gpu.device.queue.writeBuffer(this.#diagUniform, 0, dv.buffer);
+  };
+
   #updateStepUniform = (parity: 0 | 1): void => {
     const dv = new DataView(new ArrayBuffer(16));
     dv.setUint32(0, parity, true);
+    dv.setFloat32(4, modulationFactor(this.#inletModulation, this.#tick), true);
     this.#gpu.device.queue.writeBuffer(this.#stepUniformUpdated, 0, dv.buffer);
   };
 
+  // ---------- readback ----------
+
+  // Copies GPU buffers into fresh staging buffers (one submit) and maps them.
+  #readBuffers = async (
+    sources: Array<{ buffer: GPUBuffer; size: number }>
+  ): Promise<ArrayBuffer[]> => {
+    if (!this.#f || this.#disposed) {
+      throw new Error("LBM is not initialized or already disposed.");
+    }
+    const device = this.#gpu.device;
+    const enc = device.createCommandEncoder({ label: "LBM readback" });
+    const staging = sources.map(({ buffer, size }) => {
+      const dst = device.createBuffer({
+        label: `readback ${buffer.label}`,
+        size,
+        usage: GPUBufferUsage.MAP_READ | GPUBufferUsage.COPY_DST,
+      });
+      enc.copyBufferToBuffer(buffer, 0, dst, 0, size);
+      return dst;
+    });
+    device.queue.submit([enc.finish()]);
+
+    try {
+      return await Promise.all(
+        staging.map(async (dst) => {
+          await dst.mapAsync(GPUMapMode.READ);
+          return dst.getMappedRange().slice(0);
+        })
+      );
+    } finally {
+      for (const dst of staging) dst.destroy();
+    }
+  };
+
+  #fieldMeta = (): FieldReadback => ({
+    Nx: this.#Nx,
+    Ny: this.#Ny,
+    tick: this.#tick,
+  });
+
+  /**
+   * Density as computed by the last step (before its collision), decoded
+   * from FP16s. EQ cells hold their prescribed values, solids stale data.
+   */
+  readDensity = async (): Promise<DensityField> => {
+    const meta = this.#fieldMeta();
+    const [rho] = await this.#readBuffers([
+      { buffer: this.#rho, size: this.#rho.size },
+    ]);
+    const C = this.#cellCount;
+    return { ...meta, rho: decodeF16sArray(new Uint16Array(rho, 0, C)) };
+  };
+
+  /** Velocity as computed by the last step, see readDensity(). */
+  readVelocity = async (): Promise<VelocityField> => {
+    const meta = this.#fieldMeta();
+    const [u] = await this.#readBuffers([
+      { buffer: this.#u, size: this.#u.size },
+    ]);
+    const C = this.#cellCount;
+    return {
+      ...meta,
+      ux: decodeF16sArray(new Uint16Array(u, 0, C)),
+      uy: decodeF16sArray(new Uint16Array(u, 2 * C, C)),
+    };
+  };
+
+  /** Density and velocity of the same tick (single copy). */
+  readMacroscopic = async (): Promise<DensityField & VelocityField> => {
+    const meta = this.#fieldMeta();
+    const [rho, u] = await this.#readBuffers([
+      { buffer: this.#rho, size: this.#rho.size },
+      { buffer: this.#u, size: this.#u.size },
+    ]);
+    const C = this.#cellCount;
+    return {
+      ...meta,
+      rho: decodeF16sArray(new Uint16Array(rho, 0, C)),
+      ux: decodeF16sArray(new Uint16Array(u, 0, C)),
+      uy: decodeF16sArray(new Uint16Array(u, 2 * C, C)),
+    };
+  };
+
+  /**
+   * Density distribution functions. By default the populations f_i(x) the
+   * next step would load, un-shifted (f_i = stored + w_i); solid cells report
+   * the rest state w_i. `raw` returns the decoded storage as-is.
+   */
+  readDistributions = async (
+    opts: { raw?: boolean } = {}
+  ): Promise<DistributionField> => {
+    const meta = this.#fieldMeta();
+    const parity = this.#parity;
+    const [buf, maskBuf] = await this.#readBuffers([
+      { buffer: this.#f, size: this.#f.size },
+      { buffer: this.#mask, size: this.#mask.size },
+    ]);
+    const C = this.#cellCount;
+    const stored = decodeF16sArray(new Uint16Array(buf, 0, this.#Q * C));
+    const raw = opts.raw ?? false;
+    if (raw) return { ...meta, Q: this.#Q, f: stored, raw, parity };
+
+    const f = resolveEsotericPull(stored, this.#Nx, this.#Ny, parity);
+    const mask = new Uint32Array(maskBuf);
+    for (let i = 0; i < this.#Q; i++) {
+      const off = i * C;
+      for (let cell = 0; cell < C; cell++) {
+        f[off + cell] = mask[cell] & CELL.SOLID ? W[i] : f[off + cell] + W[i];
+      }
+    }
+    return { ...meta, Q: this.#Q, f, raw, parity };
+  };
+
+  /**
+   * Snapshot for export: rho, u, vorticity and mask of one tick. "si" needs a
+   * unit system (setUnits) and converts velocity and vorticity.
+   */
+  snapshot = async (
+    opts: { units?: ExportUnits } = {}
+  ): Promise<ExportFields> => {
+    const units = opts.units === "si" ? this.#units : null;
+    if (opts.units === "si" && !units) {
+      throw new Error("SI export needs a unit system (setUnits).");
+    }
+    const meta = this.#fieldMeta();
+    const [rho, u, mask] = await this.#readBuffers([
+      { buffer: this.#rho, size: this.#rho.size },
+      { buffer: this.#u, size: this.#u.size },
+      { buffer: this.#mask, size: this.#mask.size },
+    ]);
+    const C = this.#cellCount;
+    return buildExportFields(
+      {
+        ...meta,
+        rho: decodeF16sArray(new Uint16Array(rho, 0, C)),
+        ux: decodeF16sArray(new Uint16Array(u, 0, C)),
+        uy: decodeF16sArray(new Uint16Array(u, 2 * C, C)),
+        mask: new Uint32Array(mask),
+      },
+      units
+    );
+  };
+
+  /** Encodes a snapshot as VTK, CSV, .npz or stacked .npy. */
+  exportFields = async (
+    format: ExportFormat,
+    opts: { units?: ExportUnits } = {}
+  ): Promise<{ blob: Blob; fileName: string }> => {
+    const fields = await this.snapshot(opts);
+    return {
+      blob: encodeFields(fields, format),
+      fileName: exportFileName(fields, format),
+    };
+  };
+
+  /** exportFields() followed by a browser download. */
+  downloadFields = async (
+    format: ExportFormat,
+    opts: { units?: ExportUnits } = {}
+  ): Promise<void> => {
+    const { blob, fileName } = await this.exportFields(format, opts);
+    downloadBlob(blob, fileName);
+  };
+
+  // ---------- checkpoints ----------
+
+  /**
+   * Serializes the full state (FP16s DDFs, global rho/u, mask, force field,
+   * parity, tick and all physical parameters) into the versioned binary
+   * format of checkpoint.ts.
+   */
+  saveCheckpoint = async (): Promise<Uint8Array<ArrayBuffer>> => {
+    // everything but the GPU buffers now: the run may step during the readback
+    const meta = this.#fieldMeta();
+    const parity = this.#parity;
+    const params: CheckpointParams = {
+      tau: this.#tau,
+      inletUx: this.#inletUx,
+      inletUy: this.#inletUy,
+      rhoIn: this.#rhoIn,
+      rhoOut: this.#rhoOut,
+      forceX: this.#forceX,
+      forceY: this.#forceY,
+      collision: this.#collision,
+      trtMagic: this.#trtMagic,
+      mrtRates: { ...this.#mrtRates },
+      les: this.#les,
+      smagorinsky: this.#smagorinsky,
+      units: this.#units ? this.#units.toInput() : null,
+      wallMotions: [...this.#wallMotions].map(([id, w]) => ({ id, ...w })),
+      inletProfile: { ...this.#inletProfile },
+      inletModulation: structuredClone(this.#inletModulation),
+      edges: this.edges,
+      edgeVelocity: this.edgeVelocity,
+      movingObstacles: [...this.#movingObstacles.values()].map((e) => ({
+        id: e.id,
+        obstacle: structuredClone(e.current),
+        under: [...e.under],
+      })),
+      initial: this.initialState,
+    };
+    const sources = [this.#f, this.#u, this.#rho, this.#mask];
+    if (this.#hasForceField) sources.push(this.#forceField);
+    const [f, u, rho, mask, forceField] = await this.#readBuffers(
+      sources.map((buffer) => ({ buffer, size: buffer.size }))
+    );
+    return encodeCheckpoint({
+      Nx: meta.Nx,
+      Ny: meta.Ny,
+      Q: this.#Q,
+      tick: meta.tick,
+      parity,
+      savedAt: new Date().toISOString(),
+      params,
+      f: new Uint8Array(f),
+      u: new Uint8Array(u),
+      rho: new Uint8Array(rho),
+      mask: new Uint32Array(mask),
+      forceField: forceField ? new Float32Array(forceField) : null,
+    });
+  };
+
+  /**
+   * Restores a checkpoint of the same grid size exactly (including the
+   * Esoteric Pull parity). The run state is kept; a stopped simulation
+   * renders the restored field once.
+   */
+  loadCheckpoint = (data: ArrayBuffer | Uint8Array | Checkpoint): void => {
+    if (!this.#f || this.#disposed) {
+      throw new Error("LBM is not initialized or already disposed.");
+    }
+    const ck =
+      data instanceof ArrayBuffer || data instanceof Uint8Array
+        ? decodeCheckpoint(data)
+        : data;
+    if (ck.Nx !== this.#Nx || ck.Ny !== this.#Ny || ck.Q !== this.#Q) {
+      throw new Error(
+        `Checkpoint is ${ck.Nx} × ${ck.Ny}, the simulation ${this.#Nx} × ${
+          this.#Ny
+        }.`
+      );
+    }
+    const C = this.#cellCount;
+    const p = ck.params;
+    // everything that can throw comes first: a bad file leaves the run as it was
+    if (!Object.values(CollisionOperators).includes(p.collision)) {
+      throw new Error(`Checkpoint has an unknown collision ${p.collision}.`);
+    }
+    if (!(p.tau > 0.5)) throw new Error(`Checkpoint has tau ${p.tau} <= 0.5.`);
+    const units = p.units ? new UnitSystem(p.units) : null;
+    const inletProfile = { ...(p.inletProfile ?? DEFAULT_INLET_PROFILE) };
+    const inletModulation = structuredClone(
+      p.inletModulation ?? DEFAULT_INLET_MODULATION
+    );
+    validateInlet(inletProfile, inletModulation);
+    if (p.edges) validateEdges(p.edges);
+    const moving = (p.movingObstacles ?? []).map(({ id, obstacle, under }) => {
+      validateObstacle(obstacle);
+      return {
+        id,
+        current: obstacle,
+        cells: this.#obstacleCells(obstacle),
+        under: new Map(under),
+      };
+    });
+
+    const queue = this.#gpu.device.queue;
+    // saved from the (4 byte padded) GPU buffers, so sizes line up
+    for (const [dst, src] of [
+      [this.#f, ck.f],
+      [this.#u, ck.u],
+      [this.#rho, ck.rho],
+    ] as const) {
+      const size = Math.min(dst.size, src.byteLength) & ~3;
+      queue.writeBuffer(dst, 0, src.buffer, src.byteOffset, size);
+    }
+    this.setMask(ck.mask);
+    // moving obstacles continue where they were (setMask stopped them)
+    for (const entry of moving) this.#movingObstacles.set(entry.current, entry);
+    this.#wallMotions.clear();
+    for (const { id, ...w } of p.wallMotions ?? []) {
+      this.#wallMotions.set(id, w);
+    }
+    this.#writeWallTable();
+    // the checkpoint replaces any scenario; the mask already has the edges,
+    // only the settings follow
+    const edges = p.edges ?? this.edges;
+    const edgeVelocity = p.edges ? p.edgeVelocity ?? {} : this.edgeVelocity;
+    this.#scenario = null;
+    this.#edges = { ...edges };
+    this.#edgeVelocity = { ...edgeVelocity };
+    const initial = p.initial ?? { rho: 1, ux: 0, uy: 0 };
+    this.#initial = { rho0: initial.rho, u0x: initial.ux, u0y: initial.uy };
+
+    this.#units = units;
+    this.#tau = p.tau;
+    this.#omega = 1 / p.tau;
+    this.#inletUx = p.inletUx;
+    this.#inletUy = p.inletUy;
+    this.#inletProfile = inletProfile;
+    this.#inletModulation = inletModulation;
+    this.#writeInletFactors();
+    this.#rhoIn = p.rhoIn;
+    this.#rhoOut = p.rhoOut;
+    this.#forceX = p.forceX;
+    this.#forceY = p.forceY;
+    this.#trtMagic = p.trtMagic;
+    this.#mrtRates = { ...p.mrtRates };
+    this.#les = p.les;
+    this.#smagorinsky = p.smagorinsky;
+    this.setCollision(p.collision);
+    if (ck.forceField) {
+      this.setForceField(
+        ck.forceField.subarray(0, C),
+        ck.forceField.subarray(C, 2 * C)
+      );
+    } else {
+      this.clearForceField();
+    }
+    this.#writeParams();
+
+    this.#parity = ck.parity;
+    this.#tick = ck.tick;
+    this.#lastCheckTick = ck.tick;
+    this.#generation++; // drop checks of the replaced state
+    this.#instability = null;
+    if (this.#state === "stopped") this.#render();
+  };
+
+  /** Cell flags as currently used by the GPU (see CELL). */
+  readMask = async (): Promise<MaskField> => {
+    const meta = this.#fieldMeta();
+    const [mask] = await this.#readBuffers([
+      { buffer: this.#mask, size: this.#mask.size },
+    ]);
+    return { ...meta, mask: new Uint32Array(mask) };
+  };
+
+  /** Replaces the whole mask (u32 per cell, row-major). */
+  setMask = (mask: Uint32Array): void => {
+    if (mask.length !== this.#cellCount) {
+      throw new Error(
+        `Mask has ${mask.length} cells, expected ${this.#cellCount}.`
+      );
+    }
+    this.#maskCPU = new Uint32Array(mask);
+    this.#gpu.device.queue.writeBuffer(this.#mask, 0, this.#maskCPU.buffer);
+    // obstacles stop animating; their cells keep moving as walls
+    this.#movingObstacles.clear();
+    this.#placedObstacles.clear();
+    this.#freshCells = [];
+    this.#maskCPU.forEach((m, cell) => {
+      if (m & CELL.FRESH) this.#freshCells.push(cell);
+    });
+    this.#writeInletFactors();
+    this.#writeStreamlineSeeds();
+    this.#writeTracerSources();
+  };
+
+  /** Back to the scenario's mask and wall motions (placed obstacles go). */
   resetMask = (): void => {
-    this.#maskCPU = this.#getMaskData();
+    this.#applyMask(this.#getMaskData());
+  };
+
+  #applyMask = (mask: Uint32Array): void => {
+    this.#maskCPU = mask;
     this.#gpu.device.queue.writeBuffer(this.#mask, 0, this.#maskCPU.buffer);
+    this.#placedObstacles.clear();
+    this.#rebuildWallMotions();
+    this.#writeWallTable();
+    this.#writeStepUniform();
+    this.#writeInletFactors();
+    this.#writeStreamlineSeeds();
+    this.#writeTracerSources();
   };
 
   applyMaskRows(
     rows: Array<{ y: number; x0: number; x1: number }>,
     value: number
   ) {
+    // painted cells belong to the user: erasing an obstacle keeps them
+    this.#writeMaskRows(rows, value, true);
+  }
+
+  #writeMaskRows = (
+    rows: Array<{ y: number; x0: number; x1: number }>,
+    value: number,
+    paint = false
+  ): void => {
     if (!rows.length) return;
 
     // merge per row to minimize GPU writes
@@ -580,24 +2567,278 @@ export class LBM {
     for (const [y, seg] of perRow) {
       const { x0, x1 } = seg;
       const off = y * this.#Nx;
-      for (let x = x0; x <= x1; x++) this.#maskCPU[off + x] = value;
-
-      // start = y * Nx + x0
-      // count = x1 - x0 + 1
-      const start = y * this.#Nx + x0;
-      const count = x1 - x0 + 1;
-
-      const dstByteOffset = start * 4; // u32 -> 4 bytes
-      const srcByteOffset = start * 4; // where the span starts in the CPU buffer
-      const byteSize = count * 4;
-
-      this.#gpu.device.queue.writeBuffer(
-        this.#mask, // destination GPUBuffer
-        dstByteOffset, // where to write in GPU buffer (bytes)
-        this.#maskCPU.buffer, // source ArrayBuffer
-        srcByteOffset, // where to read from (bytes)
-        byteSize // how many bytes to copy
-      );
+      for (let x = x0; x <= x1; x++) {
+        this.#maskCPU[off + x] = value;
+        if (paint) this.#disownCell(off + x);
+      }
+      this.#uploadMaskRange(off + x0, x1 - x0 + 1);
     }
-  }
+  };
+
+  #disownCell = (cell: number): void => {
+    for (const placed of this.#placedObstacles.values()) {
+      placed.under.delete(cell);
+    }
+  };
+
+  /** Like applyMaskRows, but keeps several spans per row apart. */
+  applyMaskSpans = (spans: RowSpan[], value: number): void => {
+    writeSpans(spans, value, (rows, v) => this.applyMaskRows(rows, v));
+  };
+
+  /**
+   * Rasterizes a parametric obstacle (see geometry.ts) into the mask. With a
+   * `motion` it becomes a moving wall with its own wall motion table entry
+   * (and, if it animates, moves every step); `value` is ignored then.
+   */
+  placeObstacle = (o: Obstacle, value: number = CELL.SOLID): void => {
+    validateObstacle(o);
+    if (!o.motion) {
+      let placed = this.#placedObstacles.get(o);
+      if (!placed) {
+        placed = { value, under: new Map() };
+        for (const cell of this.#obstacleCells(o)) {
+          placed.under.set(cell, this.#maskCPU[cell]);
+        }
+        this.#placedObstacles.set(o, placed);
+      }
+      const spans = obstacleSpans(o, this.#Nx, this.#Ny);
+      writeSpans(spans, placed.value, this.#writeMaskRows);
+      return;
+    }
+    const placed = this.#movingObstacles.get(o);
+    if (placed) {
+      // placed before: redraw it where it is now
+      const changed = new CellRange();
+      for (const cell of placed.cells) {
+        this.#maskCPU[cell] = movingWall(placed.id);
+        changed.add(cell);
+      }
+      changed.upload(this.#uploadMaskRange);
+      return;
+    }
+    const id = this.#allocWallMotion();
+    const entry: MovingObstacle = {
+      id,
+      current: o,
+      cells: this.#obstacleCells(o),
+      under: new Map(),
+    };
+    for (const cell of entry.cells) entry.under.set(cell, this.#maskCPU[cell]);
+    this.#movingObstacles.set(o, entry);
+    this.#setObstacleMotion(entry);
+    const spans = obstacleSpans(o, this.#Nx, this.#Ny);
+    writeSpans(spans, movingWall(id), this.#writeMaskRows);
+    this.#writeStepUniform();
+  };
+
+  /**
+   * Undoes placeObstacle: the cells that still hold its value get back what
+   * was there before it was placed. Walls painted since and obstacles placed
+   * later stay; the latter cover what was under this one instead. A moving
+   * obstacle is erased where it is now.
+   */
+  eraseObstacle = (o: Obstacle): void => {
+    const placed = this.#placedObstacles.get(o);
+    if (placed) {
+      this.#erasePlaced(o, placed);
+      return;
+    }
+    const moving = this.#movingObstacles.get(o);
+    if (!moving) return;
+    const base = this.#getMaskData();
+    const wall = movingWall(moving.id);
+    const statics = [...this.#placedObstacles.values()];
+    const changed = new CellRange();
+    for (const cell of moving.cells) {
+      const m = moving.under.get(cell) ?? base[cell];
+      // a static obstacle placed on top covers what was under this one
+      const top = statics.find(({ under }) => under.get(cell) === wall);
+      if (top) {
+        top.under.set(cell, m);
+      } else {
+        this.#maskCPU[cell] = m;
+        changed.add(cell);
+      }
+    }
+    changed.upload(this.#uploadMaskRange);
+    this.#movingObstacles.delete(o);
+    this.#wallMotions.delete(moving.id);
+    this.#writeWallTable();
+    this.#writeStepUniform();
+  };
+
+  #erasePlaced = (o: Obstacle, placed: PlacedObstacle): void => {
+    // under-maps of the obstacles placed after it, then the moving ones
+    const above: Array<Map<number, number>> = [];
+    let after = false;
+    for (const [other, p] of this.#placedObstacles) {
+      if (after) above.push(p.under);
+      after ||= other === o;
+    }
+    for (const entry of this.#movingObstacles.values()) above.push(entry.under);
+    this.#placedObstacles.delete(o);
+
+    const changed = new CellRange();
+    for (const [cell, m] of placed.under) {
+      const top = above.find((under) => under.has(cell));
+      if (top) {
+        if (top.get(cell) === placed.value) top.set(cell, m);
+      } else if (this.#maskCPU[cell] === placed.value) {
+        this.#maskCPU[cell] = m;
+        changed.add(cell);
+      }
+    }
+    changed.upload(this.#uploadMaskRange);
+  };
+
+  // ---------- moving walls ----------
+
+  // wall motions of the edges and scenario obstacles; placed ones are dropped
+  #rebuildWallMotions = (): void => {
+    this.#wallMotions.clear();
+    this.#movingObstacles.clear();
+    this.#freshCells = [];
+    this.#setEdgeMotions(this.edges, this.edgeVelocity);
+    this.#scenario?.obstacles.forEach((o, i) => {
+      if (!o.motion) return;
+      const entry: MovingObstacle = {
+        id: obstacleMotionId(i),
+        current: o,
+        cells: this.#obstacleCells(o),
+        under: new Map(), // uncovered cells become fluid
+      };
+      this.#setObstacleMotion(entry);
+      if (o.motion.animate) this.#movingObstacles.set(o, entry);
+    });
+  };
+
+  #setEdgeMotions = (
+    edges: Record<Edge, EdgeBoundary>,
+    velocity: Partial<Record<Edge, number>>
+  ): void => {
+    for (let id = 1; id < FIRST_OBSTACLE_MOTION_ID; id++) {
+      this.#wallMotions.delete(id);
+    }
+    for (const [id, motion] of edgeWallMotions(edges, velocity)) {
+      this.#wallMotions.set(id, motion);
+    }
+  };
+
+  #setObstacleMotion = ({ id, current }: MovingObstacle): void => {
+    const [cx, cy] = obstacleCenter(current, this.#Ny);
+    const { ux, uy, omega } = current.motion!;
+    this.#wallMotions.set(id, { ux, uy, omega, cx, cy });
+  };
+
+  // lowest table entry not used by an edge, scenario obstacle or placed one
+  #allocWallMotion = (): number => {
+    const first = obstacleMotionId(this.#scenario?.obstacles.length ?? 0);
+    for (let id = first; id < MAX_WALL_MOTIONS; id++) {
+      if (!this.#wallMotions.has(id)) return id;
+    }
+    throw new Error(`At most ${MAX_WALL_MOTIONS - first} moving obstacles.`);
+  };
+
+  #obstacleCells = (o: Obstacle): Set<number> => {
+    const cells = new Set<number>();
+    for (const { y, x0, x1 } of obstacleSpans(o, this.#Nx, this.#Ny)) {
+      for (let x = x0; x <= x1; x++) cells.add(y * this.#Nx + x);
+    }
+    return cells;
+  };
+
+  #writeWallTable = (): void => {
+    if (!this.#wallTable) return;
+    const table = new Float32Array(MAX_WALL_MOTIONS * 8);
+    for (const [id, w] of this.#wallMotions) {
+      table.set([w.ux, w.uy, w.omega, w.cx, w.cy], id * 8);
+    }
+    this.#gpu.device.queue.writeBuffer(this.#wallTable, 0, table);
+  };
+
+  // profile factors follow the inlet cells of the current mask
+  #writeInletFactors = (): void => {
+    if (!this.#inletFactors) return;
+    const factors = inletProfileFactors(
+      this.#inletProfile,
+      this.#maskCPU,
+      this.#Nx,
+      this.#Ny
+    );
+    this.#gpu.device.queue.writeBuffer(this.#inletFactors, 0, factors);
+  };
+
+  /**
+   * Moves the animated obstacles by one step. Cells they leave become FRESH
+   * for one step (equilibrium at the wall velocity), cells they cover become
+   * moving walls; the mask values they covered are restored when uncovered.
+   */
+  #advanceObstacles = (): void => {
+    const changed = new CellRange();
+    for (const cell of this.#freshCells) {
+      if (this.#maskCPU[cell] & CELL.FRESH) {
+        this.#maskCPU[cell] = CELL.FLUID;
+        changed.add(cell);
+      }
+    }
+    this.#freshCells = [];
+
+    let moved = false;
+    for (const entry of this.#movingObstacles.values()) {
+      if (!entry.current.motion?.animate) continue;
+      moved = true;
+      const next = advanceObstacle(entry.current);
+      const cells = this.#obstacleCells(next);
+      for (const cell of entry.cells) {
+        if (cells.has(cell)) continue;
+        const m = entry.under.get(cell) ?? CELL.FLUID;
+        entry.under.delete(cell);
+        if (m === CELL.FLUID) {
+          this.#maskCPU[cell] = freshCell(entry.id);
+          this.#freshCells.push(cell);
+        } else {
+          this.#maskCPU[cell] = m;
+        }
+        changed.add(cell);
+      }
+      for (const cell of cells) {
+        if (entry.cells.has(cell)) continue;
+        entry.under.set(cell, this.#maskCPU[cell]);
+        this.#maskCPU[cell] = movingWall(entry.id);
+        changed.add(cell);
+      }
+      entry.current = next;
+      entry.cells = cells;
+      this.#setObstacleMotion(entry);
+    }
+    changed.upload(this.#uploadMaskRange);
+    if (moved) this.#writeWallTable(); // new centres of rotation
+  };
+
+  // copies count cells of #maskCPU from cell index start to the GPU
+  #uploadMaskRange = (start: number, count: number): void => {
+    this.#gpu.device.queue.writeBuffer(
+      this.#mask, // destination GPUBuffer
+      start * 4, // where to write in GPU buffer (bytes, u32 per cell)
+      this.#maskCPU.buffer, // source ArrayBuffer
+      start * 4, // where to read from (bytes)
+      count * 4 // how many bytes to copy
+    );
+  };
+}
+
+// bounding range of changed mask cells, uploaded in one write
+class CellRange {
+  #lo = Infinity;
+  #hi = -1;
+
+  add = (cell: number): void => {
+    this.#lo = Math.min(this.#lo, cell);
+    this.#hi = Math.max(this.#hi, cell);
+  };
+
+  upload = (write: (start: number, count: number) => void): void => {
+    if (this.#hi >= this.#lo) write(this.#lo, this.#hi - this.#lo + 1);
+  };
 }
@@ -94,6 +94,23 @@ export class CanvasPainter {
     this.#flush(true);
   }
 
+  /**
+   * Detach all listeners and drop pending (not yet emitted) paint work.
+   * Unlike disable(), nothing is flushed to the paint callback.
+   */
+  destroy() {
+    if (this.#raf) {
+      cancelAnimationFrame(this.#raf);
+      this.#raf = 0;
+    }
+    this.#pending = [];
+    this.#pendingVal = null;
+    this.disable();
+    this.#isDrawing = false;
+    this.#lastCell = null;
+    this.#circleCache.clear();
+  }
+
   // --- pointer handlers ---
 
   #onPointerDown(e: PointerEvent) {
@@ -0,0 +1,307 @@
+// Versioned binary checkpoints of the full simulation state, plus IndexedDB storage.
+//
+// Layout (little-endian):
+//   "WLBMCKPT"       8 bytes magic
+//   version          u32
+//   header length    u32 (bytes, multiple of 4)
+//   header           UTF-8 JSON (CheckpointHeader), space padded
+//   sections         raw GPU buffer contents in header.sections order,
+//                    each padded to a multiple of 4 bytes
+import type { CollisionOperator, MRTRates } from "./collision";
+import type { Obstacle } from "./geometry";
+import type { InletModulation, InletProfile } from "./inlet";
+import { CELL, Normals, withNormal, type WallMotion } from "./mask";
+import type { Edge, EdgeBoundary } from "./scenario";
+import type { UnitInput } from "./units";
+
+const MAGIC = "WLBMCKPT";
+// 2: outlet cells have their own flag, 3: edges and moving obstacles
+export const CHECKPOINT_VERSION = 3;
+export const CHECKPOINT_EXTENSION = ".wlbm";
+
+/** Physical parameters needed to continue a run bit-exactly. */
+export interface CheckpointParams {
+  tau: number;
+  inletUx: number;
+  inletUy: number;
+  rhoIn: number;
+  rhoOut: number;
+  forceX: number;
+  forceY: number;
+  collision: CollisionOperator;
+  trtMagic: number;
+  mrtRates: MRTRates;
+  les: boolean;
+  smagorinsky: number;
+  /** Unit system input (viscosity form), null without one. */
+  units: UnitInput | null;
+  /** Used wall motion table entries (moving walls in the mask). */
+  wallMotions?: Array<WallMotion & { id: number }>;
+  /** Inlet velocity profile and time modulation (uniform, constant if absent). */
+  inletProfile?: InletProfile;
+  inletModulation?: InletModulation;
+  /** Domain edges and the speed of moving ones (the current edges if absent). */
+  edges?: Record<Edge, EdgeBoundary>;
+  edgeVelocity?: Partial<Record<Edge, number>>;
+  /** Obstacles that move with the flow, at their current geometry. */
+  movingObstacles?: CheckpointObstacle[];
+  /** Uniform state a restart resets to (rho 1 at rest if absent). */
+  initial?: { rho: number; ux: number; uy: number };
+}
+
+export interface CheckpointObstacle {
+  /** Wall motion table entry of its cells. */
+  id: number;
+  obstacle: Obstacle;
+  /** Mask values of the cells it covers, restored when it moves away. */
+  under: Array<[number, number]>;
+}
+
+type SectionName = "f" | "u" | "rho" | "mask" | "forceField";
+
+interface CheckpointHeader {
+  Nx: number;
+  Ny: number;
+  Q: number;
+  tick: number;
+  parity: 0 | 1;
+  savedAt: string; // ISO date
+  params: CheckpointParams;
+  sections: Array<{ name: SectionName; byteLength: number }>;
+}
+
+export interface Checkpoint extends Omit<CheckpointHeader, "sections"> {
+  version: number;
+  /** FP16s DDFs in Esoteric Pull storage order (as on the GPU). */
+  f: Uint8Array;
+  /** FP16s global fields of the last step (the outlet reads global_u). */
+  u: Uint8Array;
+  rho: Uint8Array;
+  mask: Uint32Array;
+  /** Per-cell force, Fx plane then Fy plane; null if none was set. */
+  forceField: Float32Array | null;
+}
+
+const pad4 = (n: number) => (n + 3) & ~3;
+
+export function encodeCheckpoint(
+  ck: Omit<Checkpoint, "version">
+): Uint8Array<ArrayBuffer> {
+  const data: Record<SectionName, Uint8Array | null> = {
+    f: ck.f,
+    u: ck.u,
+    rho: ck.rho,
+    mask: bytesOf(ck.mask),
+    forceField: ck.forceField && bytesOf(ck.forceField),
+  };
+  const sections: CheckpointHeader["sections"] = [];
+  for (const name of ["f", "u", "rho", "mask", "forceField"] as const) {
+    const bytes = data[name];
+    if (bytes) sections.push({ name, byteLength: bytes.byteLength });
+  }
+
+  const header: CheckpointHeader = {
+    Nx: ck.Nx,
+    Ny: ck.Ny,
+    Q: ck.Q,
+    tick: ck.tick,
+    parity: ck.parity,
+    savedAt: ck.savedAt,
+    params: ck.params,
+    sections,
+  };
+  const json = new TextEncoder().encode(JSON.stringify(header));
+  const headerBytes = pad4(json.length);
+
+  let size = 16 + headerBytes;
+  for (const s of sections) size += pad4(s.byteLength);
+  const out = new Uint8Array(size);
+  const dv = new DataView(out.buffer);
+
+  out.set(new TextEncoder().encode(MAGIC), 0);
+  dv.setUint32(8, CHECKPOINT_VERSION, true);
+  dv.setUint32(12, headerBytes, true);
+  out.fill(0x20, 16, 16 + headerBytes); // JSON tolerates trailing spaces
+  out.set(json, 16);
+
+  let o = 16 + headerBytes;
+  for (const s of sections) {
+    out.set(data[s.name]!, o);
+    o += pad4(s.byteLength);
+  }
+  return out;
+}
+
+/** Reads the header only (e.g. to pick the grid size before loading). */
+export function peekCheckpoint(
+  data: ArrayBuffer | Uint8Array
+): Omit<Checkpoint, "f" | "u" | "rho" | "mask" | "forceField"> {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  const { version, header } = readHeader(bytes);
+  const { sections: _sections, ...rest } = header;
+  return { version, ...rest };
+}
+
+export function decodeCheckpoint(data: ArrayBuffer | Uint8Array): Checkpoint {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  const { version, header, offset } = readHeader(bytes);
+  const { sections, ...rest } = header;
+
+  const C = header.Nx * header.Ny;
+  const found: Partial<Record<SectionName, Uint8Array>> = {};
+  let o = offset;
+  for (const s of sections) {
+    if (o + s.byteLength > bytes.length) {
+      throw new Error(`Checkpoint truncated in section "${s.name}".`);
+    }
+    // copy: typed views need aligned, exclusive buffers
+    found[s.name] = bytes.slice(o, o + s.byteLength);
+    o += pad4(s.byteLength);
+  }
+
+  const expect = (name: SectionName, min: number) => {
+    const s = found[name];
+    if (!s || s.byteLength < min) {
+      throw new Error(`Checkpoint section "${name}" is missing or too small.`);
+    }
+    return s;
+  };
+  const f = expect("f", header.Q * C * 2);
+  const u = expect("u", 2 * C * 2);
+  const rho = expect("rho", C * 2);
+  const mask = new Uint32Array(expect("mask", C * 4).buffer, 0, C);
+  if (version < 2) migrateOutletColumn(mask, header.Nx);
+  const forceField = found.forceField
+    ? new Float32Array(expect("forceField", 2 * C * 4).buffer, 0, 2 * C)
+    : null;
+
+  return { version, ...rest, f, u, rho, mask, forceField };
+}
+
+function readHeader(bytes: Uint8Array) {
+  const magic = new TextDecoder().decode(bytes.subarray(0, 8));
+  if (bytes.length < 16 || magic !== MAGIC) {
+    throw new Error("Not a WebLBM checkpoint.");
+  }
+  const dv = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const version = dv.getUint32(8, true);
+  if (version > CHECKPOINT_VERSION) {
+    throw new Error(`Unsupported checkpoint version ${version}.`);
+  }
+  const headerBytes = dv.getUint32(12, true);
+  if (16 + headerBytes > bytes.length) throw new Error("Checkpoint truncated.");
+  const json = new TextDecoder().decode(bytes.subarray(16, 16 + headerBytes));
+  const header = JSON.parse(json) as CheckpointHeader;
+  return { version, header, offset: 16 + headerBytes };
+}
+
+// v1 masks marked the outlet as EQ cells in the right-hand column
+function migrateOutletColumn(mask: Uint32Array, Nx: number): void {
+  const outlet = withNormal(CELL.OUTLET, Normals.WEST);
+  for (let cell = Nx - 1; cell < mask.length; cell += Nx) {
+    if (mask[cell] === CELL.EQ) mask[cell] = outlet;
+  }
+}
+
+function bytesOf(a: ArrayBufferView): Uint8Array {
+  return new Uint8Array(a.buffer, a.byteOffset, a.byteLength);
+}
+
+// ---------- IndexedDB ----------
+
+const DB_NAME = "weblbm";
+const DB_VERSION = 1;
+const META_STORE = "checkpoint-meta"; // small records for listing
+const DATA_STORE = "checkpoint-data"; // encoded checkpoints
+
+export interface StoredCheckpoint {
+  name: string;
+  savedAt: string;
+  Nx: number;
+  Ny: number;
+  tick: number;
+  byteLength: number;
+}
+
+function openDB(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      if (!db.objectStoreNames.contains(META_STORE)) {
+        db.createObjectStore(META_STORE, { keyPath: "name" });
+      }
+      if (!db.objectStoreNames.contains(DATA_STORE)) {
+        db.createObjectStore(DATA_STORE);
+      }
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+// runs `fn` in one transaction and resolves with its request result on commit
+async function transact<T>(
+  stores: string[],
+  mode: IDBTransactionMode,
+  fn: (tx: IDBTransaction) => IDBRequest<T> | void
+): Promise<T | undefined> {
+  const db = await openDB();
+  try {
+    return await new Promise<T | undefined>((resolve, reject) => {
+      const tx = db.transaction(stores, mode);
+      const req = fn(tx);
+      tx.oncomplete = () => resolve(req ? req.result : undefined);
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+/** Stores an encoded checkpoint under `name` (overwrites). */
+export async function storeCheckpoint(
+  name: string,
+  data: Uint8Array
+): Promise<StoredCheckpoint> {
+  const head = peekCheckpoint(data);
+  const meta: StoredCheckpoint = {
+    name,
+    savedAt: head.savedAt,
+    Nx: head.Nx,
+    Ny: head.Ny,
+    tick: head.tick,
+    byteLength: data.byteLength,
+  };
+  await transact([META_STORE, DATA_STORE], "readwrite", (tx) => {
+    tx.objectStore(META_STORE).put(meta);
+    tx.objectStore(DATA_STORE).put(data, name);
+  });
+  return meta;
+}
+
+/** Stored checkpoints, newest first. */
+export async function listStoredCheckpoints(): Promise<StoredCheckpoint[]> {
+  const all = await transact<StoredCheckpoint[]>(
+    [META_STORE],
+    "readonly",
+    (tx) => tx.objectStore(META_STORE).getAll()
+  );
+  return (all ?? []).sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+}
+
+export async function loadStoredCheckpoint(name: string): Promise<Uint8Array> {
+  const data = await transact<Uint8Array>([DATA_STORE], "readonly", (tx) =>
+    tx.objectStore(DATA_STORE).get(name)
+  );
+  if (!data) throw new Error(`No stored checkpoint "${name}".`);
+  return data;
+}
+
+export async function deleteStoredCheckpoint(name: string): Promise<void> {
+  await transact([META_STORE, DATA_STORE], "readwrite", (tx) => {
+    tx.objectStore(META_STORE).delete(name);
+    tx.objectStore(DATA_STORE).delete(name);
+  });
+}
@@ -0,0 +1,43 @@
+// Collision operators shared by the GPU (step.wgsl pipeline variants) and CPU solvers.
+// Must match the COLLISION_* constants in step.wgsl.
+export const CollisionOperators = {
+  BGK: 0, // single relaxation time
+  TRT: 1, // two relaxation times (Ginzburg)
+  MRT: 2, // D2Q9 multiple relaxation times (Lallemand & Luo, 2000)
+} as const;
+export type CollisionOperator =
+  (typeof CollisionOperators)[keyof typeof CollisionOperators];
+
+/**
+ * Free MRT relaxation rates (the shear rate is omega).
+ * e: energy, eps: energy squared, q: energy flux.
+ */
+export interface MRTRates {
+  sE: number;
+  sEps: number;
+  sQ: number;
+}
+
+export const DEFAULT_MRT_RATES: Readonly<MRTRates> = {
+  sE: 1.64,
+  sEps: 1.54,
+  sQ: 1.9,
+};
+
+/** 3/16 places bounce-back walls exactly halfway for Poiseuille flow. */
+export const DEFAULT_TRT_MAGIC = 3 / 16;
+
+/**
+ * TRT anti-symmetric rate from the symmetric one (omega+ = omega) and the
+ * magic parameter: Lambda = (1/omega+ - 1/2) * (1/omega- - 1/2).
+ */
+export function trtOmegaMinus(omegaPlus: number, magic: number): number {
+  return 1 / (magic / (1 / omegaPlus - 0.5) + 0.5);
+}
+
+/**
+ * Smagorinsky constant Cs of the LES subgrid model; the eddy viscosity is
+ * nu_t = (Cs * dx)^2 * |S|, with the strain rate |S| taken from the
+ * non-equilibrium momentum flux (no finite differences needed).
+ */
+export const DEFAULT_SMAGORINSKY = 0.1;
@@ -0,0 +1,109 @@
+import {
+  getColormap,
+  sampleColormap,
+  type Colormap,
+  type VisColormap,
+} from "./colormaps";
+
+const BAR_HEIGHT = 240; // css px
+
+/** Vertical legend of the visualization: colormap, range ticks and a title. */
+export class Colorbar {
+  #root: HTMLDivElement;
+  #title: HTMLDivElement;
+  #bar: HTMLCanvasElement;
+  #ticks: HTMLDivElement;
+  #colormap: Colormap | null = null; // drawn one (replaced maps are new objects)
+
+  constructor(parent: HTMLElement) {
+    this.#root = document.createElement("div");
+    this.#root.className =
+      "absolute right-3 top-1/2 -translate-y-1/2 flex flex-col items-center gap-2 bg-gray-800/80 text-white text-xs p-2 rounded-lg pointer-events-none";
+    this.#title = document.createElement("div");
+    this.#title.className = "font-medium text-gray-300";
+
+    const body = document.createElement("div");
+    body.className = "flex gap-1";
+    this.#ticks = document.createElement("div");
+    this.#ticks.className = "relative min-w-[3.5rem]";
+    this.#ticks.style.height = `${BAR_HEIGHT}px`;
+    this.#bar = document.createElement("canvas");
+    this.#bar.width = 1;
+    this.#bar.height = 256;
+    this.#bar.className = "w-4 rounded-sm border border-gray-600";
+    this.#bar.style.height = `${BAR_HEIGHT}px`;
+    body.append(this.#ticks, this.#bar);
+
+    this.#root.append(this.#title, body);
+    parent.appendChild(this.#root);
+  }
+
+  update(opts: {
+    min: number;
+    max: number;
+    colormap: VisColormap;
+    title: string;
+  }): void {
+    this.#title.textContent = opts.title;
+    const cmap = getColormap(opts.colormap);
+    if (cmap !== this.#colormap) this.#drawBar(cmap);
+
+    const { min, max } = opts;
+    const { ticks, step } = niceTicks(min, max);
+    this.#ticks.replaceChildren(
+      ...ticks.map((v) => {
+        const label = document.createElement("span");
+        label.className = "absolute right-0 translate-y-1/2 whitespace-nowrap";
+        label.style.bottom = `${((v - min) / (max - min)) * 100}%`;
+        label.textContent = `${formatTick(v, step)} –`;
+        return label;
+      })
+    );
+  }
+
+  setVisible(visible: boolean): void {
+    this.#root.classList.toggle("hidden", !visible);
+  }
+
+  destroy(): void {
+    this.#root.remove();
+  }
+
+  #drawBar(colormap: Colormap): void {
+    this.#colormap = colormap;
+    const ctx = this.#bar.getContext("2d");
+    if (!ctx) return;
+    const img = ctx.createImageData(1, 256);
+    for (let i = 0; i < 256; i++) {
+      const [r, g, b] = sampleColormap(colormap.name, 1 - i / 255); // max on top
+      img.data.set([255 * r, 255 * g, 255 * b, 255], i * 4);
+    }
+    ctx.putImageData(img, 0, 0);
+  }
+}
+
+// about `count` round values (1, 2, 5 × 10^k apart) inside [min, max]
+function niceTicks(
+  min: number,
+  max: number,
+  count = 5
+): { ticks: number[]; step: number } {
+  const raw = (max - min) / count;
+  if (!(raw > 0) || !Number.isFinite(raw)) return { ticks: [min], step: 1 };
+  const mag = 10 ** Math.floor(Math.log10(raw));
+  const norm = raw / mag;
+  const step = (norm < 1.5 ? 1 : norm < 3.5 ? 2 : norm < 7.5 ? 5 : 10) * mag;
+  const ticks: number[] = [];
+  for (let k = Math.ceil(min / step); k * step <= max + step * 1e-9; k++) {
+    ticks.push(k * step);
+  }
+  return { ticks, step };
+}
+
+function formatTick(v: number, step: number): string {
+  if (Math.abs(v) < step * 1e-6) return "0"; // avoid "-0" and 1e-19 residue
+  if (step >= 1e-3 && step < 1e4) {
+    return v.toFixed(Math.max(0, -Math.floor(Math.log10(step))));
+  }
+  return v.toExponential(1);
+}
@@ -0,0 +1,265 @@
+// Colormap registry. Every colormap is resampled to a 256-entry RGBA8 LUT; the
+// active one is uploaded to the GPU (render_compute.wgsl interpolates linearly
+// between entries) and the host samples the same LUT (color bar, CPU fallback).
+
+export const VisColormaps = {
+  TURBO: "turbo",
+  VIRIDIS: "viridis",
+  MAGMA: "magma",
+  INFERNO: "inferno",
+  COOLWARM: "coolwarm", // diverging, the default for signed fields
+  RDBU: "rdbu", // diverging
+  GRAYSCALE: "grayscale",
+} as const;
+/** Name of a registered colormap (built-in or imported). */
+export type VisColormap = string;
+
+export const COLORMAP_SIZE = 256;
+
+/** A colormap as imported from JSON: colors spread evenly or at positions. */
+export interface ColormapDefinition {
+  name: string;
+  label?: string;
+  /** Centred on a neutral color, for signed fields. */
+  diverging?: boolean;
+  /** CSS hex colors ("#rrggbb" or "#rgb"), optionally [position 0..1, color]. */
+  colors: Array<string | [number, string]>;
+}
+
+export interface Colormap {
+  name: VisColormap;
+  label: string;
+  diverging: boolean;
+  /** COLORMAP_SIZE RGBA8 entries (u32 per entry on the GPU). */
+  lut: Uint8Array<ArrayBuffer>;
+}
+
+type RGB = readonly [number, number, number];
+
+const registry = new Map<VisColormap, Colormap>();
+let builtIns: ReadonlySet<VisColormap> = new Set(); // filled after the built-ins
+
+/** Adds (or replaces) a colormap sampled from `color(t)`, t in [0, 1]. */
+function registerSampled(
+  name: VisColormap,
+  label: string,
+  diverging: boolean,
+  color: (t: number) => RGB
+): Colormap {
+  const lut = new Uint8Array(COLORMAP_SIZE * 4);
+  for (let i = 0; i < COLORMAP_SIZE; i++) {
+    const rgb = color(i / (COLORMAP_SIZE - 1));
+    for (let k = 0; k < 3; k++) {
+      lut[i * 4 + k] = Math.round(255 * Math.min(1, Math.max(0, rgb[k])));
+    }
+    lut[i * 4 + 3] = 255;
+  }
+  const cmap = { name, label, diverging, lut };
+  registry.set(name, cmap);
+  return cmap;
+}
+
+/**
+ * Registers a gradient colormap (see parseColormap); returns it. Replaces an
+ * earlier import of the same name; built-in names are rejected.
+ */
+export function registerColormap(def: ColormapDefinition): Colormap {
+  if (builtIns.has(def.name)) {
+    throw new Error(`Colormap "${def.name}" is built in, pick another name.`);
+  }
+  const n = def.colors.length;
+  const stops = def.colors.map((c, i): [number, RGB] =>
+    typeof c === "string"
+      ? [n > 1 ? i / (n - 1) : 0, hexColor(c)]
+      : [c[0], hexColor(c[1])]
+  );
+  stops.sort((a, b) => a[0] - b[0]);
+  return registerSampled(
+    def.name,
+    def.label ?? def.name,
+    def.diverging ?? false,
+    (t) => gradient(stops, t)
+  );
+}
+
+export function getColormap(name: VisColormap): Colormap {
+  const cmap = registry.get(name);
+  if (!cmap) throw new Error(`Unknown colormap "${name}".`);
+  return cmap;
+}
+
+/** Registered colormaps in registration order (built-ins first, Turbo the default). */
+export function listColormaps(): Colormap[] {
+  return [...registry.values()];
+}
+
+/**
+ * Color (0..1 per channel) at t in [0, 1], interpolated between LUT entries
+ * like colorize() in render_compute.wgsl.
+ */
+export function sampleColormap(name: VisColormap, t: number): RGB {
+  const lut = getColormap(name).lut;
+  const x = Math.min(1, Math.max(0, t)) * (COLORMAP_SIZE - 1);
+  const i = Math.floor(x);
+  const j = Math.min(i + 1, COLORMAP_SIZE - 1);
+  const f = x - i;
+  const at = (k: number) =>
+    (lut[i * 4 + k] + (lut[j * 4 + k] - lut[i * 4 + k]) * f) / 255;
+  return [at(0), at(1), at(2)];
+}
+
+/**
+ * Parses and validates a colormap file, e.g.
+ * { "name": "ocean", "colors": ["#000033", "#0066cc", "#ffffff"] }.
+ * Use registerColormap() to make it available.
+ */
+export function parseColormap(json: string): ColormapDefinition {
+  const def = JSON.parse(json) as ColormapDefinition;
+  if (typeof def?.name !== "string" || !def.name.trim()) {
+    throw new Error('Colormap lacks a "name".');
+  }
+  if (!Array.isArray(def.colors) || def.colors.length < 2) {
+    throw new Error('Colormap needs at least two "colors".');
+  }
+  for (const c of def.colors) {
+    if (Array.isArray(c) && !(c[0] >= 0 && c[0] <= 1)) {
+      throw new Error(`Colormap position ${c[0]} is outside 0..1.`);
+    }
+    hexColor(Array.isArray(c) ? c[1] : c); // throws on malformed colors
+  }
+  return def;
+}
+
+/** "#rrggbb" or "#rgb" as 0..1 channels; throws on anything else. */
+export function hexColor(hex: string): RGB {
+  const m = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(String(hex).trim());
+  if (!m) throw new Error(`"${hex}" is not a hex color.`);
+  const digits =
+    m[1].length === 3 ? [...m[1]].map((d) => d + d).join("") : m[1];
+  const v = parseInt(digits, 16);
+  return [(v >> 16) / 255, ((v >> 8) & 0xff) / 255, (v & 0xff) / 255];
+}
+
+// piecewise linear between sorted stops, constant outside
+function gradient(stops: Array<[number, RGB]>, t: number): RGB {
+  if (t <= stops[0][0]) return stops[0][1];
+  for (let k = 1; k < stops.length; k++) {
+    const [t1, c1] = stops[k];
+    if (t > t1) continue;
+    const [t0, c0] = stops[k - 1];
+    const f = t1 > t0 ? (t - t0) / (t1 - t0) : 1;
+    return [
+      c0[0] + (c1[0] - c0[0]) * f,
+      c0[1] + (c1[1] - c0[1]) * f,
+      c0[2] + (c1[2] - c0[2]) * f,
+    ];
+  }
+  return stops[stops.length - 1][1];
+}
+
+// polynomial fits of the reference maps: coefficients c0, c1, ... per channel
+function polynomial(c: ReadonlyArray<RGB>): (t: number) => RGB {
+  return (t) => {
+    const channel = (k: number) =>
+      c.reduceRight((acc, ck) => acc * t + ck[k], 0);
+    return [channel(0), channel(1), channel(2)];
+  };
+}
+
+// ---------- built-ins ----------
+
+// Turbo (Mikhailov, 2019)
+registerSampled(
+  VisColormaps.TURBO,
+  "Turbo",
+  false,
+  polynomial([
+    [0.13572138, 0.09140261, 0.1066733],
+    [4.6153926, 2.19418839, 12.64194608],
+    [-42.66032258, 4.84296658, -60.58204836],
+    [132.13108234, -14.18503333, 110.36276771],
+    [-152.94239396, 4.27729857, -89.90310912],
+    [59.28637943, 2.82956604, 27.34824973],
+  ])
+);
+
+registerSampled(
+  VisColormaps.VIRIDIS,
+  "Viridis",
+  false,
+  polynomial([
+    [0.2777273272234177, 0.005407344544966578, 0.3340998053353061],
+    [0.1050930431085774, 1.404613529898575, 1.384590162594685],
+    [-0.3308618287255563, 0.214847559468213, 0.09509516302823659],
+    [-4.634230498983486, -5.799100973351585, -19.33244095627987],
+    [6.228269936347081, 14.17993336680509, 56.69055260068105],
+    [4.776384997670288, -13.74514537774601, -65.35303263337234],
+    [-5.435455855934631, 4.645852612178535, 26.3124352495832],
+  ])
+);
+
+registerSampled(
+  VisColormaps.MAGMA,
+  "Magma",
+  false,
+  polynomial([
+    [-0.002136485053939582, -0.000749655052795221, -0.005386127855323933],
+    [0.2516605407371642, 0.6775232436837668, 2.494026599312351],
+    [8.353717279216625, -3.577719514958484, 0.3144679030132573],
+    [-27.66873308576866, 14.26473078096533, -13.64921318813922],
+    [52.17613981234068, -27.94360607168351, 12.94416944238394],
+    [-50.76852536473588, 29.04658282127291, 4.23415299384598],
+    [18.65570506591883, -11.48977351997711, -5.601961508734096],
+  ])
+);
+
+registerSampled(
+  VisColormaps.INFERNO,
+  "Inferno",
+  false,
+  polynomial([
+    [0.0002189403691192265, 0.001651004631001012, -0.01948089843709184],
+    [0.1065134194856116, 0.5639564367884091, 3.932712388889277],
+    [11.60249308247187, -3.972853965665698, -15.9423941062914],
+    [-41.70399613139459, 17.43639888205313, 44.35414519872813],
+    [77.162935699427, -33.40235894210092, -81.80730925738993],
+    [-71.31942824499214, 32.62606426397723, 73.20951985803202],
+    [25.13112622477341, -12.24266895238567, -23.07032500287172],
+  ])
+);
+
+// Moreland (2009): blue - grey - red
+registerColormap({
+  name: VisColormaps.COOLWARM,
+  label: "Coolwarm",
+  diverging: true,
+  colors: ["#3b4cc0", "#8db0fe", "#dddddd", "#f49a7b", "#b40426"],
+});
+
+// ColorBrewer RdBu, blue for positive values like matplotlib's RdBu
+registerColormap({
+  name: VisColormaps.RDBU,
+  label: "RdBu",
+  diverging: true,
+  colors: [
+    "#67001f",
+    "#b2182b",
+    "#d6604d",
+    "#f4a582",
+    "#fddbc7",
+    "#f7f7f7",
+    "#d1e5f0",
+    "#92c5de",
+    "#4393c3",
+    "#2166ac",
+    "#053061",
+  ],
+});
+
+registerColormap({
+  name: VisColormaps.GRAYSCALE,
+  label: "Grayscale",
+  colors: ["#000000", "#ffffff"],
+});
+
+builtIns = new Set(registry.keys());
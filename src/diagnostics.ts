@@ -0,0 +1,68 @@
+// Stability check flags, must match the DIAG_* constants in diagnostics.wgsl.
+export const DIAG = {
+  NAN: 1 << 0, // NaN/Inf density or velocity
+  NEGATIVE_RHO: 1 << 1,
+  MACH: 1 << 2,
+} as const;
+
+export type InstabilityReason = "nan" | "negative-density" | "mach";
+
+/** Mach number above which the run is considered diverging. */
+export const DEFAULT_MACH_THRESHOLD = 0.5;
+
+/** First failure found by a stability check. */
+export interface InstabilityReport {
+  /** Tick of the checked state (the failure happened at or before it). */
+  tick: number;
+  reasons: InstabilityReason[];
+  /** Lattice coordinates of the lowest failing cell (row-major). */
+  x: number;
+  y: number;
+  /** Number of failing cells. */
+  cells: number;
+  /** Largest finite Mach number in the domain. */
+  maxMach: number;
+}
+
+// words: flags, count, firstCell, maxMach bits (struct Report)
+const NO_CELL = 0xffffffff;
+export const REPORT_BYTES = 16;
+export const REPORT_CLEAR = new Uint32Array([0, 0, NO_CELL, 0]);
+
+/** Decodes the report buffer; null if the state is healthy. */
+export function decodeReport(
+  words: Uint32Array,
+  Nx: number,
+  tick: number
+): InstabilityReport | null {
+  const [flags, count, firstCell] = words;
+  if (flags === 0 || firstCell === NO_CELL) return null;
+
+  const reasons: InstabilityReason[] = [];
+  if (flags & DIAG.NAN) reasons.push("nan");
+  if (flags & DIAG.NEGATIVE_RHO) reasons.push("negative-density");
+  if (flags & DIAG.MACH) reasons.push("mach");
+
+  return {
+    tick,
+    reasons,
+    x: firstCell % Nx,
+    y: Math.floor(firstCell / Nx),
+    cells: count,
+    maxMach: new Float32Array(words.buffer, words.byteOffset + 12, 1)[0],
+  };
+}
+
+const REASON_TEXT: Record<InstabilityReason, string> = {
+  nan: "NaN/Inf values",
+  "negative-density": "negative density",
+  mach: "Mach number above the limit",
+};
+
+/** One-line, human readable summary of a report. */
+export function describeInstability(r: InstabilityReport): string {
+  const what = r.reasons.map((k) => REASON_TEXT[k]).join(", ");
+  const where = `${r.cells} cell(s), first at (${r.x}, ${r.y})`;
+  const mach = r.maxMach.toFixed(3);
+  return `Simulation diverged at tick ${r.tick}: ${what} in ${where}. Max Mach ${mach}.`;
+}
@@ -0,0 +1,357 @@
+// Field export for post-processing (ParaView: legacy VTK, Python: .npy/.npz, CSV).
+import { isWall } from "./mask";
+import type { UnitSystem } from "./units";
+
+export const ExportFormats = {
+  VTK: "vtk", // legacy ASCII structured points
+  CSV: "csv",
+  NPZ: "npz", // zip of .npy arrays (numpy.load)
+  NPY: "npy", // single stacked array
+} as const;
+export type ExportFormat = (typeof ExportFormats)[keyof typeof ExportFormats];
+
+export type ExportUnits = "lattice" | "si";
+
+/** Snapshot of the exported fields, row-major (Ny, Nx) with y = 0 the bottom row. */
+export interface ExportFields {
+  Nx: number;
+  Ny: number;
+  tick: number;
+  units: ExportUnits;
+  dx: number; // grid spacing (1 in lattice units, [m] in SI)
+  dt: number; // time step (1 in lattice units, [s] in SI)
+  rho: Float32Array; // lattice density (dimensionless in both unit modes)
+  ux: Float32Array; // [dx/dt] or [m/s]
+  uy: Float32Array;
+  vorticity: Float32Array; // dUy/dx - dUx/dy, [1/dt] or [1/s]
+  mask: Uint32Array; // CELL flags
+}
+
+// the stacked .npy keeps this order
+const FIELD_NAMES = ["rho", "ux", "uy", "vorticity", "mask"] as const;
+
+/**
+ * z-vorticity with central differences (one-sided next to solids and the
+ * domain edges). Solid cells get 0.
+ */
+export function computeVorticity(
+  ux: ArrayLike<number>,
+  uy: ArrayLike<number>,
+  Nx: number,
+  Ny: number,
+  mask?: ArrayLike<number>,
+  out = new Float32Array(Nx * Ny)
+): Float32Array {
+  const solid = (c: number) => !!mask && isWall(mask[c]);
+  for (let y = 0; y < Ny; y++) {
+    for (let x = 0; x < Nx; x++) {
+      const c = y * Nx + x;
+      if (solid(c)) {
+        out[c] = 0;
+        continue;
+      }
+      // fall back to the cell itself where a neighbour is missing or solid
+      const xm = x > 0 && !solid(c - 1) ? c - 1 : c;
+      const xp = x < Nx - 1 && !solid(c + 1) ? c + 1 : c;
+      const ym = y > 0 && !solid(c - Nx) ? c - Nx : c;
+      const yp = y < Ny - 1 && !solid(c + Nx) ? c + Nx : c;
+      const hx = xp - xm || 1; // 0, 1 or 2 cells apart
+      const hy = (yp - ym) / Nx || 1;
+      out[c] = (uy[xp] - uy[xm]) / hx - (ux[yp] - ux[ym]) / hy;
+    }
+  }
+  return out;
+}
+
+/**
+ * Builds an export snapshot from lattice fields. Solid cells report rho = 1,
+ * u = 0. With `units` the velocity and vorticity are converted to SI.
+ */
+export function buildExportFields(
+  src: {
+    Nx: number;
+    Ny: number;
+    tick: number;
+    rho: Float32Array;
+    ux: Float32Array;
+    uy: Float32Array;
+    mask: Uint32Array;
+  },
+  units: UnitSystem | null = null
+): ExportFields {
+  const { Nx, Ny, mask } = src;
+  const C = Nx * Ny;
+  const rho = new Float32Array(src.rho);
+  const ux = new Float32Array(src.ux);
+  const uy = new Float32Array(src.uy);
+  for (let c = 0; c < C; c++) {
+    if (!isWall(mask[c])) continue;
+    rho[c] = 1;
+    ux[c] = uy[c] = 0;
+  }
+  const vorticity = computeVorticity(ux, uy, Nx, Ny, mask);
+
+  if (units) {
+    const velocityScale = units.dx / units.dt;
+    for (let c = 0; c < C; c++) {
+      ux[c] *= velocityScale;
+      uy[c] *= velocityScale;
+      vorticity[c] /= units.dt;
+    }
+  }
+
+  return {
+    Nx,
+    Ny,
+    tick: src.tick,
+    units: units ? "si" : "lattice",
+    dx: units ? units.dx : 1,
+    dt: units ? units.dt : 1,
+    rho,
+    ux,
+    uy,
+    vorticity,
+    mask: new Uint32Array(mask),
+  };
+}
+
+// one-line description shared by all headers
+function describe(s: ExportFields): string {
+  const u = s.units === "si";
+  return [
+    `WebLBM D2Q9 tick=${s.tick} Nx=${s.Nx} Ny=${s.Ny}`,
+    `units=${s.units} dx=${s.dx}${u ? "m" : ""} dt=${s.dt}${u ? "s" : ""}`,
+    `velocity=${u ? "m/s" : "lattice"} vorticity=${u ? "1/s" : "1/dt"}`,
+    "rho=lattice",
+  ].join(" ");
+}
+
+// ---------- legacy VTK ----------
+
+/**
+ * Legacy ASCII VTK structured points (cell values as point data), as text
+ * chunks of one grid row each: large grids exceed the maximum string length.
+ */
+export function toVTK(s: ExportFields): string[] {
+  const { Nx, Ny } = s;
+  const chunks = [
+    [
+      "# vtk DataFile Version 3.0",
+      describe(s), // title line, max. 256 characters
+      "ASCII",
+      "DATASET STRUCTURED_POINTS",
+      `DIMENSIONS ${Nx} ${Ny} 1`,
+      "ORIGIN 0 0 0",
+      `SPACING ${s.dx} ${s.dx} ${s.dx}`,
+      `POINT_DATA ${Nx * Ny}`,
+      "",
+    ].join("\n"),
+  ];
+  const rows = (line: (c: number) => string) => {
+    for (let y = 0; y < Ny; y++) {
+      const row = new Array<string>(Nx);
+      for (let x = 0; x < Nx; x++) row[x] = line(y * Nx + x);
+      chunks.push(row.join("\n") + "\n");
+    }
+  };
+  const scalars = (name: string, type: string, data: ArrayLike<number>) => {
+    chunks.push(`SCALARS ${name} ${type} 1\nLOOKUP_TABLE default\n`);
+    rows((c) => String(data[c]));
+  };
+  scalars("rho", "float", s.rho);
+  chunks.push("VECTORS velocity float\n");
+  rows((c) => `${s.ux[c]} ${s.uy[c]} 0`);
+  scalars("vorticity", "float", s.vorticity);
+  scalars("mask", "int", s.mask);
+  return chunks;
+}
+
+// ---------- CSV ----------
+
+/**
+ * One row per cell: x, y (cell centres in dx units), then the fields. Text
+ * chunks of one grid row each, as for toVTK.
+ */
+export function toCSV(s: ExportFields): string[] {
+  const chunks = [`# ${describe(s)}\nx,y,${FIELD_NAMES.join(",")}\n`];
+  for (let y = 0; y < s.Ny; y++) {
+    const row = new Array<string>(s.Nx);
+    for (let x = 0; x < s.Nx; x++) {
+      const c = y * s.Nx + x;
+      const px = (x + 0.5) * s.dx;
+      const py = (y + 0.5) * s.dx;
+      row[x] = [px, py, ...FIELD_NAMES.map((k) => s[k][c])].join(",");
+    }
+    chunks.push(row.join("\n") + "\n");
+  }
+  return chunks;
+}
+
+// ---------- NumPy ----------
+
+/** .npy (format 1.0), little-endian float32/uint32/float64, C order. */
+export function toNpy(
+  data: Float32Array | Uint32Array | Float64Array,
+  shape: number[]
+): Uint8Array<ArrayBuffer> {
+  const descr =
+    data instanceof Float32Array
+      ? "<f4"
+      : data instanceof Uint32Array
+      ? "<u4"
+      : "<f8";
+  const dims = shape.length === 1 ? `${shape[0]},` : shape.join(", ");
+  let header = `{'descr': '${descr}', 'fortran_order': False, 'shape': (${dims}), }`;
+  // magic (6) + version (2) + header length (2) + header + \n, padded to 64
+  const total = Math.ceil((10 + header.length + 1) / 64) * 64;
+  header = header.padEnd(total - 10 - 1, " ") + "\n";
+
+  const out = new Uint8Array(total + data.byteLength);
+  out.set([0x93, ...ascii("NUMPY"), 1, 0], 0);
+  new DataView(out.buffer).setUint16(8, header.length, true);
+  out.set(ascii(header), 10);
+  out.set(new Uint8Array(data.buffer, data.byteOffset, data.byteLength), total);
+  return out;
+}
+
+/** .npz: one (Ny, Nx) array per field plus scalar metadata arrays. */
+export function toNpz(s: ExportFields): Uint8Array<ArrayBuffer> {
+  const shape = [s.Ny, s.Nx];
+  const meta = (v: number) => toNpy(new Float64Array([v]), []);
+  return zipStore([
+    ...FIELD_NAMES.map((name) => ({
+      name: `${name}.npy`,
+      data: toNpy(s[name], shape),
+    })),
+    { name: "dx.npy", data: meta(s.dx) },
+    { name: "dt.npy", data: meta(s.dt) },
+    { name: "tick.npy", data: meta(s.tick) },
+    { name: "header.txt", data: ascii(describe(s)) },
+  ]);
+}
+
+/** Single .npy with shape (5, Ny, Nx): rho, ux, uy, vorticity, mask. */
+export function toStackedNpy(s: ExportFields): Uint8Array<ArrayBuffer> {
+  const C = s.Nx * s.Ny;
+  const stacked = new Float32Array(FIELD_NAMES.length * C);
+  FIELD_NAMES.forEach((name, k) => stacked.set(s[name], k * C));
+  return toNpy(stacked, [FIELD_NAMES.length, s.Ny, s.Nx]);
+}
+
+// ---------- zip (stored, no compression) ----------
+
+let CRC_TABLE: Uint32Array | null = null;
+function crc32(data: Uint8Array): number {
+  if (!CRC_TABLE) {
+    CRC_TABLE = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      CRC_TABLE[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function zipStore(files: Array<{ name: string; data: Uint8Array }>) {
+  const parts: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const { name, data } of files) {
+    const nameBytes = ascii(name);
+    const crc = crc32(data);
+
+    const local = new Uint8Array(30 + nameBytes.length);
+    const lv = new DataView(local.buffer);
+    lv.setUint32(0, 0x04034b50, true); // local file header signature
+    lv.setUint16(4, 20, true); // version needed
+    lv.setUint16(12, 0x21, true); // DOS date 1980-01-01
+    lv.setUint32(14, crc, true);
+    lv.setUint32(18, data.length, true); // compressed size
+    lv.setUint32(22, data.length, true); // uncompressed size
+    lv.setUint16(26, nameBytes.length, true);
+    local.set(nameBytes, 30);
+
+    const entry = new Uint8Array(46 + nameBytes.length);
+    const cv = new DataView(entry.buffer);
+    cv.setUint32(0, 0x02014b50, true); // central directory signature
+    cv.setUint16(4, 20, true); // version made by
+    cv.setUint16(6, 20, true); // version needed
+    cv.setUint16(14, 0x21, true);
+    cv.setUint32(16, crc, true);
+    cv.setUint32(20, data.length, true);
+    cv.setUint32(24, data.length, true);
+    cv.setUint16(28, nameBytes.length, true);
+    cv.setUint32(42, offset, true); // local header offset
+    entry.set(nameBytes, 46);
+
+    parts.push(local, data);
+    central.push(entry);
+    offset += local.length + data.length;
+  }
+
+  const centralSize = central.reduce((n, e) => n + e.length, 0);
+  const end = new Uint8Array(22);
+  const ev = new DataView(end.buffer);
+  ev.setUint32(0, 0x06054b50, true); // end of central directory signature
+  ev.setUint16(8, files.length, true);
+  ev.setUint16(10, files.length, true);
+  ev.setUint32(12, centralSize, true);
+  ev.setUint32(16, offset, true);
+
+  return concatBytes([...parts, ...central, end]);
+}
+
+function concatBytes(chunks: Uint8Array[]): Uint8Array<ArrayBuffer> {
+  const out = new Uint8Array(chunks.reduce((n, c) => n + c.length, 0));
+  let o = 0;
+  for (const c of chunks) {
+    out.set(c, o);
+    o += c.length;
+  }
+  return out;
+}
+
+function ascii(text: string): Uint8Array {
+  return new TextEncoder().encode(text);
+}
+
+// ---------- download ----------
+
+/** Encodes a snapshot; the Blob type matches the format. */
+export function encodeFields(s: ExportFields, format: ExportFormat): Blob {
+  switch (format) {
+    case ExportFormats.VTK:
+      return new Blob(toVTK(s), { type: "text/plain" });
+    case ExportFormats.CSV:
+      return new Blob(toCSV(s), { type: "text/csv" });
+    case ExportFormats.NPZ:
+      return new Blob([toNpz(s)], { type: "application/zip" });
+    case ExportFormats.NPY:
+      return new Blob([toStackedNpy(s)], {
+        type: "application/octet-stream",
+      });
+  }
+}
+
+export function exportFileName(s: ExportFields, format: ExportFormat): string {
+  return `weblbm_${s.Nx}x${s.Ny}_t${s.tick}.${format}`;
+}
+
+/** Triggers a browser download of `blob`. */
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  // revoke after the download has been picked up
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
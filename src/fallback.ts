@@ -0,0 +1,113 @@
+import { CanvasPainter } from "./canvas";
+import { sampleColormap, VisColormaps } from "./colormaps";
+import { CPULBM } from "./CPULBM";
+import { CELL, isOpenBoundary, isZouHe } from "./mask";
+
+// colormap lookup like colorize in render_compute.wgsl
+function turbo(t: number, out: Uint8ClampedArray, o: number) {
+  const [r, g, b] = sampleColormap(VisColormaps.TURBO, t);
+  out[o] = 255 * r;
+  out[o + 1] = 255 * g;
+  out[o + 2] = 255 * b;
+  out[o + 3] = 255;
+}
+
+/**
+ * Runs the CPU reference solver on a small grid and draws |u| into a 2D canvas.
+ * Used when WebGPU is unavailable. Returns false if the canvas has no 2D context
+ * (e.g. it was already bound to a "webgpu" context).
+ */
+export function startCPUFallback(
+  canvas: HTMLCanvasElement,
+  reason: unknown,
+  opts: { Nx?: number; Ny?: number; frameBudgetMs?: number } = {}
+): boolean {
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return false;
+
+  const Nx = opts.Nx ?? 128;
+  const Ny = opts.Ny ?? 128;
+  const frameBudgetMs = opts.frameBudgetMs ?? 12;
+
+  const sim = new CPULBM(Nx, Ny, { storage: "f32" });
+
+  // lattice-sized image, scaled up onto the canvas
+  const img = new ImageData(Nx, Ny);
+  const off = document.createElement("canvas");
+  off.width = Nx;
+  off.height = Ny;
+  const offCtx = off.getContext("2d")!;
+
+  const painter = new CanvasPainter({
+    canvas,
+    Nx,
+    Ny,
+    onPaint: (rows, value) => sim.applyMaskRows(rows, value),
+  });
+  painter.enable();
+
+  document.getElementById("settings")?.classList.add("hidden");
+  showNotice(reason, Nx, Ny);
+
+  const resize = () => {
+    const cssSide = Math.min(window.innerWidth, window.innerHeight);
+    const dpr = Math.max(1, window.devicePixelRatio || 1);
+    canvas.style.width = canvas.style.height = `${cssSide}px`;
+    canvas.width = Math.floor(cssSide * dpr);
+    canvas.height = Math.floor(cssSide * dpr);
+  };
+  window.addEventListener("resize", resize);
+  resize();
+
+  const draw = () => {
+    const { ux, uy } = sim.readMacroscopic();
+    const mask = sim.mask;
+    const px = img.data;
+    for (let y = 0; y < Ny; y++) {
+      // flip Y: lattice y=0 is bottom
+      const row = (Ny - 1 - y) * Nx;
+      for (let x = 0; x < Nx; x++) {
+        const cell = y * Nx + x;
+        const o = (row + x) * 4;
+        const m = mask[cell];
+        if (m & CELL.SOLID) {
+          px[o] = px[o + 1] = px[o + 2] = 26; // dark gray solids
+          px[o + 3] = 255;
+        } else if (m & CELL.SLIP) {
+          px[o] = px[o + 1] = px[o + 2] = 89; // light gray free-slip walls
+          px[o + 3] = 255;
+        } else if (isOpenBoundary(m) || isZouHe(m)) {
+          px[o] = 255; // red inlets/outlets
+          px[o + 1] = px[o + 2] = 0;
+          px[o + 3] = 255;
+        } else {
+          turbo(Math.hypot(ux[cell], uy[cell]) / 0.05, px, o);
+        }
+      }
+    }
+    offCtx.putImageData(img, 0, 0);
+    ctx.imageSmoothingEnabled = true;
+    ctx.drawImage(off, 0, 0, canvas.width, canvas.height);
+  };
+
+  const frame = () => {
+    const t0 = performance.now();
+    do sim.step();
+    while (performance.now() - t0 < frameBudgetMs);
+    draw();
+    requestAnimationFrame(frame);
+  };
+  requestAnimationFrame(frame);
+  return true;
+}
+
+function showNotice(reason: unknown, Nx: number, Ny: number) {
+  const msg =
+    reason instanceof Error ? reason.message : String(reason ?? "unknown");
+  const note = document.createElement("div");
+  note.setAttribute("role", "status");
+  note.className =
+    "absolute top-3 left-3 max-w-sm bg-gray-800/80 text-white text-sm p-3 rounded-lg";
+  note.textContent = `WebGPU unavailable (${msg}). Running the CPU reference solver at ${Nx} × ${Ny}.`;
+  (document.getElementById("wrapper") ?? document.body).appendChild(note);
+}
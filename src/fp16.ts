@@ -0,0 +1,71 @@
+// CPU-side mirror of the FP16s storage helpers in common.wgsl.
+// DDFs (and the global rho/u fields) are stored as f16(v * 2^15) on the GPU.
+
+export const FP16S_SCALE = 32768.0; // 2^15
+export const FP16S_INV_SCALE = 1.0 / 32768.0; // 2^-15
+
+const f32 = new Float32Array(1);
+const u32 = new Uint32Array(f32.buffer);
+
+/**
+ * Convert a number to IEEE 754 binary16 bits (round to nearest, ties to even).
+ * Overflow saturates to ±Infinity, NaN stays NaN.
+ */
+export function toHalfBits(v: number): number {
+  f32[0] = v;
+  const x = u32[0];
+  const sign = (x >>> 16) & 0x8000;
+  const exp = (x >>> 23) & 0xff;
+  let mant = x & 0x7fffff;
+
+  if (exp === 0xff) return sign | 0x7c00 | (mant ? 0x200 : 0); // Inf / NaN
+
+  const e = exp - 127 + 15; // re-bias
+  if (e >= 0x1f) return sign | 0x7c00; // overflow -> Inf
+
+  if (e <= 0) {
+    // subnormal half (or zero)
+    if (e < -10) return sign;
+    mant |= 0x800000; // implicit leading 1
+    const shift = 14 - e;
+    let half = mant >>> shift;
+    const rem = mant & ((1 << shift) - 1);
+    const halfway = 1 << (shift - 1);
+    if (rem > halfway || (rem === halfway && half & 1)) half++;
+    return sign | half;
+  }
+
+  let half = (e << 10) | (mant >>> 13);
+  const rem = mant & 0x1fff;
+  if (rem > 0x1000 || (rem === 0x1000 && half & 1)) half++; // may carry into exponent (correct)
+  return sign | half;
+}
+
+/** Convert IEEE 754 binary16 bits back to a number. */
+export function fromHalfBits(h: number): number {
+  const sign = h & 0x8000 ? -1 : 1;
+  const exp = (h >>> 10) & 0x1f;
+  const mant = h & 0x3ff;
+  if (exp === 0) return sign * mant * 2 ** -24;
+  if (exp === 0x1f) return mant ? NaN : sign * Infinity;
+  return sign * (1 + mant / 1024) * 2 ** (exp - 15);
+}
+
+/** pack_f16s: upscale + pack */
+export function packF16s(v: number): number {
+  return toHalfBits(v * FP16S_SCALE);
+}
+
+/** decode_f16s: unpack + downscale */
+export function decodeF16s(h: number): number {
+  return fromHalfBits(h) * FP16S_INV_SCALE;
+}
+
+/** Decode a whole array of FP16s values (e.g. a GPU readback) into f32. */
+export function decodeF16sArray(
+  src: Uint16Array,
+  out = new Float32Array(src.length)
+): Float32Array {
+  for (let i = 0; i < src.length; i++) out[i] = decodeF16s(src[i]);
+  return out;
+}
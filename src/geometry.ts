@@ -0,0 +1,495 @@
+// Parametric benchmark obstacles, rasterized into lattice row spans.
+// Coordinates are lattice cells with y = 0 the bottom row; cell (x, y) is
+// solid when its centre lies inside the shape.
+import type { RowSpan } from "./canvas";
+
+export const ObstacleKinds = {
+  AIRFOIL: "airfoil",
+  RECTANGLE: "rectangle",
+  STEP: "step",
+  CYLINDERS: "cylinders",
+  POROUS: "porous",
+} as const;
+export type ObstacleKind = (typeof ObstacleKinds)[keyof typeof ObstacleKinds];
+
+/** NACA 4-digit airfoil, placed by its mid-chord point. */
+export interface AirfoilObstacle {
+  kind: "airfoil";
+  naca: string; // e.g. "0012", "2412"
+  cx: number;
+  cy: number;
+  chord: number;
+  /** Angle of attack in degrees, positive nose up (flow in +x). */
+  angle: number;
+}
+
+export interface RectangleObstacle {
+  kind: "rectangle";
+  cx: number;
+  cy: number;
+  width: number;
+  height: number;
+  /** Counter-clockwise rotation in degrees. */
+  angle: number;
+}
+
+/** Backward-facing step: a block in the bottom-left corner. */
+export interface StepObstacle {
+  kind: "step";
+  length: number;
+  height: number;
+}
+
+/** Regular (optionally staggered) array of circular cylinders. */
+export interface CylinderArrayObstacle {
+  kind: "cylinders";
+  /** Centre of the array. */
+  cx: number;
+  cy: number;
+  rows: number;
+  cols: number;
+  radius: number;
+  /** Centre-to-centre distance. */
+  spacing: number;
+  /** Shift every other column by half a spacing. */
+  staggered: boolean;
+}
+
+/** Random overlapping discs filling a band of columns up to a porosity. */
+export interface PorousObstacle {
+  kind: "porous";
+  x0: number;
+  x1: number;
+  /** Target fluid fraction of the band, 0..1. */
+  porosity: number;
+  radius: number;
+  seed: number;
+}
+
+/** Rigid-body motion of an obstacle, lattice units. */
+export interface ObstacleMotion {
+  ux: number;
+  uy: number;
+  /** Angular velocity in rad per step, counter-clockwise about obstacleCenter. */
+  omega: number;
+  /**
+   * Move the geometry every step. Without it only the wall velocity is
+   * imposed, e.g. for a rotating cylinder or a conveyor belt.
+   */
+  animate: boolean;
+}
+
+export type Obstacle = (
+  | AirfoilObstacle
+  | RectangleObstacle
+  | StepObstacle
+  | CylinderArrayObstacle
+  | PorousObstacle
+) & {
+  /** Makes the obstacle a moving wall; absent for a resting one. */
+  motion?: ObstacleMotion;
+};
+
+/** Sensible defaults for a Nx × Ny channel. */
+export function defaultObstacle(
+  kind: ObstacleKind,
+  Nx: number,
+  Ny: number
+): Obstacle {
+  const cx = Math.floor(Nx / 4);
+  const cy = Math.floor(Ny / 2);
+  switch (kind) {
+    case "airfoil":
+      return {
+        kind,
+        naca: "0012",
+        cx,
+        cy,
+        chord: Math.round(Ny / 3),
+        angle: 5,
+      };
+    case "rectangle":
+      return {
+        kind,
+        cx,
+        cy,
+        width: Math.round(Ny / 8),
+        height: Math.round(Ny / 8),
+        angle: 0,
+      };
+    case "step":
+      return { kind, length: Math.round(Nx / 8), height: Math.round(Ny / 2) };
+    case "cylinders": {
+      const spacing = Math.round(Ny / 5);
+      return {
+        kind,
+        cx,
+        cy,
+        rows: 3,
+        cols: 3,
+        radius: Math.round(spacing / 4),
+        spacing,
+        staggered: true,
+      };
+    }
+    case "porous":
+      return {
+        kind,
+        x0: Math.round(Nx / 4),
+        x1: Math.round(Nx / 2),
+        porosity: 0.8,
+        radius: Math.max(2, Math.round(Ny / 60)),
+        seed: 1,
+      };
+  }
+}
+
+/** Short label, e.g. for a list of placed obstacles. */
+export function describeObstacle(o: Obstacle): string {
+  switch (o.kind) {
+    case "airfoil":
+      return `NACA ${o.naca} at (${o.cx}, ${o.cy}), α ${o.angle}°`;
+    case "rectangle":
+      return `Rectangle ${o.width} × ${o.height} at (${o.cx}, ${o.cy})`;
+    case "step":
+      return `Step ${o.length} × ${o.height}`;
+    case "cylinders":
+      return `Cylinders ${o.cols} × ${o.rows}, r ${o.radius}`;
+    case "porous":
+      return `Porous x ${o.x0}..${o.x1}, φ ${o.porosity}`;
+  }
+}
+
+/**
+ * Throws unless the obstacle is of a known kind with usable parameters (e.g.
+ * from a shared scenario file).
+ */
+export function validateObstacle(o: Obstacle): void {
+  const finite = (...keys: string[]) => {
+    for (const key of keys) {
+      const v = (o as unknown as Record<string, unknown>)[key];
+      if (typeof v !== "number" || !Number.isFinite(v)) {
+        throw new Error(`Obstacle ${o.kind}: "${key}" must be a number.`);
+      }
+    }
+  };
+  const positive = (key: string, v: number) => {
+    if (!(v > 0)) throw new Error(`Obstacle ${o.kind}: "${key}" must be > 0.`);
+  };
+  const count = (key: string, v: number) => {
+    if (!Number.isInteger(v) || v < 1) {
+      throw new Error(`Obstacle ${o.kind}: "${key}" must be an integer ≥ 1.`);
+    }
+  };
+  switch (o?.kind) {
+    case "airfoil":
+      if (typeof o.naca !== "string" || !/^\d{4}$/.test(o.naca)) {
+        throw new Error(`"${o.naca}" is not a NACA 4-digit code.`);
+      }
+      finite("cx", "cy", "chord", "angle");
+      positive("chord", o.chord);
+      break;
+    case "rectangle":
+      finite("cx", "cy", "width", "height", "angle");
+      positive("width", o.width);
+      positive("height", o.height);
+      break;
+    case "step":
+      finite("length", "height");
+      positive("length", o.length);
+      positive("height", o.height);
+      break;
+    case "cylinders":
+      finite("cx", "cy", "rows", "cols", "radius", "spacing");
+      count("rows", o.rows);
+      count("cols", o.cols);
+      positive("radius", o.radius);
+      break;
+    case "porous":
+      finite("x0", "x1", "porosity", "radius", "seed");
+      positive("radius", o.radius);
+      if (!(o.porosity >= 0 && o.porosity <= 1)) {
+        throw new Error('Obstacle porous: "porosity" must be within 0..1.');
+      }
+      break;
+    default:
+      throw new Error(
+        `Unknown obstacle kind "${(o as { kind?: unknown })?.kind}".`
+      );
+  }
+  if (o.motion !== undefined) {
+    const { ux, uy, omega } = o.motion ?? {};
+    if (![ux, uy, omega].every(Number.isFinite)) {
+      throw new Error(`Obstacle ${o.kind}: motion needs finite ux, uy, omega.`);
+    }
+  }
+}
+
+/** Solid cells of the obstacle as row spans (possibly several per row). */
+export function obstacleSpans(o: Obstacle, Nx: number, Ny: number): RowSpan[] {
+  switch (o.kind) {
+    case "airfoil": {
+      const pts = nacaProfile(o.naca).map(([x, y]) => [
+        (x - 0.5) * o.chord,
+        y * o.chord,
+      ]);
+      // nose up = clockwise for flow in +x
+      return polygonSpans(transform(pts, o.cx, o.cy, -o.angle), Nx, Ny);
+    }
+    case "rectangle": {
+      const w = o.width / 2;
+      const h = o.height / 2;
+      const pts = [
+        [-w, -h],
+        [w, -h],
+        [w, h],
+        [-w, h],
+      ];
+      return polygonSpans(transform(pts, o.cx, o.cy, o.angle), Nx, Ny);
+    }
+    case "step":
+      return boxSpans(0, 0, o.length - 1, o.height - 1, Nx, Ny);
+    case "cylinders": {
+      const spans: RowSpan[] = [];
+      const x0 = o.cx - ((o.cols - 1) * o.spacing) / 2;
+      const y0 = o.cy - ((o.rows - 1) * o.spacing) / 2;
+      for (let i = 0; i < o.cols; i++) {
+        const shift = o.staggered && i % 2 ? o.spacing / 2 : 0;
+        for (let j = 0; j < o.rows; j++) {
+          const x = x0 + i * o.spacing;
+          const y = y0 + j * o.spacing + shift;
+          spans.push(...circleSpans(x, y, o.radius, Nx, Ny));
+        }
+      }
+      return spans;
+    }
+    case "porous":
+      return porousSpans(o, Nx, Ny);
+  }
+}
+
+/** Centre of rotation of the obstacle (cells). */
+export function obstacleCenter(o: Obstacle, Ny: number): [number, number] {
+  switch (o.kind) {
+    case "airfoil":
+    case "rectangle":
+    case "cylinders":
+      return [o.cx, o.cy];
+    case "step":
+      return [(o.length - 1) / 2, (o.height - 1) / 2];
+    case "porous":
+      return [(o.x0 + o.x1) / 2, (Ny - 1) / 2];
+  }
+}
+
+/**
+ * The obstacle after `steps` time steps of its motion. Airfoils and
+ * rectangles translate and rotate, cylinder arrays translate, porous bands
+ * shift in x; the step is anchored to the corner and stays put.
+ */
+export function advanceObstacle(o: Obstacle, steps = 1): Obstacle {
+  if (!o.motion) return o;
+  const dx = o.motion.ux * steps;
+  const dy = o.motion.uy * steps;
+  const turn = (o.motion.omega * steps * 180) / Math.PI; // degrees, CCW
+  switch (o.kind) {
+    case "airfoil": // positive angle is nose up, i.e. clockwise
+      return { ...o, cx: o.cx + dx, cy: o.cy + dy, angle: o.angle - turn };
+    case "rectangle":
+      return { ...o, cx: o.cx + dx, cy: o.cy + dy, angle: o.angle + turn };
+    case "cylinders":
+      return { ...o, cx: o.cx + dx, cy: o.cy + dy };
+    case "porous":
+      return { ...o, x0: o.x0 + dx, x1: o.x1 + dx };
+    case "step":
+      return o;
+  }
+}
+
+/** Writes the obstacle directly into a mask (u32 per cell, row-major). */
+export function drawObstacle(
+  mask: Uint32Array,
+  Nx: number,
+  Ny: number,
+  o: Obstacle,
+  value: number
+): void {
+  for (const { y, x0, x1 } of obstacleSpans(o, Nx, Ny)) {
+    mask.fill(value, y * Nx + x0, y * Nx + x1 + 1);
+  }
+}
+
+/**
+ * Closed NACA 4-digit profile for unit chord, leading edge at (0, 0):
+ * upper surface from the trailing edge forward, then the lower one back.
+ */
+export function nacaProfile(code: string, n = 80): Array<[number, number]> {
+  if (!/^\d{4}$/.test(code)) {
+    throw new Error(`"${code}" is not a NACA 4-digit code.`);
+  }
+  const m = Number(code[0]) / 100; // max camber
+  const p = Number(code[1]) / 10; // camber position
+  const t = Number(code.slice(2)) / 100; // thickness
+
+  const upper: Array<[number, number]> = [];
+  const lower: Array<[number, number]> = [];
+  for (let k = 0; k <= n; k++) {
+    const x = 0.5 * (1 - Math.cos((Math.PI * k) / n)); // cosine spacing
+    // -0.1036: closed trailing edge
+    const yt =
+      5 *
+      t *
+      (0.2969 * Math.sqrt(x) -
+        0.126 * x -
+        0.3516 * x ** 2 +
+        0.2843 * x ** 3 -
+        0.1036 * x ** 4);
+    let yc = 0;
+    let dyc = 0;
+    if (m > 0 && p > 0) {
+      if (x < p) {
+        yc = (m / p ** 2) * (2 * p * x - x * x);
+        dyc = ((2 * m) / p ** 2) * (p - x);
+      } else {
+        yc = (m / (1 - p) ** 2) * (1 - 2 * p + 2 * p * x - x * x);
+        dyc = ((2 * m) / (1 - p) ** 2) * (p - x);
+      }
+    }
+    const th = Math.atan(dyc);
+    upper.push([x - yt * Math.sin(th), yc + yt * Math.cos(th)]);
+    lower.push([x + yt * Math.sin(th), yc - yt * Math.cos(th)]);
+  }
+  return [...upper.reverse(), ...lower.slice(1)];
+}
+
+// rotates (degrees, counter-clockwise) and translates a point list
+function transform(
+  pts: number[][],
+  cx: number,
+  cy: number,
+  deg: number
+): number[][] {
+  const a = (deg * Math.PI) / 180;
+  const c = Math.cos(a);
+  const s = Math.sin(a);
+  return pts.map(([x, y]) => [cx + c * x - s * y, cy + s * x + c * y]);
+}
+
+// even-odd scanline fill, sampled at cell centres
+function polygonSpans(pts: number[][], Nx: number, Ny: number): RowSpan[] {
+  const ys = pts.map((p) => p[1]);
+  const yMin = Math.max(0, Math.ceil(Math.min(...ys)));
+  const yMax = Math.min(Ny - 1, Math.floor(Math.max(...ys)));
+  const spans: RowSpan[] = [];
+  const xs: number[] = [];
+  for (let y = yMin; y <= yMax; y++) {
+    xs.length = 0;
+    for (let i = 0; i < pts.length; i++) {
+      const [ax, ay] = pts[i];
+      const [bx, by] = pts[(i + 1) % pts.length];
+      if (ay <= y !== by <= y) xs.push(ax + ((y - ay) * (bx - ax)) / (by - ay));
+    }
+    xs.sort((a, b) => a - b);
+    for (let i = 0; i + 1 < xs.length; i += 2) {
+      const x0 = Math.max(0, Math.ceil(xs[i]));
+      const x1 = Math.min(Nx - 1, Math.floor(xs[i + 1]));
+      if (x0 <= x1) spans.push({ y, x0, x1 });
+    }
+  }
+  return spans;
+}
+
+function circleSpans(
+  cx: number,
+  cy: number,
+  r: number,
+  Nx: number,
+  Ny: number
+): RowSpan[] {
+  const spans: RowSpan[] = [];
+  const y0 = Math.max(0, Math.ceil(cy - r));
+  const y1 = Math.min(Ny - 1, Math.floor(cy + r));
+  for (let y = y0; y <= y1; y++) {
+    const half = Math.sqrt(r * r - (y - cy) ** 2);
+    const x0 = Math.max(0, Math.ceil(cx - half));
+    const x1 = Math.min(Nx - 1, Math.floor(cx + half));
+    if (x0 <= x1) spans.push({ y, x0, x1 });
+  }
+  return spans;
+}
+
+function boxSpans(
+  x0: number,
+  y0: number,
+  x1: number,
+  y1: number,
+  Nx: number,
+  Ny: number
+): RowSpan[] {
+  const spans: RowSpan[] = [];
+  x0 = Math.max(0, Math.round(x0));
+  x1 = Math.min(Nx - 1, Math.round(x1));
+  if (x0 > x1) return spans;
+  for (let y = Math.max(0, y0); y <= Math.min(Ny - 1, y1); y++) {
+    spans.push({ y, x0, x1 });
+  }
+  return spans;
+}
+
+// drops discs at seeded random positions between the channel walls until
+// the solid fraction of the band reaches 1 - porosity
+function porousSpans(o: PorousObstacle, Nx: number, Ny: number): RowSpan[] {
+  const x0 = Math.max(0, Math.round(Math.min(o.x0, o.x1)));
+  const x1 = Math.min(Nx - 1, Math.round(Math.max(o.x0, o.x1)));
+  const y0 = 1;
+  const y1 = Ny - 2;
+  const w = x1 - x0 + 1;
+  const h = y1 - y0 + 1;
+  if (w <= 0 || h <= 0 || o.radius <= 0) return [];
+
+  const band = new Uint8Array(w * h);
+  const target = Math.min(1, Math.max(0, 1 - o.porosity)) * band.length;
+  const rand = mulberry32(o.seed);
+  let solid = 0;
+  // bounded: tiny radii or porosities near 0 must not spin forever
+  for (let tries = 0; solid < target && tries < 100000; tries++) {
+    const cx = x0 + rand() * w;
+    const cy = y0 + rand() * h;
+    for (const s of circleSpans(cx, cy, o.radius, Nx, Ny)) {
+      if (s.y < y0 || s.y > y1) continue;
+      const row = (s.y - y0) * w;
+      for (let x = Math.max(s.x0, x0); x <= Math.min(s.x1, x1); x++) {
+        if (!band[row + x - x0]) {
+          band[row + x - x0] = 1;
+          solid++;
+        }
+      }
+    }
+  }
+
+  const spans: RowSpan[] = [];
+  for (let j = 0; j < h; j++) {
+    let start = -1;
+    for (let i = 0; i <= w; i++) {
+      const on = i < w && band[j * w + i] === 1;
+      if (on && start < 0) start = i;
+      else if (!on && start >= 0) {
+        spans.push({ y: y0 + j, x0: x0 + start, x1: x0 + i - 1 });
+        start = -1;
+      }
+    }
+  }
+  return spans;
+}
+
+// small seeded PRNG so porous media are reproducible
+function mulberry32(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
@@ -0,0 +1,233 @@
+// Inlet velocity profiles (across the inlet) and time modulation (per tick).
+// The inlet velocity of a cell at tick t is u_in · profile(s) · modulation(t).
+import { CELL } from "./mask";
+
+export const InletProfiles = {
+  UNIFORM: "uniform",
+  PARABOLIC: "parabolic", // Poiseuille, same flow rate as uniform (peak 1.5 u_in)
+  CUSTOM: "custom", // expression of s, y and H
+} as const;
+export type InletProfileKind =
+  (typeof InletProfiles)[keyof typeof InletProfiles];
+
+export interface InletProfile {
+  kind: InletProfileKind;
+  /**
+   * CUSTOM only: factor as an arithmetic expression of `s` (0..1 across the
+   * inlet), `y` (cell coordinate along the edge) and `H` (inlet width in
+   * cells), e.g. "4*s*(1-s)" or "1 + 0.1*sin(2*pi*s)".
+   */
+  expression?: string;
+}
+
+export interface InletModulation {
+  /** Ticks to ramp up smoothly from zero; 0 starts impulsively. */
+  ramp: number;
+  /** Sinusoidal pulsation: factor 1 + amplitude · sin(2π t / period). */
+  amplitude: number;
+  period: number;
+  /** Step changes: from `tick` on the factor is `scale`. */
+  steps: Array<{ tick: number; scale: number }>;
+}
+
+export const DEFAULT_INLET_PROFILE: Readonly<InletProfile> = {
+  kind: InletProfiles.UNIFORM,
+};
+
+export const DEFAULT_INLET_MODULATION: Readonly<InletModulation> = {
+  ramp: 0,
+  amplitude: 0,
+  period: 1000,
+  steps: [],
+};
+
+/** Time factor of the inlet velocity at `tick`. */
+export function modulationFactor(m: InletModulation, tick: number): number {
+  let f = 1;
+  // the latest step at or before tick (steps may come in any order)
+  let latest = -Infinity;
+  for (const step of m.steps) {
+    if (tick >= step.tick && step.tick >= latest) {
+      latest = step.tick;
+      f = step.scale;
+    }
+  }
+  if (m.amplitude && m.period > 0) {
+    f *= 1 + m.amplitude * Math.sin((2 * Math.PI * tick) / m.period);
+  }
+  if (m.ramp > 0 && tick < m.ramp) {
+    f *= 0.5 - 0.5 * Math.cos((Math.PI * tick) / m.ramp); // no kink at 0
+  }
+  return f;
+}
+
+/** Throws on invalid settings (e.g. a custom expression that does not parse). */
+export function validateInlet(p: InletProfile, m?: InletModulation): void {
+  if (!Object.values(InletProfiles).includes(p.kind)) {
+    throw new Error(`Unknown inlet profile "${p.kind}".`);
+  }
+  if (p.kind === InletProfiles.CUSTOM) compileExpression(p.expression ?? "");
+  if (!m) return;
+  if (!(m.ramp >= 0)) throw new Error("Inlet ramp must be ≥ 0 ticks.");
+  if (m.amplitude && !(m.period > 0)) {
+    throw new Error("Inlet pulsation period must be positive.");
+  }
+}
+
+/**
+ * Profile factors along the domain edges: [0, Ny) by y for inlet cells in
+ * the left/right columns, then [Ny, Ny + Nx) by x for the bottom/top rows.
+ * `s` runs across the extent of the inlet cells on those edges.
+ */
+export function inletProfileFactors(
+  profile: InletProfile,
+  mask: Uint32Array,
+  Nx: number,
+  Ny: number
+): Float32Array<ArrayBuffer> {
+  const out = new Float32Array(Nx + Ny).fill(1);
+  if (profile.kind === InletProfiles.UNIFORM) return out;
+  const fn =
+    profile.kind === InletProfiles.PARABOLIC
+      ? (s: number) => 6 * s * (1 - s)
+      : compileExpression(profile.expression ?? "");
+
+  const isInlet = (cell: number) =>
+    (mask[cell] & (CELL.EQ | CELL.ZOU_HE_INLET)) !== 0;
+  // one range per pair of edges
+  const fill = (offset: number, n: number, inlet: (i: number) => boolean) => {
+    let i0 = -1;
+    let i1 = -1;
+    for (let i = 0; i < n; i++) {
+      if (!inlet(i)) continue;
+      if (i0 < 0) i0 = i;
+      i1 = i;
+    }
+    if (i0 < 0) return;
+    const H = i1 - i0 + 1;
+    for (let i = i0; i <= i1; i++) {
+      const v = fn((i - i0 + 0.5) / H, i, H);
+      out[offset + i] = Number.isFinite(v) ? v : 0;
+    }
+  };
+  fill(0, Ny, (y) => isInlet(y * Nx) || isInlet(y * Nx + Nx - 1));
+  fill(Ny, Nx, (x) => isInlet(x) || isInlet((Ny - 1) * Nx + x));
+  return out;
+}
+
+// ---------- expressions ----------
+
+type Expr = (v: Record<string, number>) => number;
+
+const FUNCTIONS: Record<string, (x: number) => number> = {
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  exp: Math.exp,
+  log: Math.log,
+  sqrt: Math.sqrt,
+  abs: Math.abs,
+  tanh: Math.tanh,
+};
+const CONSTANTS: Record<string, number> = { pi: Math.PI, e: Math.E };
+const VARIABLES = ["s", "y", "H"];
+
+/**
+ * Compiles an arithmetic expression of s, y and H (numbers, + - * / ^,
+ * parentheses, pi, e and sin/cos/tan/exp/log/sqrt/abs/tanh). Deliberately
+ * no eval(): scenario files may come from others.
+ */
+export function compileExpression(
+  src: string
+): (s: number, y: number, H: number) => number {
+  const tokens = src.match(/\d*\.?\d+(?:e[+-]?\d+)?|[A-Za-z_]\w*|\S/g) ?? [];
+  let pos = 0;
+  const peek = () => tokens[pos];
+  const take = (t?: string) => {
+    const tok = tokens[pos];
+    if (t !== undefined && tok !== t) {
+      throw new Error(
+        `Expected "${t}" in inlet expression, got "${tok ?? "end"}".`
+      );
+    }
+    pos++;
+    return tok;
+  };
+
+  // sum := product (('+' | '-') product)*
+  const sum = (): Expr => {
+    let left = product();
+    while (peek() === "+" || peek() === "-") {
+      const op = take();
+      const a = left;
+      const b = product();
+      left = op === "+" ? (v) => a(v) + b(v) : (v) => a(v) - b(v);
+    }
+    return left;
+  };
+  // product := unary (('*' | '/') unary)*
+  const product = (): Expr => {
+    let left = unary();
+    while (peek() === "*" || peek() === "/") {
+      const op = take();
+      const a = left;
+      const b = unary();
+      left = op === "*" ? (v) => a(v) * b(v) : (v) => a(v) / b(v);
+    }
+    return left;
+  };
+  // unary := ('-' | '+') unary | power
+  const unary = (): Expr => {
+    if (peek() === "-") {
+      take();
+      const a = unary();
+      return (v) => -a(v);
+    }
+    if (peek() === "+") {
+      take();
+      return unary();
+    }
+    return power();
+  };
+  // power := atom ('^' unary)?   (right associative)
+  const power = (): Expr => {
+    const base = atom();
+    if (peek() !== "^") return base;
+    take();
+    const exp = unary();
+    return (v) => Math.pow(base(v), exp(v));
+  };
+  const atom = (): Expr => {
+    const tok = take();
+    if (tok === undefined) throw new Error("Inlet expression ends early.");
+    if (tok === "(") {
+      const inner = sum();
+      take(")");
+      return inner;
+    }
+    if (/^\d*\.?\d/.test(tok)) {
+      const n = Number(tok);
+      return () => n;
+    }
+    if (FUNCTIONS[tok]) {
+      const fn = FUNCTIONS[tok];
+      take("(");
+      const arg = sum();
+      take(")");
+      return (v) => fn(arg(v));
+    }
+    if (tok in CONSTANTS) {
+      const c = CONSTANTS[tok];
+      return () => c;
+    }
+    if (VARIABLES.includes(tok)) return (v) => v[tok];
+    throw new Error(`Unknown name "${tok}" in inlet expression.`);
+  };
+
+  if (!tokens.length) throw new Error("Inlet expression is empty.");
+  const expr = sum();
+  if (pos < tokens.length) {
+    throw new Error(`Unexpected "${tokens[pos]}" in inlet expression.`);
+  }
+  return (s, y, H) => expr({ s, y, H });
+}
@@ -1,37 +1,135 @@
 import { CanvasPainter } from "./canvas";
+import { Colorbar } from "./colorbar";
+import { startCPUFallback } from "./fallback";
+import {
+  DEFAULT_MRT_RATES,
+  DEFAULT_SMAGORINSKY,
+  DEFAULT_TRT_MAGIC,
+} from "./collision";
+import {
+  CHECKPOINT_EXTENSION,
+  decodeCheckpoint,
+  deleteStoredCheckpoint,
+  listStoredCheckpoints,
+  loadStoredCheckpoint,
+  peekCheckpoint,
+  storeCheckpoint,
+} from "./checkpoint";
+import { describeInstability } from "./diagnostics";
+import { downloadBlob } from "./export";
+import { defaultObstacle, describeObstacle } from "./geometry";
 import { GPUController } from "./GPUController";
-import { LBM, VisColormaps, VisTypes } from "./LBM";
+import {
+  CollisionOperators,
+  DEFAULT_OVERLAYS,
+  DEFAULT_TRACERS,
+  EdgeBoundaries,
+  ExportFormats,
+  InletProfiles,
+  LBM,
+  ObstacleKinds,
+  listColormaps,
+  parseColormap,
+  registerColormap,
+  StreamlineSeedings,
+  TracerSources,
+  VisTypes,
+  type Colormap,
+  type CollisionOperator,
+  type Edge,
+  type EdgeBoundary,
+  type ExportFormat,
+  type ExportUnits,
+  type InletModulation,
+  type InletProfileKind,
+  type Obstacle,
+  type ObstacleKind,
+  type OverlaySettings,
+  type StreamlineSeeding,
+  type TracerSettings,
+  type TracerSource,
+} from "./LBM";
+import { CELL } from "./mask";
+import {
+  loadShapeFile,
+  loadSvgPath,
+  rasterizeShape,
+  type ShapeSource,
+} from "./shapeImport";
+import {
+  createPreset,
+  EDGES,
+  parseScenario,
+  SCENARIO_PRESET_LABELS,
+  serializeScenario,
+  type Scenario,
+  type ScenarioPreset,
+} from "./scenario";
+import { UnitSystem, type UnitInput } from "./units";
 
+let gpuReady = false; // false -> failure came from GPUController.create()
 try {
   const gpu = await GPUController.create();
-  const maxCells = Math.floor((0.95 * gpu.adapter.limits.maxBufferSize) / 8);
-  const maxDim = Math.floor(Math.sqrt(maxCells));
+  gpuReady = true;
+  const limits = gpu.adapter.limits;
 
-  // Lattice-Grid resolution presets (i.e. 1024x1024 ~= 1E6 cells)
-  // Will be filtered by max. supported buffer (maxDim)
-  const PRESETS = [64, 96, 128, 192, 256, 384, 512, 768, 1024, 2048];
+  type GridSize = { Nx: number; Ny: number };
 
-  const MAX_CAP = 1 << 11; // 2048 (the actual cap can be higher, but for D2Q9 there is no need for that)
-  const SOFT_CAP = 1 << 10; // 1024
+  // The largest buffer is f (Q f16 values per cell); it must fit a single buffer & binding.
+  const BYTES_PER_CELL = 9 * 2;
+  const maxCells = Math.floor(
+    (0.95 *
+      Math.min(limits.maxBufferSize, limits.maxStorageBufferBindingSize)) /
+      BYTES_PER_CELL
+  );
+  const maxDim = limits.maxTextureDimension2D; // visTex is Nx × Ny
 
-  function pickDefaultN(): number {
-    const sizes = allowedSizes(); // respects MAX_CAP & maxDim
-    const hardDefault = sizes.length
-      ? sizes[sizes.length - 1] // largest allowed
-      : Math.min(64, maxDim, MAX_CAP); // sane fallback
+  // Lattice-Grid resolution presets (i.e. 1024x1024 ~= 1E6 cells)
+  // Will be filtered by max. supported buffer (maxCells) and texture size (maxDim)
+  const SQUARE_PRESETS: GridSize[] = [
+    64, 96, 128, 192, 256, 384, 512, 768, 1024, 2048,
+  ].map((n) => ({ Nx: n, Ny: n }));
+  // Channel-like domains (wind tunnel style flows are elongated)
+  const CHANNEL_PRESETS: GridSize[] = [
+    { Nx: 256, Ny: 64 },
+    { Nx: 512, Ny: 128 },
+    { Nx: 1024, Ny: 256 },
+    { Nx: 1024, Ny: 512 },
+    { Nx: 2048, Ny: 512 },
+    { Nx: 2048, Ny: 1024 },
+    { Nx: 4096, Ny: 1024 },
+  ];
 
-    // Prefer the soft cap if we'd otherwise pick the hard max
-    if (hardDefault >= MAX_CAP) return Math.min(SOFT_CAP, MAX_CAP);
+  const MAX_CAP = (1 << 11) * (1 << 11); // 2048² cells (the actual cap can be higher, but for D2Q9 there is no need for that)
+  const SOFT_CAP = (1 << 10) * (1 << 10); // 1024² cells
+  const MIN_DIM = 8;
 
-    return hardDefault;
+  function fits({ Nx, Ny }: GridSize): boolean {
+    return (
+      Number.isInteger(Nx) &&
+      Number.isInteger(Ny) &&
+      Nx >= MIN_DIM &&
+      Ny >= MIN_DIM &&
+      Nx <= maxDim &&
+      Ny <= maxDim &&
+      Nx * Ny <= Math.min(maxCells, MAX_CAP)
+    );
   }
 
-  function allowedSizes(): number[] {
-    return PRESETS.filter((n) => n <= maxDim && n <= MAX_CAP);
+  function pickDefaultSize(): GridSize {
+    const squares = SQUARE_PRESETS.filter(fits); // respects MAX_CAP, maxCells & maxDim
+    // Prefer the largest square within the soft cap
+    const soft = squares.filter(({ Nx, Ny }) => Nx * Ny <= SOFT_CAP);
+    return (
+      soft[soft.length - 1] ?? squares[0] ?? { Nx: MIN_DIM, Ny: MIN_DIM } // sane fallback
+    );
   }
 
+  const sizeKey = ({ Nx, Ny }: GridSize) => `${Nx}x${Ny}`;
+
   // mutable references so event handlers always use the latest instances.
-  let N = pickDefaultN();
+  let size = pickDefaultSize();
+  let scenario: Scenario | null = null; // null -> built-in channel
   let lbm: LBM;
   let painter: CanvasPainter;
   let canvas = document.getElementById("canvas") as HTMLCanvasElement;
@@ -45,7 +143,7 @@ try {
   resWrapper.className = "flex items-center gap-3";
 
   const resLabel = document.createElement("label");
-  resLabel.textContent = "Resolution (N×N):";
+  resLabel.textContent = "Resolution (Nx×Ny):";
   resLabel.className = "text-sm font-medium text-gray-300 min-w-fit";
   resLabel.htmlFor = "resolution-select";
 
@@ -54,24 +152,69 @@ try {
   resSelect.className =
     "w-full px-3 py-2 bg-gray-700 text-white rounded-lg border border-gray-600 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500/50 cursor-pointer hover:bg-gray-650 transition-colors";
 
-  function refreshResolutionOptions(selected?: number) {
+  function refreshResolutionOptions(selected: GridSize = size) {
     resSelect.innerHTML = "";
-    const sizes = allowedSizes();
-    // Ensure there is at least one option
-    if (sizes.length === 0) sizes.push(Math.min(64, maxDim, MAX_CAP));
-    for (const size of sizes) {
-      const opt = document.createElement("option");
-      opt.value = String(size);
-      opt.textContent = `${size} × ${size}`;
-      opt.className = "bg-gray-700 text-white";
-      if (selected ? size === selected : size === N) opt.selected = true;
-      resSelect.appendChild(opt);
+    const groups: Array<[string, GridSize[]]> = [
+      ["Square", SQUARE_PRESETS.filter(fits)],
+      ["Channel", CHANNEL_PRESETS.filter(fits)],
+    ];
+    // keep a custom size selectable
+    const known = groups.flatMap(([, sizes]) => sizes.map(sizeKey));
+    if (!known.includes(sizeKey(selected))) groups.push(["Custom", [selected]]);
+
+    for (const [label, sizes] of groups) {
+      if (!sizes.length) continue;
+      const group = document.createElement("optgroup");
+      group.label = label;
+      for (const s of sizes) {
+        const opt = document.createElement("option");
+        opt.value = sizeKey(s);
+        opt.textContent = `${s.Nx} × ${s.Ny}`;
+        opt.className = "bg-gray-700 text-white";
+        if (sizeKey(s) === sizeKey(selected)) opt.selected = true;
+        group.appendChild(opt);
+      }
+      resSelect.appendChild(group);
     }
   }
 
   resWrapper.appendChild(resLabel);
   resWrapper.appendChild(resSelect);
-  paintSettings.prepend(resWrapper);
+
+  // arbitrary Nx × Ny
+  const customResWrapper = document.createElement("div");
+  customResWrapper.className = "flex items-center gap-2";
+
+  const dimInputClass =
+    "w-20 px-2 py-2 bg-gray-700 text-white rounded-lg border border-gray-600 invalid:border-red-500";
+  const nxInput = document.createElement("input");
+  nxInput.type = "number";
+  nxInput.min = String(MIN_DIM);
+  nxInput.max = String(maxDim);
+  nxInput.ariaLabel = "Nx";
+  nxInput.className = dimInputClass;
+
+  const nyInput = nxInput.cloneNode() as HTMLInputElement;
+  nyInput.ariaLabel = "Ny";
+
+  const timesLabel = document.createElement("span");
+  timesLabel.textContent = "×";
+  timesLabel.className = "text-gray-300";
+
+  const customResBtn = document.createElement("button");
+  customResBtn.textContent = "Apply";
+  customResBtn.className =
+    "flex-1 px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-all border border-gray-600";
+  customResBtn.ariaLabel = "Apply custom resolution";
+
+  customResWrapper.append(nxInput, timesLabel, nyInput, customResBtn);
+
+  function syncCustomResInputs() {
+    nxInput.value = String(size.Nx);
+    nyInput.value = String(size.Ny);
+  }
+
+  paintSettings.prepend(resWrapper, customResWrapper);
 
   const colormapSelect = document.getElementById(
     "colormap-select"
@@ -80,15 +223,31 @@ try {
     colormapSelect.innerHTML = "";
     colormapSelect.className =
       "w-full px-3 py-2 bg-gray-700 text-white rounded-lg border border-gray-600 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500/50 cursor-pointer hover:bg-gray-650 transition-colors";
-    for (const [label, value] of Object.entries(VisColormaps)) {
-      const opt = document.createElement("option");
-      opt.value = String(value);
-      opt.textContent = label;
+    for (const cmap of listColormaps()) addColormapOption(cmap);
+  }
+  function addColormapOption(cmap: Colormap) {
+    if (!colormapSelect) return;
+    let opt = [...colormapSelect.options].find((o) => o.value === cmap.name);
+    if (!opt) {
+      opt = document.createElement("option");
+      opt.value = cmap.name;
       opt.className = "bg-gray-700 text-white";
       colormapSelect.appendChild(opt);
     }
+    opt.textContent = cmap.label;
   }
 
+  // user-defined gradients (JSON, see parseColormap)
+  const colormapFileInput = document.createElement("input");
+  colormapFileInput.type = "file";
+  colormapFileInput.accept = ".json,application/json";
+  colormapFileInput.className = "hidden";
+  const importColormapBtn = document.createElement("button");
+  importColormapBtn.textContent = "Import colormap";
+  importColormapBtn.className =
+    "mt-2 px-3 py-1 text-sm bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-all border border-gray-600";
+  colormapSelect?.parentElement?.append(importColormapBtn, colormapFileInput);
+
   const visTypeSelect = document.getElementById(
     "visType-select"
   ) as HTMLSelectElement | null;
@@ -105,50 +264,1358 @@ try {
     }
   }
 
-  // Helpers to (re)create simulation & painter for a given N
-  async function recreate(NxNy: number) {
+  // Colormap range: manual min/max or GPU min/max reduction, shown as a legend
+  const visMinInput = document.createElement("input");
+  const visMaxInput = document.createElement("input");
+  for (const [input, label] of [
+    [visMinInput, "Colormap min"],
+    [visMaxInput, "Colormap max"],
+  ] as const) {
+    input.type = "number";
+    input.step = "any";
+    input.ariaLabel = label;
+    input.className =
+      "w-24 px-2 py-1 bg-gray-700 text-white rounded-lg border border-gray-600";
+  }
+  const autoRangeCheckbox = document.createElement("input");
+  autoRangeCheckbox.type = "checkbox";
+  autoRangeCheckbox.className = "h-4 w-4 accent-blue-500 cursor-pointer";
+  const autoRangeLabel = document.createElement("label");
+  autoRangeLabel.className = "flex items-center gap-1";
+  autoRangeLabel.append(autoRangeCheckbox, "Auto");
+  const visRangeRow = document.createElement("div");
+  visRangeRow.className = "flex items-center gap-2 text-sm";
+  visRangeRow.append("Range", visMinInput, visMaxInput, autoRangeLabel);
+  visTypeSelect?.parentElement?.after(visRangeRow);
+
+  const colorbar = new Colorbar(
+    document.getElementById("wrapper") ?? document.body
+  );
+  function syncColorbar() {
+    const { min, max } = lbm.visRange;
+    colorbar.update({
+      min,
+      max,
+      colormap: lbm.visColormap,
+      title: visTypeSelect?.selectedOptions[0]?.textContent ?? "",
+    });
+    const digits = (v: number) => String(Number(v.toPrecision(4)));
+    visMinInput.value = digits(min);
+    visMaxInput.value = digits(max);
+    visMinInput.disabled = visMaxInput.disabled = lbm.visAutoRange;
+    autoRangeCheckbox.checked = lbm.visAutoRange;
+  }
+  function applyVisRangeInputs() {
     try {
-      (lbm as any)?.stop?.();
-      await (lbm as any)?.dispose?.();
-      (painter as any)?.disable?.();
-      (painter as any)?.destroy?.();
+      lbm.setVisRange(Number(visMinInput.value), Number(visMaxInput.value));
+      visMaxInput.setCustomValidity("");
+      syncColorbar();
+    } catch (e) {
+      visMaxInput.setCustomValidity(e instanceof Error ? e.message : String(e));
+      visMaxInput.reportValidity();
+    }
+  }
+  visMinInput.addEventListener("change", applyVisRangeInputs);
+  visMaxInput.addEventListener("change", applyVisRangeInputs);
+  autoRangeCheckbox.addEventListener("change", () => {
+    lbm.setVisAutoRange(autoRangeCheckbox.checked);
+    syncColorbar();
+  });
+
+  // Helpers to (re)create simulation & painter for a given grid size
+  async function recreate({ Nx, Ny }: GridSize) {
+    // live parameters of the sliders, kept across the rebuild
+    const params = lbm && {
+      inlet: lbm.inletVelocity,
+      rhoOut: lbm.outletDensity,
+      tau: lbm.tau,
+      force: lbm.bodyForce,
+    };
+    try {
+      lbm?.dispose();
+      painter?.destroy();
     } catch (e) {
       showError(e);
     }
 
-    lbm = new LBM(NxNy, NxNy, gpu);
+    lbm = new LBM(Nx, Ny, gpu);
+    // slider values go in first: a scenario applied below overrides them
+    if (params) {
+      lbm.setOutletDensity(params.rhoOut);
+      lbm.setBodyForce(params.force.fx, params.force.fy);
+    }
+    lbm.setUnits(buildUnits({ Nx, Ny }));
+    // default units only: keep tau and inflow (physical input rescales them)
+    if (params && !physicsInput) {
+      lbm.setInletVelocity(params.inlet.ux, params.inlet.uy);
+      lbm.setTau(params.tau);
+    }
+    lbm.setCollision(Number(collisionSelect.value) as CollisionOperator);
+    lbm.setTRTMagic(Number(trtMagicInput.value));
+    lbm.setMRTRates({
+      sE: Number(mrtInputs.sE.value),
+      sEps: Number(mrtInputs.sEps.value),
+      sQ: Number(mrtInputs.sQ.value),
+    });
+    lbm.setSmagorinskyConstant(Number(smagorinskyInput.value));
+    lbm.setLES(lesCheckbox.checked);
+    // a scenario only survives resolution changes that keep its grid
+    if (scenario?.Nx === Nx && scenario.Ny === Ny) lbm.setScenario(scenario);
+    else {
+      scenario = null;
+      applyInletInputs();
+    }
     await lbm.init();
+    lbm.onInstability(() => syncRunControls());
 
     painter = new CanvasPainter({
       canvas,
-      Nx: NxNy,
-      Ny: NxNy,
+      Nx,
+      Ny,
       onPaint: (rows, value) => lbm.applyMaskRows(rows, value),
     });
     painter.enable();
+    clearObstacleList();
+    showObstacle(
+      defaultObstacle(obstacleKindSelect.value as ObstacleKind, Nx, Ny)
+    );
 
-    if (colormapSelect) lbm.setVisColormap(Number(colormapSelect.value) as any);
+    if (colormapSelect) lbm.setVisColormap(colormapSelect.value);
     if (visTypeSelect) lbm.setVisType(Number(visTypeSelect.value) as any);
+    if (colormapSelect) colormapSelect.value = String(lbm.visColormap);
+    lbm.setVisAutoRange(autoRangeCheckbox.checked);
+    lbm.onVisRange(syncColorbar);
+    applyOverlayInputs();
+    applyTracerInputs();
+    syncColorbar();
 
+    lbm.setStepsPerFrame(Number(stepsPerFrameSlider.value));
     lbm.run();
+    syncRunControls();
+    syncPhysicsInputs();
+    syncParamSliders();
+    syncCollisionInputs();
+    if (!scenario) scenarioSelect.value = "";
+    saveScenarioBtn.disabled = !scenario;
+    syncEdgeSelects();
+    syncInletInputs();
+
+    syncCustomResInputs();
+    resizeCanvas();
+  }
+
+  // Physics / unit system
+  const physicsSettings = document.getElementById(
+    "physics-settings"
+  ) as HTMLDivElement;
+
+  const inputClass =
+    "w-28 px-2 py-1 bg-gray-700 text-white rounded-lg border border-gray-600";
+  const selectClass =
+    "px-2 py-1 bg-gray-700 text-white rounded-lg border border-gray-600 cursor-pointer";
+
+  function physicsRow(label: string, control: HTMLElement) {
+    const row = document.createElement("label");
+    row.className = "flex items-center justify-between gap-3 text-sm";
+    const text = document.createElement("span");
+    text.textContent = label;
+    text.className = "font-medium text-gray-300";
+    row.append(text, control);
+    physicsSettings.appendChild(row);
+    return row;
+  }
+
+  function numberInput(step: string) {
+    const input = document.createElement("input");
+    input.type = "number";
+    input.step = step;
+    input.className = inputClass;
+    return input;
+  }
+
+  const lengthInput = numberInput("any");
+  const cellsInput = numberInput("1");
+  const velocityInput = numberInput("any");
+  const latticeVelocityInput = numberInput("0.005");
+
+  const viscosityModeSelect = document.createElement("select");
+  viscosityModeSelect.className = selectClass;
+  for (const [value, label] of [
+    ["re", "Reynolds"],
+    ["nu", "ν [m²/s]"],
+  ]) {
+    const opt = document.createElement("option");
+    opt.value = value;
+    opt.textContent = label;
+    viscosityModeSelect.appendChild(opt);
+  }
+  const viscosityInput = numberInput("any");
+  const viscosityWrapper = document.createElement("div");
+  viscosityWrapper.className = "flex gap-2";
+  viscosityWrapper.append(viscosityModeSelect, viscosityInput);
+
+  physicsRow("Length L [m]", lengthInput);
+  physicsRow("L [cells]", cellsInput);
+  physicsRow("Inflow U [m/s]", velocityInput);
+  physicsRow("Lattice U", latticeVelocityInput);
+  physicsRow("Viscosity", viscosityWrapper);
+
+  const applyPhysicsBtn = document.createElement("button");
+  applyPhysicsBtn.textContent = "Apply physics";
+  applyPhysicsBtn.className =
+    "flex-1 px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-all border border-gray-600";
+  physicsSettings.appendChild(applyPhysicsBtn);
+
+  const unitModeSelect = document.createElement("select");
+  unitModeSelect.className = selectClass;
+  for (const [value, label] of [
+    ["lattice", "Lattice"],
+    ["si", "SI"],
+  ]) {
+    const opt = document.createElement("option");
+    opt.value = value;
+    opt.textContent = label;
+    unitModeSelect.appendChild(opt);
+  }
+  physicsRow("Display units", unitModeSelect);
+
+  // Collision operator (pipeline variant, switching keeps the flow field)
+  const collisionSelect = document.createElement("select");
+  collisionSelect.className = selectClass;
+  for (const [label, value] of Object.entries(CollisionOperators)) {
+    const opt = document.createElement("option");
+    opt.value = String(value);
+    opt.textContent = label;
+    collisionSelect.appendChild(opt);
+  }
+  physicsRow("Collision", collisionSelect);
+
+  const trtMagicInput = numberInput("any");
+  trtMagicInput.value = String(DEFAULT_TRT_MAGIC);
+  const trtMagicRow = physicsRow("TRT magic Λ", trtMagicInput);
+  const mrtInputs = {
+    sE: numberInput("0.01"),
+    sEps: numberInput("0.01"),
+    sQ: numberInput("0.01"),
+  };
+  for (const key of ["sE", "sEps", "sQ"] as const) {
+    mrtInputs[key].value = String(DEFAULT_MRT_RATES[key]);
+  }
+  const mrtRows = [
+    physicsRow("MRT s_e", mrtInputs.sE),
+    physicsRow("MRT s_ε", mrtInputs.sEps),
+    physicsRow("MRT s_q", mrtInputs.sQ),
+  ];
+
+  // Smagorinsky LES
+  const lesCheckbox = document.createElement("input");
+  lesCheckbox.type = "checkbox";
+  lesCheckbox.className = "h-4 w-4 accent-blue-500 cursor-pointer";
+  physicsRow("LES (Smagorinsky)", lesCheckbox);
+  const smagorinskyInput = numberInput("0.01");
+  smagorinskyInput.value = String(DEFAULT_SMAGORINSKY);
+  const smagorinskyRow = physicsRow("Smagorinsky Cs", smagorinskyInput);
+
+  function syncCollisionInputs() {
+    collisionSelect.value = String(lbm.collision);
+    trtMagicInput.value = String(lbm.trtMagic);
+    const rates = lbm.mrtRates;
+    for (const key of ["sE", "sEps", "sQ"] as const) {
+      mrtInputs[key].value = String(rates[key]);
+    }
+    trtMagicRow.classList.toggle(
+      "hidden",
+      lbm.collision !== CollisionOperators.TRT
+    );
+    for (const row of mrtRows) {
+      row.classList.toggle("hidden", lbm.collision !== CollisionOperators.MRT);
+    }
+    lesCheckbox.checked = lbm.les;
+    smagorinskyInput.value = String(lbm.smagorinskyConstant);
+    smagorinskyRow.classList.toggle("hidden", !lbm.les);
+  }
+
+  collisionSelect.addEventListener("change", () => {
+    lbm.setCollision(Number(collisionSelect.value) as CollisionOperator);
+    syncCollisionInputs();
+  });
+  // invalid values are reported on the input and reverted
+  function collisionInput(input: HTMLInputElement, apply: (v: number) => void) {
+    input.addEventListener("change", () => {
+      try {
+        apply(Number(input.value));
+        input.setCustomValidity("");
+      } catch (e) {
+        input.setCustomValidity(e instanceof Error ? e.message : String(e));
+        input.reportValidity();
+      }
+      syncCollisionInputs();
+    });
+  }
+  collisionInput(trtMagicInput, (v) => lbm.setTRTMagic(v));
+  collisionInput(smagorinskyInput, (v) => lbm.setSmagorinskyConstant(v));
+  lesCheckbox.addEventListener("change", () => {
+    lbm.setLES(lesCheckbox.checked);
+    syncCollisionInputs();
+  });
+  for (const key of ["sE", "sEps", "sQ"] as const) {
+    collisionInput(mrtInputs[key], (v) => lbm.setMRTRates({ [key]: v }));
+  }
+
+  const physicsInfo = document.createElement("div");
+  physicsInfo.className = "text-xs font-mono text-gray-300 whitespace-pre";
+  const physicsWarnings = document.createElement("div");
+  physicsWarnings.className = "text-xs text-red-400 max-w-xs";
+  physicsSettings.append(physicsInfo, physicsWarnings);
+
+  // user-specified physics (without `cells`, which follows the resolution); null -> lattice defaults
+  let physicsInput: Omit<UnitInput, "cells"> | null = null;
+
+  // characteristic length: diameter of the default cylinder obstacle
+  const defaultCells = ({ Nx, Ny }: GridSize) =>
+    Math.max(1, 2 * Math.floor(Math.min(Nx, Ny) * 0.1));
+
+  function buildUnits(grid: GridSize): UnitSystem {
+    const cells = defaultCells(grid);
+    if (!physicsInput) {
+      return UnitSystem.fromLattice({ cells, tau: 0.7, latticeVelocity: 0.05 });
+    }
+    return new UnitSystem({ ...physicsInput, cells });
+  }
+
+  function syncPhysicsInputs() {
+    const units = lbm.units;
+    if (!units) return;
+    lengthInput.value = String(units.length);
+    cellsInput.value = String(units.cells);
+    velocityInput.value = String(units.velocity);
+    latticeVelocityInput.value = String(units.latticeVelocity);
+    viscosityInput.value =
+      viscosityModeSelect.value === "re"
+        ? units.reynolds.toPrecision(4)
+        : units.viscosity.toPrecision(4);
+    physicsWarnings.textContent = units.warnings.join("\n");
+  }
+
+  viscosityModeSelect.addEventListener("change", syncPhysicsInputs);
+
+  applyPhysicsBtn.addEventListener("click", () => {
+    const value = Number(viscosityInput.value);
+    const input: UnitInput = {
+      length: Number(lengthInput.value),
+      cells: Number(cellsInput.value),
+      velocity: Number(velocityInput.value),
+      latticeVelocity: Number(latticeVelocityInput.value),
+      ...(viscosityModeSelect.value === "re"
+        ? { reynolds: value }
+        : { viscosity: value }),
+    };
+    try {
+      lbm.setUnits(new UnitSystem(input));
+      const { cells: _cells, ...rest } = input;
+      physicsInput = rest;
+      syncPhysicsInputs();
+      syncParamSliders();
+    } catch (e) {
+      physicsWarnings.textContent = e instanceof Error ? e.message : String(e);
+    }
+  });
+
+  function formatPhysicsInfo(): string {
+    const units = lbm?.units;
+    if (!units) return "";
+    const lines = [
+      `Re ${units.reynolds.toPrecision(4)}  Ma ${units.mach.toFixed(3)}`,
+      `τ ${lbm.tau.toFixed(4)}  ω ${lbm.omega.toFixed(4)}`,
+    ];
+    if (unitModeSelect.value === "si") {
+      const U = units.velocity.toPrecision(4);
+      const nu = units.viscosity.toExponential(3);
+      const t = units.toPhysicalTime(lbm.tick).toPrecision(4);
+      lines.push(
+        `U ${U} m/s  ν ${nu} m²/s`,
+        `dx ${units.dx.toExponential(3)} m  dt ${units.dt.toExponential(3)} s`,
+        `t ${t} s`
+      );
+    } else {
+      const U = lbm.inletVelocity.ux.toFixed(4);
+      const nu = units.latticeViscosity.toFixed(5);
+      lines.push(
+        `U ${U}  ν ${nu}`,
+        `L ${units.cells} cells`,
+        `t ${lbm.tick} ticks`
+      );
+    }
+    return lines.join("\n");
+  }
+
+  // Run controls
+  const runSettings = document.getElementById("run-settings") as HTMLDivElement;
+
+  const runBtnClass =
+    "flex-1 px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-all border border-gray-600";
+
+  const runBtnWrapper = document.createElement("div");
+  runBtnWrapper.className = "flex gap-2";
+
+  const pauseBtn = document.createElement("button");
+  pauseBtn.className = runBtnClass;
+  pauseBtn.ariaLabel = "Pause or resume the simulation";
+
+  const stepBtn = document.createElement("button");
+  stepBtn.textContent = "Step";
+  stepBtn.className = runBtnClass;
+  stepBtn.ariaLabel = "Advance the paused simulation";
+
+  const stepCountInput = document.createElement("input");
+  stepCountInput.type = "number";
+  stepCountInput.min = "1";
+  stepCountInput.value = "1";
+  stepCountInput.title = "Steps per click";
+  stepCountInput.className =
+    "w-16 px-2 py-2 bg-gray-700 text-white rounded-lg border border-gray-600";
+
+  const stopBtn = document.createElement("button");
+  stopBtn.textContent = "Stop";
+  stopBtn.className = runBtnClass;
+  stopBtn.ariaLabel = "Stop and reset the simulation";
+
+  runBtnWrapper.append(pauseBtn, stepBtn, stepCountInput, stopBtn);
+  runSettings.appendChild(runBtnWrapper);
+
+  // steps per rendered frame
+  const stepsPerFrameWrapper = document.createElement("div");
+  stepsPerFrameWrapper.className = "flex items-center gap-3";
+
+  const stepsPerFrameLabel = document.createElement("label");
+  stepsPerFrameLabel.textContent = "Steps/frame:";
+  stepsPerFrameLabel.htmlFor = "steps-per-frame";
+  stepsPerFrameLabel.className = "text-sm font-medium text-gray-300 min-w-fit";
+
+  const stepsPerFrameSlider = document.createElement("input");
+  stepsPerFrameSlider.type = "range";
+  stepsPerFrameSlider.min = "1";
+  stepsPerFrameSlider.max = "50";
+  stepsPerFrameSlider.value = "1";
+  stepsPerFrameSlider.id = "steps-per-frame";
+  stepsPerFrameSlider.className =
+    "flex-1 h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-blue-500";
+
+  const stepsPerFrameValue = document.createElement("span");
+  stepsPerFrameValue.textContent = stepsPerFrameSlider.value;
+  stepsPerFrameValue.className =
+    "text-sm font-medium text-blue-400 min-w-[2rem] text-right";
+
+  stepsPerFrameWrapper.append(
+    stepsPerFrameLabel,
+    stepsPerFrameSlider,
+    stepsPerFrameValue
+  );
+  runSettings.appendChild(stepsPerFrameWrapper);
+
+  const tickLabel = document.createElement("div");
+  tickLabel.className = "text-sm font-medium text-gray-300";
+  runSettings.appendChild(tickLabel);
+
+  // Field export (units follow the display units)
+  const exportWrapper = document.createElement("div");
+  exportWrapper.className = "flex items-center gap-3";
+  const exportFormatSelect = document.createElement("select");
+  exportFormatSelect.className =
+    "px-2 py-1 bg-gray-700 text-white rounded-lg border border-gray-600 cursor-pointer";
+  for (const [label, value] of Object.entries(ExportFormats)) {
+    const opt = document.createElement("option");
+    opt.value = value;
+    opt.textContent = label;
+    exportFormatSelect.appendChild(opt);
+  }
+  const exportBtn = document.createElement("button");
+  exportBtn.textContent = "Export fields";
+  exportBtn.className =
+    "flex-1 px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-all border border-gray-600";
+  exportWrapper.append(exportFormatSelect, exportBtn);
+  const exportStatus = document.createElement("div");
+  exportStatus.className = "text-xs text-gray-300 max-w-xs";
+  runSettings.append(exportWrapper, exportStatus);
+
+  exportBtn.addEventListener("click", async () => {
+    exportBtn.disabled = true;
+    exportStatus.textContent = "";
+    try {
+      await lbm.downloadFields(exportFormatSelect.value as ExportFormat, {
+        units: unitModeSelect.value as ExportUnits,
+      });
+    } catch (e) {
+      exportStatus.textContent = `Export failed: ${
+        e instanceof Error ? e.message : String(e)
+      }`;
+    } finally {
+      exportBtn.disabled = false;
+    }
+  });
+
+  // Checkpoints: file download/upload and IndexedDB slots
+  const buttonClass =
+    "flex-1 px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-all border border-gray-600";
+  function button(text: string) {
+    const btn = document.createElement("button");
+    btn.textContent = text;
+    btn.className = buttonClass;
+    return btn;
+  }
+  const checkpointStatus = document.createElement("div");
+  checkpointStatus.className = "text-xs text-gray-300 max-w-xs";
+
+  const saveCheckpointBtn = button("Save checkpoint");
+  const loadCheckpointBtn = button("Load checkpoint");
+  const checkpointFileInput = document.createElement("input");
+  checkpointFileInput.type = "file";
+  checkpointFileInput.accept = CHECKPOINT_EXTENSION;
+  checkpointFileInput.className = "hidden";
+  const checkpointFileRow = document.createElement("div");
+  checkpointFileRow.className = "flex gap-3";
+  checkpointFileRow.append(
+    saveCheckpointBtn,
+    loadCheckpointBtn,
+    checkpointFileInput
+  );
+
+  const storedSelect = document.createElement("select");
+  storedSelect.className =
+    "flex-1 px-2 py-1 bg-gray-700 text-white rounded-lg border border-gray-600 cursor-pointer";
+  const storeCheckpointBtn = button("Store");
+  const restoreCheckpointBtn = button("Resume");
+  const deleteCheckpointBtn = button("Delete");
+  const checkpointStoreRow = document.createElement("div");
+  checkpointStoreRow.className = "flex gap-3";
+  checkpointStoreRow.append(
+    storedSelect,
+    storeCheckpointBtn,
+    restoreCheckpointBtn,
+    deleteCheckpointBtn
+  );
+  runSettings.append(checkpointFileRow, checkpointStoreRow, checkpointStatus);
+
+  async function refreshStoredCheckpoints(selected?: string) {
+    const stored = await listStoredCheckpoints();
+    storedSelect.innerHTML = "";
+    for (const ck of stored) {
+      const opt = document.createElement("option");
+      opt.value = ck.name;
+      const mb = (ck.byteLength / 2 ** 20).toFixed(1);
+      opt.textContent = `${ck.name} (${mb} MB)`;
+      storedSelect.appendChild(opt);
+    }
+    if (selected) storedSelect.value = selected;
+    syncStoredButtons();
+  }
+
+  // Resume/Delete need a stored checkpoint
+  function syncStoredButtons() {
+    restoreCheckpointBtn.disabled = deleteCheckpointBtn.disabled =
+      !storedSelect.options.length;
+  }
+
+  // switches the grid size if needed, then restores the exact state
+  async function restoreCheckpoint(data: Uint8Array) {
+    // the whole file is checked before the running state is given up
+    const ck = decodeCheckpoint(data);
+    const next = { Nx: ck.Nx, Ny: ck.Ny };
+    if (next.Nx !== size.Nx || next.Ny !== size.Ny) {
+      if (!fits(next)) {
+        throw new Error(
+          `Checkpoint grid ${next.Nx} × ${next.Ny} exceeds this device.`
+        );
+      }
+      scenario = null; // not for recreate(): the checkpoint replaces it
+      await changeResolution(next);
+    }
+    lbm.loadCheckpoint(ck);
+    scenario = null;
+    scenarioSelect.value = "";
+    saveScenarioBtn.disabled = true;
+    clearObstacleList();
+    syncRunControls();
+    syncEdgeSelects();
+    syncPhysicsInputs();
+    syncParamSliders();
+    syncCollisionInputs();
+    syncInletInputs();
+    checkpointStatus.textContent = `Restored tick ${ck.tick} (saved ${ck.savedAt}).`;
+  }
+
+  // runs an async checkpoint action, reporting failures in the status line
+  function checkpointAction(
+    btn: HTMLButtonElement,
+    action: () => Promise<void>
+  ) {
+    btn.addEventListener("click", async () => {
+      btn.disabled = true;
+      try {
+        await action();
+      } catch (e) {
+        checkpointStatus.textContent =
+          e instanceof Error ? e.message : String(e);
+      } finally {
+        btn.disabled = false;
+        syncStoredButtons();
+      }
+    });
+  }
+
+  // names come from the saved data: the run may advance while saving
+  checkpointAction(saveCheckpointBtn, async () => {
+    const data = await lbm.saveCheckpoint();
+    const { Nx, Ny, tick } = peekCheckpoint(data);
+    const name = `weblbm_${Nx}x${Ny}_t${tick}${CHECKPOINT_EXTENSION}`;
+    downloadBlob(new Blob([data]), name);
+  });
+  loadCheckpointBtn.addEventListener("click", () =>
+    checkpointFileInput.click()
+  );
+  checkpointFileInput.addEventListener("change", async () => {
+    const file = checkpointFileInput.files?.[0];
+    checkpointFileInput.value = ""; // allow loading the same file again
+    if (!file) return;
+    try {
+      await restoreCheckpoint(new Uint8Array(await file.arrayBuffer()));
+    } catch (e) {
+      checkpointStatus.textContent = e instanceof Error ? e.message : String(e);
+    }
+  });
+  checkpointAction(storeCheckpointBtn, async () => {
+    const data = await lbm.saveCheckpoint();
+    const { Nx, Ny, tick } = peekCheckpoint(data);
+    const name = `${Nx}x${Ny} tick ${tick}`;
+    await storeCheckpoint(name, data);
+    await refreshStoredCheckpoints(name);
+    checkpointStatus.textContent = `Stored "${name}".`;
+  });
+  checkpointAction(restoreCheckpointBtn, async () => {
+    if (!storedSelect.value) return;
+    await restoreCheckpoint(await loadStoredCheckpoint(storedSelect.value));
+  });
+  checkpointAction(deleteCheckpointBtn, async () => {
+    if (!storedSelect.value) return;
+    await deleteStoredCheckpoint(storedSelect.value);
+    await refreshStoredCheckpoints();
+  });
+  refreshStoredCheckpoints().catch(() => {
+    // IndexedDB unavailable (e.g. private mode): file checkpoints still work
+    checkpointStoreRow.classList.add("hidden");
+  });
+
+  // Scenarios: presets and shareable JSON files
+  const scenarioSelect = document.createElement("select");
+  scenarioSelect.className =
+    "flex-1 px-2 py-1 bg-gray-700 text-white rounded-lg border border-gray-600 cursor-pointer";
+  scenarioSelect.ariaLabel = "Scenario preset";
+  for (const [value, label] of [
+    ["", "Default channel"],
+    ...Object.entries(SCENARIO_PRESET_LABELS),
+  ]) {
+    const opt = document.createElement("option");
+    opt.value = value;
+    opt.textContent = label;
+    scenarioSelect.appendChild(opt);
+  }
+  const saveScenarioBtn = button("Save");
+  const loadScenarioBtn = button("Load");
+  const scenarioFileInput = document.createElement("input");
+  scenarioFileInput.type = "file";
+  scenarioFileInput.accept = ".json,application/json";
+  scenarioFileInput.className = "hidden";
+  const scenarioRow = document.createElement("div");
+  scenarioRow.className = "flex gap-3";
+  scenarioRow.append(
+    scenarioSelect,
+    saveScenarioBtn,
+    loadScenarioBtn,
+    scenarioFileInput
+  );
+  const scenarioStatus = document.createElement("div");
+  scenarioStatus.className = "text-xs text-gray-300 max-w-xs";
+  runSettings.append(scenarioRow, scenarioStatus);
+
+  // Edge boundaries (rewrite the outer cells of the mask)
+  const EDGE_LABELS: Record<EdgeBoundary, string> = {
+    wall: "No-slip wall",
+    slip: "Free-slip wall",
+    periodic: "Periodic",
+    inlet: "Velocity inlet",
+    outlet: "Pressure outlet",
+    outflow: "Zero-gradient outflow",
+    convective: "Convective outflow",
+    zouHeInlet: "Velocity inlet (Zou-He)",
+    zouHeOutlet: "Pressure outlet (Zou-He)",
+    moving: "Moving wall",
+  };
+  const edgeSelects = {} as Record<Edge, HTMLSelectElement>;
+  const edgeGrid = document.createElement("div");
+  edgeGrid.className = "grid grid-cols-2 gap-2 text-sm text-gray-300";
+  for (const edge of EDGES) {
+    const select = document.createElement("select");
+    select.className = selectClass;
+    for (const value of Object.values(EdgeBoundaries)) {
+      const opt = document.createElement("option");
+      opt.value = value;
+      opt.textContent = EDGE_LABELS[value];
+      select.appendChild(opt);
+    }
+    select.addEventListener("change", applyEdgeSelects);
+    const row = document.createElement("label");
+    row.className = "flex items-center justify-between gap-2";
+    row.append(edge.charAt(0).toUpperCase() + edge.slice(1), select);
+    edgeGrid.appendChild(row);
+    edgeSelects[edge] = select;
+  }
+  runSettings.appendChild(edgeGrid);
+
+  // tangential speed of all moving edges (+x along bottom/top, +y along left/right)
+  const wallSpeedInput = numberInput("0.01");
+  wallSpeedInput.ariaLabel = "Moving wall speed";
+  const wallSpeedRow = document.createElement("label");
+  wallSpeedRow.className =
+    "flex items-center justify-between gap-2 text-sm text-gray-300";
+  wallSpeedRow.append("Moving wall speed", wallSpeedInput);
+  runSettings.appendChild(wallSpeedRow);
+  wallSpeedInput.addEventListener("change", applyEdgeSelects);
+
+  // Inlet velocity: profile across the inlet, modulation in time
+  function runSettingsRow(label: string, control: HTMLElement) {
+    const row = document.createElement("label");
+    row.className =
+      "flex items-center justify-between gap-2 text-sm text-gray-300";
+    row.append(label, control);
+    runSettings.appendChild(row);
+    return row;
+  }
+  const INLET_PROFILE_LABELS: Record<InletProfileKind, string> = {
+    uniform: "Uniform",
+    parabolic: "Parabolic",
+    custom: "Custom f(s, y, H)",
+  };
+  const inletProfileSelect = document.createElement("select");
+  inletProfileSelect.className = selectClass;
+  for (const value of Object.values(InletProfiles)) {
+    const opt = document.createElement("option");
+    opt.value = value;
+    opt.textContent = INLET_PROFILE_LABELS[value];
+    inletProfileSelect.appendChild(opt);
+  }
+  runSettingsRow("Inlet profile", inletProfileSelect);
+  const inletExpressionInput = document.createElement("input");
+  inletExpressionInput.type = "text";
+  inletExpressionInput.className = inputClass;
+  inletExpressionInput.placeholder = "4*s*(1-s)";
+  inletExpressionInput.title =
+    "s: 0..1 across the inlet, y: cell, H: inlet width; + - * / ^, sin, cos, exp, sqrt, abs, pi";
+  const inletExpressionRow = runSettingsRow(
+    "Profile f(s)",
+    inletExpressionInput
+  );
+  const inletRampInput = numberInput("100");
+  inletRampInput.min = "0";
+  inletRampInput.value = "0";
+  runSettingsRow("Inlet ramp-up [ticks]", inletRampInput);
+  const inletAmplitudeInput = numberInput("0.05");
+  inletAmplitudeInput.value = "0";
+  runSettingsRow("Pulsation amplitude", inletAmplitudeInput);
+  const inletPeriodInput = numberInput("100");
+  inletPeriodInput.min = "1";
+  inletPeriodInput.value = "1000";
+  runSettingsRow("Pulsation period [ticks]", inletPeriodInput);
+  const inletStepsInput = document.createElement("input");
+  inletStepsInput.type = "text";
+  inletStepsInput.className = inputClass;
+  inletStepsInput.placeholder = "2000:1.5, 4000:1";
+  inletStepsInput.title = "Step changes as tick:scale, comma separated";
+  runSettingsRow("Inlet steps", inletStepsInput);
+
+  // "tick:scale, tick:scale" -> steps (throws on malformed entries)
+  function parseInletSteps(text: string): InletModulation["steps"] {
+    return text
+      .split(",")
+      .map((entry) => entry.trim())
+      .filter(Boolean)
+      .map((entry) => {
+        const [tick, scale] = entry.split(":").map(Number);
+        if (!Number.isFinite(tick) || !Number.isFinite(scale)) {
+          throw new Error(`Inlet step "${entry}" is not tick:scale.`);
+        }
+        return { tick, scale };
+      });
+  }
+
+  function applyInletInputs(this: unknown) {
+    const kind = inletProfileSelect.value as InletProfileKind;
+    inletExpressionRow.classList.toggle("hidden", kind !== "custom");
+    const inputs = [inletExpressionInput, inletStepsInput];
+    try {
+      lbm.setInletProfile({ kind, expression: inletExpressionInput.value });
+      lbm.setInletModulation({
+        ramp: Number(inletRampInput.value) || 0,
+        amplitude: Number(inletAmplitudeInput.value) || 0,
+        period: Number(inletPeriodInput.value) || 0,
+        steps: parseInletSteps(inletStepsInput.value),
+      });
+      for (const input of inputs) input.setCustomValidity("");
+    } catch (e) {
+      const input =
+        this === inletExpressionInput ? inletExpressionInput : inletStepsInput;
+      input.setCustomValidity(e instanceof Error ? e.message : String(e));
+      input.reportValidity();
+    }
+  }
+  function syncInletInputs() {
+    const profile = lbm.inletProfile;
+    const m = lbm.inletModulation;
+    inletProfileSelect.value = profile.kind;
+    inletExpressionInput.value = profile.expression ?? "";
+    inletExpressionRow.classList.toggle("hidden", profile.kind !== "custom");
+    inletRampInput.value = String(m.ramp);
+    inletAmplitudeInput.value = String(m.amplitude);
+    inletPeriodInput.value = String(m.period);
+    inletStepsInput.value = m.steps
+      .map(({ tick, scale }) => `${tick}:${scale}`)
+      .join(", ");
+    for (const input of [inletExpressionInput, inletStepsInput]) {
+      input.setCustomValidity("");
+    }
+  }
+  for (const input of [
+    inletProfileSelect,
+    inletExpressionInput,
+    inletRampInput,
+    inletAmplitudeInput,
+    inletPeriodInput,
+    inletStepsInput,
+  ]) {
+    input.addEventListener("change", applyInletInputs);
+  }
+
+  // Flow-line overlays over the colormapped field (see overlay.ts)
+  const overlaySettings = document.createElement("div");
+  overlaySettings.className = "flex flex-col gap-2 text-sm text-gray-300";
+  visRangeRow.after(overlaySettings);
+  function overlayRow(label: string, ...controls: HTMLElement[]) {
+    const row = document.createElement("label");
+    row.className = "flex items-center justify-between gap-2";
+    row.append(label, ...controls);
+    overlaySettings.appendChild(row);
+    return row;
+  }
+  const overlayToggles = document.createElement("div");
+  overlayToggles.className = "flex items-center gap-3";
+  const overlayCheckbox = (parent: HTMLElement, label: string) => {
+    const checkbox = document.createElement("input");
+    checkbox.type = "checkbox";
+    checkbox.className = "h-4 w-4 accent-blue-500 cursor-pointer";
+    const wrapper = document.createElement("label");
+    wrapper.className = "flex items-center gap-1";
+    wrapper.append(checkbox, label);
+    parent.appendChild(wrapper);
+    return checkbox;
+  };
+  const glyphsCheckbox = overlayCheckbox(overlayToggles, "Glyphs");
+  const streamlinesCheckbox = overlayCheckbox(overlayToggles, "Streamlines");
+  const licCheckbox = overlayCheckbox(overlayToggles, "LIC");
+  overlaySettings.append("Overlays", overlayToggles);
+
+  const glyphSpacingInput = numberInput("1");
+  const glyphScaleInput = numberInput("any");
+  const glyphRows = [
+    overlayRow("Glyph spacing [cells]", glyphSpacingInput),
+    overlayRow("Glyph length per |u|", glyphScaleInput),
+  ];
+
+  const seedingSelect = document.createElement("select");
+  seedingSelect.className = selectClass;
+  for (const [label, value] of [
+    ["From inlet", StreamlineSeedings.INLET],
+    ["Along a line", StreamlineSeedings.LINE],
+  ] as const) {
+    const opt = document.createElement("option");
+    opt.value = value;
+    opt.textContent = label;
+    seedingSelect.appendChild(opt);
+  }
+  const seedCountInput = numberInput("1");
+  const streamlineLengthInput = numberInput("1");
+  const seedLineInputs = (["x0", "y0", "x1", "y1"] as const).map((key) => {
+    const input = numberInput("1");
+    input.className =
+      "w-14 px-1 py-1 bg-gray-700 text-white rounded-lg border border-gray-600";
+    input.ariaLabel = `Seed line ${key}`;
+    input.placeholder = key;
+    return input;
+  });
+  const seedLineRow = overlayRow("Seed line", ...seedLineInputs);
+  const streamlineRows = [
+    overlayRow("Seeds", seedingSelect),
+    seedLineRow,
+    overlayRow("Streamlines", seedCountInput),
+    overlayRow("Points per line", streamlineLengthInput),
+  ];
+
+  const licLengthInput = numberInput("1");
+  const licStrengthInput = numberInput("0.1");
+  const licRows = [
+    overlayRow("LIC length [cells]", licLengthInput),
+    overlayRow("LIC strength", licStrengthInput),
+  ];
+
+  function showOverlayRows() {
+    for (const row of glyphRows) {
+      row.classList.toggle("hidden", !glyphsCheckbox.checked);
+    }
+    for (const row of streamlineRows) {
+      row.classList.toggle("hidden", !streamlinesCheckbox.checked);
+    }
+    seedLineRow.classList.toggle(
+      "hidden",
+      !streamlinesCheckbox.checked ||
+        seedingSelect.value !== StreamlineSeedings.LINE
+    );
+    for (const row of licRows) {
+      row.classList.toggle("hidden", !licCheckbox.checked);
+    }
+  }
+  function applyOverlayInputs(this: unknown) {
+    showOverlayRows();
+    const [x0, y0, x1, y1] = seedLineInputs.map((i) => Number(i.value) || 0);
+    const target = this instanceof HTMLInputElement ? this : glyphSpacingInput;
+    try {
+      lbm.setOverlays({
+        glyphs: glyphsCheckbox.checked,
+        glyphSpacing: Number(glyphSpacingInput.value),
+        glyphScale: Number(glyphScaleInput.value),
+        streamlines: streamlinesCheckbox.checked,
+        seeding: seedingSelect.value as StreamlineSeeding,
+        seedLine: { x0, y0, x1, y1 },
+        seedCount: Number(seedCountInput.value),
+        streamlineLength: Number(streamlineLengthInput.value),
+        lic: licCheckbox.checked,
+        licLength: Number(licLengthInput.value),
+        licStrength: Number(licStrengthInput.value),
+      });
+      for (const input of overlayInputs) input.setCustomValidity("");
+    } catch (e) {
+      target.setCustomValidity(e instanceof Error ? e.message : String(e));
+      target.reportValidity();
+    }
+  }
+  function fillOverlayInputs(o: OverlaySettings) {
+    glyphsCheckbox.checked = o.glyphs;
+    glyphSpacingInput.value = String(o.glyphSpacing);
+    glyphScaleInput.value = String(o.glyphScale);
+    streamlinesCheckbox.checked = o.streamlines;
+    seedingSelect.value = o.seeding;
+    [o.seedLine.x0, o.seedLine.y0, o.seedLine.x1, o.seedLine.y1].forEach(
+      (v, k) => (seedLineInputs[k].value = String(v))
+    );
+    seedCountInput.value = String(o.seedCount);
+    streamlineLengthInput.value = String(o.streamlineLength);
+    licCheckbox.checked = o.lic;
+    licLengthInput.value = String(o.licLength);
+    licStrengthInput.value = String(o.licStrength);
+    showOverlayRows();
+  }
+  seedingSelect.addEventListener("change", () => {
+    // a vertical line upstream as a starting point
+    if (seedLineInputs.every((i) => !Number(i.value))) {
+      const x = Math.round(size.Nx / 4);
+      const values = [
+        x,
+        Math.round(size.Ny / 4),
+        x,
+        Math.round((3 * size.Ny) / 4),
+      ];
+      values.forEach((v, k) => (seedLineInputs[k].value = String(v)));
+    }
+    applyOverlayInputs.call(seedingSelect);
+  });
+  const overlayInputs = [
+    glyphsCheckbox,
+    glyphSpacingInput,
+    glyphScaleInput,
+    streamlinesCheckbox,
+    ...seedLineInputs,
+    seedCountInput,
+    streamlineLengthInput,
+    licCheckbox,
+    licLengthInput,
+    licStrengthInput,
+  ];
+  for (const input of overlayInputs) {
+    input.addEventListener("change", applyOverlayInputs);
+  }
+  fillOverlayInputs(DEFAULT_OVERLAYS); // applied by recreate()
+
+  // Passive tracers: particles and dye advected with the flow (see tracer.ts)
+  const tracerToggles = document.createElement("div");
+  tracerToggles.className = "flex items-center gap-3";
+  const particlesCheckbox = overlayCheckbox(tracerToggles, "Particles");
+  const dyeCheckbox = overlayCheckbox(tracerToggles, "Dye");
+  overlaySettings.append("Tracers", tracerToggles);
+
+  const tracerSourceSelect = document.createElement("select");
+  tracerSourceSelect.className = selectClass;
+  for (const [label, value] of [
+    ["From inlet", TracerSources.INLET],
+    ["Seed points", TracerSources.POINTS],
+  ] as const) {
+    const opt = document.createElement("option");
+    opt.value = value;
+    opt.textContent = label;
+    tracerSourceSelect.appendChild(opt);
+  }
+  const seedPointsInput = document.createElement("input");
+  seedPointsInput.type = "text";
+  seedPointsInput.placeholder = "x,y; x,y";
+  seedPointsInput.className = inputClass;
+  const sourceRadiusInput = numberInput("1");
+  const particleCountInput = numberInput("1024");
+  const particleLifetimeInput = numberInput("100");
+  const particleSizeInput = numberInput("0.5");
+  const dyeDiffusivityInput = numberInput("0.001");
+  const dyeStripesInput = numberInput("1");
+  const dyeColorInput = document.createElement("input");
+  dyeColorInput.type = "color";
+  dyeColorInput.className = "h-7 w-12 bg-transparent cursor-pointer";
+  const dyeOpacityInput = numberInput("0.1");
+  const resetParticlesBtn = button("Reset particles");
+  const resetDyeBtn = button("Reset dye");
+  const tracerResetRow = document.createElement("div");
+  tracerResetRow.className = "flex gap-2";
+  tracerResetRow.append(resetParticlesBtn, resetDyeBtn);
+
+  const tracerSourceRows = [
+    overlayRow("Source", tracerSourceSelect),
+    overlayRow("Seed points", seedPointsInput),
+    overlayRow("Dye source radius", sourceRadiusInput),
+  ];
+  const particleRows = [
+    overlayRow("Particles", particleCountInput),
+    overlayRow("Lifetime [ticks]", particleLifetimeInput),
+    overlayRow("Particle size [cells]", particleSizeInput),
+  ];
+  const dyeRows = [
+    overlayRow("Dye diffusivity", dyeDiffusivityInput),
+    overlayRow("Inlet stripes [cells]", dyeStripesInput),
+    overlayRow("Dye color", dyeColorInput),
+    overlayRow("Dye opacity", dyeOpacityInput),
+  ];
+  overlaySettings.appendChild(tracerResetRow);
+
+  function showTracerRows() {
+    const particles = particlesCheckbox.checked;
+    const dye = dyeCheckbox.checked;
+    const points = tracerSourceSelect.value === TracerSources.POINTS;
+    const [sourceRow, pointsRow, radiusRow] = tracerSourceRows;
+    sourceRow.classList.toggle("hidden", !particles && !dye);
+    pointsRow.classList.toggle("hidden", (!particles && !dye) || !points);
+    radiusRow.classList.toggle("hidden", !dye || !points);
+    for (const row of particleRows) row.classList.toggle("hidden", !particles);
+    for (const row of dyeRows) row.classList.toggle("hidden", !dye);
+    dyeRows[1].classList.toggle("hidden", !dye || points);
+    tracerResetRow.classList.toggle("hidden", !particles && !dye);
+  }
+  // "x,y; x,y" -> seed points in cells
+  function parseSeedPoints(text: string): Array<{ x: number; y: number }> {
+    return text
+      .split(";")
+      .map((entry) => entry.trim())
+      .filter(Boolean)
+      .map((entry) => {
+        const [x, y] = entry.split(",").map(Number);
+        if (!Number.isFinite(x) || !Number.isFinite(y)) {
+          throw new Error(`Seed point "${entry}" is not x,y.`);
+        }
+        return { x, y };
+      });
+  }
+  function applyTracerInputs(this: unknown) {
+    showTracerRows();
+    const target = this instanceof HTMLInputElement ? this : particleCountInput;
+    try {
+      lbm.setTracers({
+        particles: particlesCheckbox.checked,
+        particleCount: Number(particleCountInput.value),
+        particleLifetime: Number(particleLifetimeInput.value),
+        particleSize: Number(particleSizeInput.value),
+        dye: dyeCheckbox.checked,
+        dyeDiffusivity: Number(dyeDiffusivityInput.value),
+        dyeStripes: Number(dyeStripesInput.value),
+        dyeColor: dyeColorInput.value,
+        dyeOpacity: Number(dyeOpacityInput.value),
+        source: tracerSourceSelect.value as TracerSource,
+        seedPoints: parseSeedPoints(seedPointsInput.value),
+        sourceRadius: Number(sourceRadiusInput.value),
+      });
+      for (const input of tracerInputs) input.setCustomValidity("");
+    } catch (e) {
+      target.setCustomValidity(e instanceof Error ? e.message : String(e));
+      target.reportValidity();
+    }
+  }
+  function fillTracerInputs(t: TracerSettings) {
+    particlesCheckbox.checked = t.particles;
+    particleCountInput.value = String(t.particleCount);
+    particleLifetimeInput.value = String(t.particleLifetime);
+    particleSizeInput.value = String(t.particleSize);
+    dyeCheckbox.checked = t.dye;
+    dyeDiffusivityInput.value = String(t.dyeDiffusivity);
+    dyeStripesInput.value = String(t.dyeStripes);
+    dyeColorInput.value = t.dyeColor;
+    dyeOpacityInput.value = String(t.dyeOpacity);
+    tracerSourceSelect.value = t.source;
+    seedPointsInput.value = t.seedPoints.map((p) => `${p.x},${p.y}`).join("; ");
+    sourceRadiusInput.value = String(t.sourceRadius);
+    showTracerRows();
+  }
+  tracerSourceSelect.addEventListener("change", () => {
+    // one point upstream in the middle as a starting point
+    if (!seedPointsInput.value.trim()) {
+      seedPointsInput.value = `${Math.round(size.Nx / 8)},${Math.round(
+        size.Ny / 2
+      )}`;
+    }
+    applyTracerInputs.call(seedPointsInput);
+  });
+  const tracerInputs = [
+    particlesCheckbox,
+    particleCountInput,
+    particleLifetimeInput,
+    particleSizeInput,
+    dyeCheckbox,
+    dyeDiffusivityInput,
+    dyeStripesInput,
+    dyeColorInput,
+    dyeOpacityInput,
+    seedPointsInput,
+    sourceRadiusInput,
+  ];
+  for (const input of tracerInputs) {
+    input.addEventListener("change", applyTracerInputs);
+  }
+  resetParticlesBtn.addEventListener("click", () => lbm.resetParticles());
+  resetDyeBtn.addEventListener("click", () => lbm.resetDye());
+  fillTracerInputs(DEFAULT_TRACERS); // applied by recreate()
+
+  function applyEdgeSelects(this: HTMLElement) {
+    const edges = {} as Record<Edge, EdgeBoundary>;
+    const velocity: Partial<Record<Edge, number>> = {};
+    const speed = Number(wallSpeedInput.value) || 0;
+    for (const edge of EDGES) {
+      edges[edge] = edgeSelects[edge].value as EdgeBoundary;
+      if (edges[edge] === "moving") velocity[edge] = speed;
+    }
+    try {
+      lbm.setEdges(edges, velocity);
+      for (const edge of EDGES) edgeSelects[edge].setCustomValidity("");
+    } catch (e) {
+      const select =
+        this instanceof HTMLSelectElement ? this : edgeSelects.left;
+      select.setCustomValidity(e instanceof Error ? e.message : String(e));
+      select.reportValidity();
+    }
+  }
+  function syncEdgeSelects() {
+    const edges = lbm.edges;
+    for (const edge of EDGES) {
+      edgeSelects[edge].value = edges[edge];
+      edgeSelects[edge].setCustomValidity("");
+    }
+    const velocity = lbm.edgeVelocity;
+    const moving = EDGES.find((e) => edges[e] === "moving");
+    wallSpeedInput.value = String((moving && velocity[moving]) ?? 0);
+  }
+
+  // switches the grid size if needed (recreate applies `scenario`)
+  // the UI keeps its scenario unless the LBM took the new one
+  async function applyScenario(next: Scenario | null) {
+    if (next && (next.Nx !== size.Nx || next.Ny !== size.Ny)) {
+      if (!fits(next)) {
+        throw new Error(
+          `Scenario grid ${next.Nx} × ${next.Ny} exceeds this device.`
+        );
+      }
+      scenario = next; // applied by recreate()
+      await changeResolution({ Nx: next.Nx, Ny: next.Ny });
+    } else if (next) {
+      lbm.setScenario(next);
+      scenario = next;
+    } else {
+      lbm.clearScenario();
+      scenario = null;
+    }
+    clearObstacleList();
+    syncPhysicsInputs();
+    syncParamSliders();
+    syncEdgeSelects();
+    syncInletInputs();
+    saveScenarioBtn.disabled = !scenario;
+  }
+
+  // the active scenario with the live parameters and placed obstacles
+  function currentScenario(): Scenario | null {
+    const s = lbm.scenario;
+    if (!s) return null;
+    const { rho, ux, uy } = lbm.initialState;
+    return {
+      ...s,
+      edges: lbm.edges,
+      edgeVelocity: lbm.edgeVelocity,
+      obstacles: [...s.obstacles, ...placedObstacles],
+      inlet: {
+        ...s.inlet,
+        ...lbm.inletVelocity,
+        profile: lbm.inletProfile,
+        modulation: lbm.inletModulation,
+      },
+      physics: {
+        tau: lbm.tau,
+        rhoOut: lbm.outletDensity,
+        forceX: lbm.bodyForce.fx,
+        forceY: lbm.bodyForce.fy,
+      },
+      initial: { rho, ux, uy },
+    };
+  }
+
+  scenarioSelect.addEventListener("change", async () => {
+    const preset = scenarioSelect.value as ScenarioPreset | "";
+    try {
+      await applyScenario(
+        preset ? createPreset(preset, size.Nx, size.Ny) : null
+      );
+      scenarioStatus.textContent = "";
+    } catch (e) {
+      scenarioStatus.textContent = e instanceof Error ? e.message : String(e);
+    }
+  });
+  saveScenarioBtn.addEventListener("click", () => {
+    const s = currentScenario();
+    if (!s) return;
+    const blob = new Blob([serializeScenario(s)], { type: "application/json" });
+    downloadBlob(blob, `${s.name.replace(/\W+/g, "-").toLowerCase()}.json`);
+  });
+  loadScenarioBtn.addEventListener("click", () => scenarioFileInput.click());
+  scenarioFileInput.addEventListener("change", async () => {
+    const file = scenarioFileInput.files?.[0];
+    scenarioFileInput.value = "";
+    if (!file) return;
+    try {
+      const s = parseScenario(await file.text());
+      scenarioSelect.value = "";
+      await applyScenario(s);
+      scenarioStatus.textContent = `Loaded scenario "${s.name}".`;
+    } catch (e) {
+      scenarioStatus.textContent = e instanceof Error ? e.message : String(e);
+    }
+  });
 
-    resizeCanvasSquare();
+  // Diagnostic shown when the stability check pauses a diverging run
+  const instabilityBanner = document.createElement("div");
+  instabilityBanner.setAttribute("role", "alert");
+  instabilityBanner.className =
+    "hidden absolute top-3 left-1/2 -translate-x-1/2 max-w-md space-y-2 bg-red-900/90 text-white text-sm p-3 rounded-lg border border-red-500";
+  const instabilityText = document.createElement("p");
+  const instabilityHint = document.createElement("p");
+  instabilityHint.className = "text-red-200";
+  instabilityHint.textContent =
+    "Increase τ (or enable LES), lower the inlet velocity, then restart.";
+  const instabilityRestartBtn = document.createElement("button");
+  instabilityRestartBtn.textContent = "Restart Sim";
+  instabilityRestartBtn.className =
+    "px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-all border border-gray-600";
+  instabilityBanner.append(
+    instabilityText,
+    instabilityHint,
+    instabilityRestartBtn
+  );
+  document.getElementById("wrapper")?.appendChild(instabilityBanner);
+
+  function syncRunControls() {
+    pauseBtn.textContent = lbm.state === "running" ? "Pause" : "Resume";
+    stepBtn.disabled = lbm.state === "running";
+    stepBtn.classList.toggle("opacity-50", stepBtn.disabled);
+
+    // the diverged field is noise: fade it out behind the diagnostic
+    const report = lbm.instability;
+    instabilityText.textContent = report ? describeInstability(report) : "";
+    instabilityBanner.classList.toggle("hidden", !report);
+    canvas.classList.toggle("opacity-25", !!report);
   }
 
-  refreshResolutionOptions(N);
-  await recreate(N);
+  pauseBtn.addEventListener("click", () => {
+    lbm.togglePause();
+    syncRunControls();
+  });
+  stepBtn.addEventListener("click", () => {
+    lbm.step(Math.max(1, Number(stepCountInput.value) || 1));
+    syncRunControls();
+  });
+  stopBtn.addEventListener("click", () => {
+    lbm.stop();
+    syncRunControls();
+  });
+  stepsPerFrameSlider.addEventListener("input", () => {
+    stepsPerFrameValue.textContent = stepsPerFrameSlider.value;
+    lbm.setStepsPerFrame(Number(stepsPerFrameSlider.value));
+  });
+
+  // tick counter (polled, independent of the LBM loop)
+  const updateTickLabel = () => {
+    const state = lbm?.state ?? "stopped";
+    tickLabel.textContent = `Tick: ${lbm?.tick ?? 0} (${state})`;
+    physicsInfo.textContent = formatPhysicsInfo();
+    requestAnimationFrame(updateTickLabel);
+  };
+  requestAnimationFrame(updateTickLabel);
 
   const restartBtn = document.getElementById("restart-btn");
-  restartBtn?.addEventListener("click", () => lbm.run());
+  for (const btn of [restartBtn, instabilityRestartBtn]) {
+    btn?.addEventListener("click", () => {
+      lbm.restart();
+      syncRunControls();
+    });
+  }
 
   const resetCanvasBtn = document.getElementById("reset-btn");
-  resetCanvasBtn?.addEventListener("click", () => lbm.resetMask());
+  resetCanvasBtn?.addEventListener("click", () => {
+    lbm.resetMask();
+    clearObstacleList();
+  });
 
   colormapSelect?.addEventListener("change", () => {
-    lbm.setVisColormap(Number(colormapSelect.value) as any);
+    lbm.setVisColormap(colormapSelect.value);
+    syncColorbar();
+  });
+  importColormapBtn.addEventListener("click", () => colormapFileInput.click());
+  colormapFileInput.addEventListener("change", async () => {
+    const file = colormapFileInput.files?.[0];
+    colormapFileInput.value = "";
+    if (!file) return;
+    try {
+      const cmap = registerColormap(parseColormap(await file.text()));
+      addColormapOption(cmap);
+      lbm.setVisColormap(cmap.name); // uploads the LUT again if it was replaced
+      if (colormapSelect) colormapSelect.value = cmap.name;
+      syncColorbar();
+      importColormapBtn.setCustomValidity("");
+    } catch (e) {
+      importColormapBtn.setCustomValidity(
+        e instanceof Error ? e.message : String(e)
+      );
+      importColormapBtn.reportValidity();
+    }
   });
   visTypeSelect?.addEventListener("change", () => {
     lbm.setVisType(Number(visTypeSelect.value) as any);
+    if (colormapSelect) colormapSelect.value = String(lbm.visColormap);
+    syncColorbar();
   });
 
   // Brush UI
@@ -222,31 +1689,459 @@ try {
   brushSizeSliderWrapper.appendChild(brushSizeValue);
   paintSettings.appendChild(brushSizeSliderWrapper);
 
+  // Shape import: image silhouette or SVG path, rasterized into the mask
+  let shape: ShapeSource | null = null;
+  const shapeFileInput = document.createElement("input");
+  shapeFileInput.type = "file";
+  shapeFileInput.accept = "image/*,.svg";
+  shapeFileInput.className = "text-sm text-gray-300";
+  shapeFileInput.ariaLabel = "Obstacle image or SVG";
+
+  const shapePathInput = document.createElement("input");
+  shapePathInput.type = "text";
+  shapePathInput.placeholder = "or SVG path, e.g. M0 0 L10 5 L0 10 Z";
+  shapePathInput.className =
+    "px-2 py-1 bg-gray-700 text-white rounded-lg border border-gray-600";
+  shapePathInput.ariaLabel = "SVG path data";
+
+  const shapeX = numberInput("1");
+  const shapeY = numberInput("1");
+  const shapeWidth = numberInput("1");
+  const shapeRotation = numberInput("any");
+  const shapeThreshold = numberInput("0.05");
+  shapeX.placeholder = "center";
+  shapeY.placeholder = "center";
+  shapeWidth.placeholder = "Ny / 4";
+  shapeRotation.value = "0";
+  shapeThreshold.value = "0.5";
+  shapeThreshold.min = "0";
+  shapeThreshold.max = "1";
+  const shapeInvert = document.createElement("input");
+  shapeInvert.type = "checkbox";
+  shapeInvert.className = "accent-blue-500";
+
+  const shapeFields = document.createElement("div");
+  shapeFields.className = "grid grid-cols-2 gap-2 text-sm text-gray-300";
+  for (const [label, control] of [
+    ["x", shapeX],
+    ["y", shapeY],
+    ["Width", shapeWidth],
+    ["Rotation [°]", shapeRotation],
+    ["Threshold", shapeThreshold],
+    ["Invert", shapeInvert],
+  ] as const) {
+    const row = document.createElement("label");
+    row.className = "flex items-center justify-between gap-2";
+    row.append(label, control);
+    shapeFields.appendChild(row);
+  }
+
+  const placeShapeBtn = button("Place shape");
+  const shapeStatus = document.createElement("div");
+  shapeStatus.className = "text-xs text-gray-300";
+  paintSettings.append(
+    shapeFileInput,
+    shapePathInput,
+    shapeFields,
+    placeShapeBtn,
+    shapeStatus
+  );
+
+  const reportShapeError = (e: unknown) => {
+    shape = null;
+    shapeStatus.textContent = e instanceof Error ? e.message : String(e);
+  };
+  shapeFileInput.addEventListener("change", async () => {
+    const file = shapeFileInput.files?.[0];
+    if (!file) return;
+    shapePathInput.value = "";
+    try {
+      shape = await loadShapeFile(file);
+      shapeStatus.textContent = `${file.name}: ${shape.width} × ${shape.height}`;
+    } catch (e) {
+      reportShapeError(e);
+    }
+  });
+  shapePathInput.addEventListener("change", async () => {
+    const d = shapePathInput.value.trim();
+    if (!d) return;
+    shapeFileInput.value = "";
+    try {
+      shape = await loadSvgPath(d);
+      shapeStatus.textContent = "SVG path loaded.";
+    } catch (e) {
+      reportShapeError(e);
+    }
+  });
+
+  placeShapeBtn.addEventListener("click", () => {
+    if (!shape) {
+      shapeStatus.textContent = "Choose an image or enter an SVG path first.";
+      return;
+    }
+    const { Nx, Ny } = size;
+    const spans = rasterizeShape(
+      shape,
+      Nx,
+      Ny,
+      {
+        cx: shapeX.value ? Number(shapeX.value) : Nx / 2,
+        cy: shapeY.value ? Number(shapeY.value) : Ny / 2,
+        width: Number(shapeWidth.value) || Ny / 4,
+        rotation: Number(shapeRotation.value),
+      },
+      {
+        threshold: Number(shapeThreshold.value),
+        invert: shapeInvert.checked,
+      }
+    );
+    lbm.applyMaskSpans(spans, CELL.SOLID);
+    shapeStatus.textContent = spans.length
+      ? `Placed ${spans.length} row span(s).`
+      : "Shape is empty at this threshold.";
+  });
+
+  // Parametric obstacles: add, edit (re-rasterize) and remove
+  const obstacleKindSelect = document.createElement("select");
+  obstacleKindSelect.className = selectClass;
+  obstacleKindSelect.ariaLabel = "Obstacle type";
+  for (const [name, kind] of Object.entries(ObstacleKinds)) {
+    const opt = document.createElement("option");
+    opt.value = kind;
+    opt.textContent = name.charAt(0) + name.slice(1).toLowerCase();
+    obstacleKindSelect.appendChild(opt);
+  }
+
+  // one input per obstacle property, rebuilt when the kind changes
+  const obstacleFields = document.createElement("div");
+  obstacleFields.className = "grid grid-cols-2 gap-2 text-sm text-gray-300";
+  let obstacleInputs: Record<string, HTMLInputElement> = {};
+  function showObstacle(o: Obstacle) {
+    obstacleKindSelect.value = o.kind;
+    obstacleFields.innerHTML = "";
+    obstacleInputs = {};
+    for (const [key, value] of Object.entries(o)) {
+      if (key === "kind" || key === "motion") continue;
+      let input: HTMLInputElement;
+      if (typeof value === "boolean") {
+        input = document.createElement("input");
+        input.type = "checkbox";
+        input.checked = value;
+        input.className = "accent-blue-500";
+      } else if (typeof value === "number") {
+        input = numberInput("any");
+        input.value = String(value);
+      } else {
+        input = document.createElement("input");
+        input.type = "text";
+        input.value = String(value);
+        input.className = inputClass;
+      }
+      const row = document.createElement("label");
+      row.className = "flex items-center justify-between gap-2";
+      row.append(key, input);
+      obstacleFields.appendChild(row);
+      obstacleInputs[key] = input;
+    }
+    const motion = o.motion ?? { ux: 0, uy: 0, omega: 0, animate: false };
+    motionUxInput.value = String(motion.ux);
+    motionUyInput.value = String(motion.uy);
+    motionOmegaInput.value = String(motion.omega);
+    motionAnimateInput.checked = motion.animate;
+  }
+
+  // rigid motion (moving wall): velocity, spin and whether the shape travels
+  const motionUxInput = numberInput("0.01");
+  const motionUyInput = numberInput("0.01");
+  const motionOmegaInput = numberInput("0.001");
+  const motionAnimateInput = document.createElement("input");
+  motionAnimateInput.type = "checkbox";
+  motionAnimateInput.className = "accent-blue-500";
+  const motionFields = document.createElement("div");
+  motionFields.className = "grid grid-cols-2 gap-2 text-sm text-gray-300";
+  for (const [label, input] of [
+    ["wall ux", motionUxInput],
+    ["wall uy", motionUyInput],
+    ["ω [rad/step]", motionOmegaInput],
+    ["animate", motionAnimateInput],
+  ] as const) {
+    const row = document.createElement("label");
+    row.className = "flex items-center justify-between gap-2";
+    row.append(label, input);
+    motionFields.appendChild(row);
+  }
+
+  function readObstacle(): Obstacle {
+    const o: Record<string, unknown> = { kind: obstacleKindSelect.value };
+    for (const [key, input] of Object.entries(obstacleInputs)) {
+      o[key] =
+        input.type === "checkbox"
+          ? input.checked
+          : input.type === "number"
+          ? Number(input.value)
+          : input.value.trim();
+    }
+    const ux = Number(motionUxInput.value) || 0;
+    const uy = Number(motionUyInput.value) || 0;
+    const omega = Number(motionOmegaInput.value) || 0;
+    const animate = motionAnimateInput.checked;
+    if (ux || uy || omega) o.motion = { ux, uy, omega, animate };
+    return o as unknown as Obstacle;
+  }
+
+  let placedObstacles: Obstacle[] = [];
+  const placedSelect = document.createElement("select");
+  placedSelect.className =
+    "flex-1 px-2 py-1 bg-gray-700 text-white rounded-lg border border-gray-600 cursor-pointer";
+  placedSelect.ariaLabel = "Placed obstacles";
+  const addObstacleBtn = button("Add");
+  const updateObstacleBtn = button("Update");
+  const removeObstacleBtn = button("Remove");
+  const obstacleStatus = document.createElement("div");
+  obstacleStatus.className = "text-xs text-gray-300";
+
+  const obstacleButtons = document.createElement("div");
+  obstacleButtons.className = "flex gap-2";
+  obstacleButtons.append(addObstacleBtn, updateObstacleBtn, removeObstacleBtn);
+  paintSettings.append(
+    obstacleKindSelect,
+    obstacleFields,
+    motionFields,
+    placedSelect,
+    obstacleButtons,
+    obstacleStatus
+  );
+
+  function refreshObstacleList(selected = placedObstacles.length - 1) {
+    placedSelect.innerHTML = "";
+    placedObstacles.forEach((o, i) => {
+      const opt = document.createElement("option");
+      opt.value = String(i);
+      opt.textContent = describeObstacle(o);
+      placedSelect.appendChild(opt);
+    });
+    placedSelect.value = String(selected);
+    updateObstacleBtn.disabled = removeObstacleBtn.disabled =
+      !placedObstacles.length;
+  }
+  function clearObstacleList() {
+    placedObstacles = [];
+    refreshObstacleList();
+  }
+
+  // erasing keeps overlapping obstacles, the replacement is placed on top
+  function replaceObstacle(index: number, next: Obstacle | null) {
+    lbm.eraseObstacle(placedObstacles[index]);
+    if (next) {
+      placedObstacles[index] = next;
+      lbm.placeObstacle(next);
+    } else {
+      placedObstacles.splice(index, 1);
+    }
+  }
+
+  // runs an obstacle edit, reporting bad parameters in the status line
+  function obstacleAction(btn: HTMLButtonElement, action: () => void) {
+    btn.addEventListener("click", () => {
+      try {
+        action();
+        obstacleStatus.textContent = "";
+      } catch (e) {
+        obstacleStatus.textContent = e instanceof Error ? e.message : String(e);
+      }
+    });
+  }
+
+  obstacleKindSelect.addEventListener("change", () => {
+    const kind = obstacleKindSelect.value as ObstacleKind;
+    showObstacle(defaultObstacle(kind, size.Nx, size.Ny));
+  });
+  placedSelect.addEventListener("change", () => {
+    const o = placedObstacles[Number(placedSelect.value)];
+    if (o) showObstacle(o);
+  });
+  obstacleAction(addObstacleBtn, () => {
+    const o = readObstacle();
+    lbm.placeObstacle(o);
+    placedObstacles.push(o);
+    refreshObstacleList();
+  });
+  obstacleAction(updateObstacleBtn, () => {
+    const index = Number(placedSelect.value);
+    replaceObstacle(index, readObstacle());
+    refreshObstacleList(index);
+  });
+  obstacleAction(removeObstacleBtn, () => {
+    replaceObstacle(Number(placedSelect.value), null);
+    refreshObstacleList();
+  });
+
+  // Live simulation parameters (rewrite the step uniforms, no reset)
+  function paramSlider(opts: {
+    label: string;
+    min: number;
+    max: number;
+    step: number;
+    format: (v: number) => string;
+    onInput: (v: number) => void;
+  }) {
+    const wrapper = document.createElement("div");
+    wrapper.className = "flex items-center gap-3";
+
+    const label = document.createElement("label");
+    label.textContent = opts.label;
+    label.className = "text-sm font-medium text-gray-300 min-w-fit";
+
+    const slider = document.createElement("input");
+    slider.type = "range";
+    slider.min = String(opts.min);
+    slider.max = String(opts.max);
+    slider.step = String(opts.step);
+    slider.className =
+      "flex-1 h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-blue-500";
+    label.htmlFor = slider.id = `param-${opts.label.replace(/\W+/g, "-")}`;
+
+    const value = document.createElement("span");
+    value.className =
+      "text-sm font-medium text-blue-400 min-w-[4rem] text-right";
+
+    slider.addEventListener("input", () => {
+      const v = Number(slider.value);
+      value.textContent = opts.format(v);
+      opts.onInput(v);
+    });
+    // Re & co. changed -> refresh the physics inputs once the drag ends
+    slider.addEventListener("change", syncPhysicsInputs);
+
+    wrapper.append(label, slider, value);
+    paintSettings.appendChild(wrapper);
+
+    return (v: number) => {
+      slider.value = String(v);
+      value.textContent = opts.format(v);
+    };
+  }
+
+  const setInletUxSlider = paramSlider({
+    label: "Inlet ux:",
+    min: 0,
+    max: 0.2,
+    step: 0.001,
+    format: (v) => v.toFixed(3),
+    onInput: (v) => lbm.setInletVelocity(v, lbm.inletVelocity.uy),
+  });
+  const setInletUySlider = paramSlider({
+    label: "Inlet uy:",
+    min: -0.1,
+    max: 0.1,
+    step: 0.001,
+    format: (v) => v.toFixed(3),
+    onInput: (v) => lbm.setInletVelocity(lbm.inletVelocity.ux, v),
+  });
+  const setOutletRhoSlider = paramSlider({
+    label: "Outlet ρ:",
+    min: 0.95,
+    max: 1.05,
+    step: 0.001,
+    format: (v) => v.toFixed(3),
+    onInput: (v) => lbm.setOutletDensity(v),
+  });
+  const setTauSlider = paramSlider({
+    label: "τ:",
+    min: 0.501,
+    max: 2,
+    step: 0.001,
+    format: (v) => `${v.toFixed(3)} (ν ${((v - 0.5) / 3).toFixed(4)})`,
+    onInput: (v) => lbm.setTau(v),
+  });
+
+  const setForceXSlider = paramSlider({
+    label: "Force fx:",
+    min: -1e-4,
+    max: 1e-4,
+    step: 1e-6,
+    format: (v) => v.toExponential(1),
+    onInput: (v) => lbm.setBodyForce(v, lbm.bodyForce.fy),
+  });
+  const setForceYSlider = paramSlider({
+    label: "Force fy:",
+    min: -1e-4,
+    max: 1e-4,
+    step: 1e-6,
+    format: (v) => v.toExponential(1),
+    onInput: (v) => lbm.setBodyForce(lbm.bodyForce.fx, v),
+  });
+
+  function syncParamSliders() {
+    setInletUxSlider(lbm.inletVelocity.ux);
+    setInletUySlider(lbm.inletVelocity.uy);
+    setOutletRhoSlider(lbm.outletDensity);
+    setTauSlider(lbm.tau);
+    setForceXSlider(lbm.bodyForce.fx);
+    setForceYSlider(lbm.bodyForce.fy);
+  }
+
+  refreshResolutionOptions(size);
+  await recreate(size);
+
   //Resolution change handle
-  resSelect.addEventListener("change", async () => {
-    const next = Number(resSelect.value);
-    if (!Number.isFinite(next) || next < 2) return;
-    N = next;
+  async function changeResolution(next: GridSize) {
+    size = next;
+    refreshResolutionOptions(size);
     try {
-      await recreate(N);
+      await recreate(size);
     } catch (e) {
       showError(e);
     }
+  }
+
+  resSelect.addEventListener("change", async () => {
+    const [Nx, Ny] = resSelect.value.split("x").map(Number);
+    if (!fits({ Nx, Ny })) return;
+    await changeResolution({ Nx, Ny });
   });
 
-  // canvas DPR-resize
-  function resizeCanvasSquare() {
-    const cssSide = Math.min(window.innerWidth, window.innerHeight);
+  customResBtn.addEventListener("click", async () => {
+    const next = { Nx: Number(nxInput.value), Ny: Number(nyInput.value) };
+    if (!fits(next)) {
+      nxInput.setCustomValidity(
+        `Nx, Ny must be integers in [${MIN_DIM}, ${maxDim}] with Nx·Ny ≤ ${Math.min(
+          maxCells,
+          MAX_CAP
+        )} cells.`
+      );
+      nxInput.reportValidity();
+      return;
+    }
+    nxInput.setCustomValidity("");
+    await changeResolution(next);
+  });
+  nxInput.addEventListener("input", () => nxInput.setCustomValidity(""));
+
+  // canvas DPR-resize, keeps the lattice aspect ratio (Nx:Ny) and fits the window
+  function resizeCanvas() {
+    const aspect = size.Nx / size.Ny;
+    let cssW = window.innerWidth;
+    let cssH = cssW / aspect;
+    if (cssH > window.innerHeight) {
+      cssH = window.innerHeight;
+      cssW = cssH * aspect;
+    }
+    canvas.style.width = `${Math.floor(cssW)}px`;
+    canvas.style.height = `${Math.floor(cssH)}px`;
+
     const dpr = Math.max(1, window.devicePixelRatio || 1);
-    canvas.width = Math.floor(cssSide * dpr);
-    canvas.height = Math.floor(cssSide * dpr);
+    canvas.width = Math.floor(cssW * dpr);
+    canvas.height = Math.floor(cssH * dpr);
   }
 
-  window.addEventListener("resize", resizeCanvasSquare);
-  window.addEventListener("orientationchange", resizeCanvasSquare);
-  resizeCanvasSquare();
+  window.addEventListener("resize", resizeCanvas);
+  window.addEventListener("orientationchange", resizeCanvas);
+  resizeCanvas();
 } catch (e) {
-  showError(e);
+  // no usable WebGPU device: fall back to the CPU reference solver
+  const canvas = document.getElementById("canvas") as HTMLCanvasElement | null;
+  if (gpuReady || !canvas || !startCPUFallback(canvas, e)) showError(e);
 }
 
 function showError(message: unknown) {
@@ -0,0 +1,154 @@
+// Cell flags, shared by the GPU solver, the CPU reference solver and the painter.
+// Must match the CELL_* constants in common.wgsl.
+export const CELL = {
+  FLUID: 0,
+  SOLID: 1 << 0, // no-slip wall (bounce-back)
+  EQ: 1 << 1, // velocity inlet: equilibrium with the inlet density/velocity
+  SLIP: 1 << 2, // free-slip wall (specular reflection), needs a normal
+  OUTLET: 1 << 3, // pressure outlet: outlet density, velocity of the inner cell
+  OUTFLOW: 1 << 4, // zero-gradient outflow: density and velocity of the inner cell
+  MOVING: 1 << 5, // with SOLID: moving wall, velocity from the wall motion table
+  FRESH: 1 << 6, // fluid uncovered by a moving obstacle, refilled on the next step
+  // bits 8..19 hold the normal and the wall motion index (below)
+  ZOU_HE_INLET: 1 << 20, // velocity inlet, Zou-He non-equilibrium bounce-back
+  ZOU_HE_OUTLET: 1 << 21, // pressure outlet, Zou-He non-equilibrium bounce-back
+  CONVECTIVE: 1 << 22, // convective outflow: rho and u advected out, needs a normal
+} as const;
+
+// Boundary cells store the D2Q9 direction (1..4) pointing into the domain in
+// these bits; SLIP, OUTLET, OUTFLOW and the Zou-He types use it to find their
+// inner neighbour.
+export const NORMAL_SHIFT = 8;
+export const NORMAL_MASK = 0xf << NORMAL_SHIFT;
+
+export const Normals = {
+  EAST: 1, // +x (left edge)
+  WEST: 2, // -x (right edge)
+  NORTH: 3, // +y (bottom edge)
+  SOUTH: 4, // -y (top edge)
+} as const;
+export type Normal = (typeof Normals)[keyof typeof Normals];
+
+export const withNormal = (flags: number, normal: Normal): number =>
+  flags | (normal << NORMAL_SHIFT);
+
+// Moving walls (and fresh cells) store their wall motion table index here.
+export const MOTION_SHIFT = 12;
+export const MAX_WALL_MOTIONS = 256;
+
+/** Mask value of a moving wall cell using wall motion table entry `id`. */
+export const movingWall = (id: number): number =>
+  CELL.SOLID | CELL.MOVING | (id << MOTION_SHIFT);
+
+/** Mask value of a cell uncovered by moving obstacle `id` (see CELL.FRESH). */
+export const freshCell = (id: number): number =>
+  CELL.FRESH | (id << MOTION_SHIFT);
+
+export const wallMotionId = (m: number): number =>
+  (m >>> MOTION_SHIFT) & (MAX_WALL_MOTIONS - 1);
+
+/**
+ * Rigid motion of the moving wall cells of one table entry: the wall velocity
+ * at (x, y) is u + omega × (r - c), in lattice units.
+ */
+export interface WallMotion {
+  ux: number;
+  uy: number;
+  /** Angular velocity in rad per step, counter-clockwise. */
+  omega: number;
+  /** Centre of rotation (cells). */
+  cx: number;
+  cy: number;
+}
+
+export const cellNormal = (m: number): number =>
+  (m & NORMAL_MASK) >>> NORMAL_SHIFT;
+
+/** Cells that are never fluid: no-slip and free-slip walls. */
+export const isWall = (m: number): boolean =>
+  (m & (CELL.SOLID | CELL.SLIP)) !== 0;
+
+/**
+ * Zou-He boundaries: collide like fluid after rebuilding the populations that
+ * enter from outside; need a normal.
+ */
+export const isZouHe = (m: number): boolean =>
+  (m & (CELL.ZOU_HE_INLET | CELL.ZOU_HE_OUTLET)) !== 0;
+
+/** Open boundaries, reset to an equilibrium every step. */
+export const isOpenBoundary = (m: number): boolean =>
+  (m & (CELL.EQ | CELL.OUTLET | CELL.OUTFLOW | CELL.CONVECTIVE)) !== 0;
+
+/**
+ * Default channel scenario: solid top/bottom walls, a centred EQ inlet window
+ * on the left, a zero-gradient outflow on the right and a filled circle as
+ * obstacle.
+ */
+export function createDefaultMask(Nx: number, Ny: number): Uint32Array {
+  const maskData = new Uint32Array(Nx * Ny).fill(CELL.FLUID);
+
+  // walls (top & bottom)
+  for (let x = 0; x < Nx; x++) {
+    maskData[0 * Nx + x] = CELL.SOLID; // bottom wall (y=0)
+    maskData[(Ny - 1) * Nx + x] = CELL.SOLID; // top wall   (y=Ny-1)
+  }
+
+  // inlet window geometry
+  const INLET_HEIGHT = 300;
+
+  // Centered window, clamped to [1, Ny-2] (avoid solid walls)
+  let y0 = Math.floor(Ny * 0.5 - INLET_HEIGHT * 0.5);
+  let y1 = Math.floor(Ny * 0.5 + INLET_HEIGHT * 0.5) - 1; // inclusive
+
+  y0 = Math.max(1, y0);
+  y1 = Math.min(Ny - 2, y1);
+
+  // Guard against tiny/invalid windows
+  if (y1 < y0) {
+    [y0, y1] = [1, Math.min(Ny - 2, 1)];
+  }
+
+  // inlet: left column, y in [y0..y1]
+  for (let y = y0; y <= y1; y++) {
+    maskData[y * Nx + 0] = CELL.EQ;
+  }
+
+  // make the rest of the left column solid (excluding walls at y=0, y=Ny-1)
+  for (let y = 1; y < y0; y++) {
+    maskData[y * Nx + 0] = CELL.SOLID;
+  }
+  for (let y = y1 + 1; y <= Ny - 2; y++) {
+    maskData[y * Nx + 0] = CELL.SOLID;
+  }
+
+  // outlet: right column, skip wall rows
+  const outlet = withNormal(CELL.OUTFLOW, Normals.WEST);
+  for (let y = 1; y <= Ny - 2; y++) {
+    maskData[y * Nx + (Nx - 1)] = outlet;
+  }
+
+  // obstacle: filled circle
+  const cx = Math.floor(Nx * 0.5); // center x
+  const cy = Math.floor(Ny * 0.5); // center y
+  const r = Math.floor(Math.min(Nx, Ny) * 0.1); // radius
+  const r2 = r * r;
+
+  const y0c = Math.max(0, cy - r);
+  const y1c = Math.min(Ny - 1, cy + r);
+
+  for (let y = y0c; y <= y1c; y++) {
+    const dy = y - cy;
+    const dy2 = dy * dy;
+    // span of x for this scanline: fill between [cx - sqrt(r^2 - dy^2), cx + sqrt(...)]
+    let span = Math.floor(Math.sqrt(r2 - dy2));
+    if (isNaN(span)) continue; // outside circle (can happen if dy2 > r2 due to rounding)
+    let xl = Math.max(0, cx - span);
+    let xr = Math.min(Nx - 1, cx + span);
+    const off = y * Nx;
+    for (let x = xl; x <= xr; x++) {
+      maskData[off + x] = CELL.SOLID;
+    }
+  }
+
+  return maskData;
+}
@@ -0,0 +1,148 @@
+// Flow-line overlays drawn over the colormapped field: velocity glyphs,
+// streamlines and a line integral convolution (LIC) texture. All of them read
+// global_u on the GPU (overlay_compute.wgsl, overlay_draw.wgsl); this module
+// holds their settings and places the streamline seeds.
+import { CELL } from "./mask";
+
+export const MAX_STREAMLINES = 256;
+export const MAX_STREAMLINE_POINTS = 2048;
+
+export const StreamlineSeedings = {
+  INLET: "inlet", // spread over the velocity inlet cells
+  LINE: "line", // spread over a user line
+} as const;
+export type StreamlineSeeding =
+  (typeof StreamlineSeedings)[keyof typeof StreamlineSeedings];
+
+export interface OverlaySettings {
+  /** Arrows on a regular grid, length proportional to |u|. */
+  glyphs: boolean;
+  /** Cells between two arrows. */
+  glyphSpacing: number;
+  /** Arrow length in cells per lattice velocity unit. */
+  glyphScale: number;
+
+  streamlines: boolean;
+  seeding: StreamlineSeeding;
+  /** LINE seeding: end points in cells. */
+  seedLine: { x0: number; y0: number; x1: number; y1: number };
+  seedCount: number;
+  /** Points per streamline, half a cell apart. */
+  streamlineLength: number;
+
+  /** Modulates the field with noise smeared along the flow. */
+  lic: boolean;
+  /** Convolution half-length in cells. */
+  licLength: number;
+  /** 0..1, how strongly the LIC texture modulates the colors. */
+  licStrength: number;
+}
+
+export const DEFAULT_OVERLAYS: Readonly<OverlaySettings> = {
+  glyphs: false,
+  glyphSpacing: 16,
+  glyphScale: 200,
+  streamlines: false,
+  seeding: StreamlineSeedings.INLET,
+  seedLine: { x0: 0, y0: 0, x1: 0, y1: 0 },
+  seedCount: 32,
+  streamlineLength: 1024,
+  lic: false,
+  licLength: 15,
+  licStrength: 0.6,
+};
+
+/** Throws on settings the overlay passes cannot draw. */
+export function validateOverlays(o: OverlaySettings): void {
+  if (!Number.isInteger(o.glyphSpacing) || o.glyphSpacing < 2) {
+    throw new Error("Glyph spacing must be an integer ≥ 2 cells.");
+  }
+  if (!(o.glyphScale > 0)) throw new Error("Glyph scale must be positive.");
+  if (!Object.values(StreamlineSeedings).includes(o.seeding)) {
+    throw new Error(`Unknown streamline seeding "${o.seeding}".`);
+  }
+  if (
+    !Number.isInteger(o.seedCount) ||
+    o.seedCount < 1 ||
+    o.seedCount > MAX_STREAMLINES
+  ) {
+    throw new Error(`Streamline count must be 1..${MAX_STREAMLINES}.`);
+  }
+  if (
+    !Number.isInteger(o.streamlineLength) ||
+    o.streamlineLength < 2 ||
+    o.streamlineLength > MAX_STREAMLINE_POINTS
+  ) {
+    throw new Error(`Streamline length must be 2..${MAX_STREAMLINE_POINTS}.`);
+  }
+  const { x0, y0, x1, y1 } = o.seedLine;
+  if (![x0, y0, x1, y1].every(Number.isFinite)) {
+    throw new Error("Seed line needs finite end points.");
+  }
+  if (!Number.isInteger(o.licLength) || o.licLength < 1 || o.licLength > 64) {
+    throw new Error("LIC length must be 1..64 cells.");
+  }
+  if (!(o.licStrength >= 0 && o.licStrength <= 1)) {
+    throw new Error("LIC strength must be within 0..1.");
+  }
+}
+
+/**
+ * Streamline start points (x, y pairs in cells, cell centres at integers).
+ * INLET spreads them over the inlet cells on the domain edges, one cell into
+ * the domain, and falls back to the left column without inlet cells.
+ */
+export function streamlineSeeds(
+  o: OverlaySettings,
+  mask: Uint32Array,
+  Nx: number,
+  Ny: number
+): Float32Array<ArrayBuffer> {
+  const n = o.seedCount;
+  const out = new Float32Array(2 * n);
+  const clampX = (x: number) => Math.min(Nx - 1, Math.max(0, x));
+  const clampY = (y: number) => Math.min(Ny - 1, Math.max(0, y));
+
+  if (o.seeding === StreamlineSeedings.LINE) {
+    const { x0, y0, x1, y1 } = o.seedLine;
+    for (let k = 0; k < n; k++) {
+      const t = (k + 0.5) / n;
+      out[2 * k] = clampX(x0 + (x1 - x0) * t);
+      out[2 * k + 1] = clampY(y0 + (y1 - y0) * t);
+    }
+    return out;
+  }
+
+  const inlet = inletSeedPoints(mask, Nx, Ny);
+  for (let k = 0; k < n; k++) {
+    const t = (k + 0.5) / n;
+    const [x, y] = inlet.length
+      ? inlet[Math.floor(t * inlet.length)]
+      : [1, t * (Ny - 1)];
+    out[2 * k] = clampX(x);
+    out[2 * k + 1] = clampY(y);
+  }
+  return out;
+}
+
+/**
+ * One point per inlet cell (EQ or Zou-He) on the domain edges, stepped one
+ * cell into the domain; also the particle emitters (tracer.ts).
+ */
+export function inletSeedPoints(
+  mask: Uint32Array,
+  Nx: number,
+  Ny: number
+): Array<[number, number]> {
+  const points: Array<[number, number]> = [];
+  for (let cell = 0; cell < Nx * Ny; cell++) {
+    if ((mask[cell] & (CELL.EQ | CELL.ZOU_HE_INLET)) === 0) continue;
+    const x = cell % Nx;
+    const y = (cell - x) / Nx;
+    if (x === 0) points.push([1, y]);
+    else if (x === Nx - 1) points.push([Nx - 2, y]);
+    else if (y === 0) points.push([x, 1]);
+    else if (y === Ny - 1) points.push([x, Ny - 2]);
+  }
+  return points;
+}
@@ -0,0 +1,367 @@
+// Declarative simulation setups: domain, edge boundaries, obstacles, inflow,
+// physics and initial state. Plain JSON so scenarios can be shared as files.
+import { drawObstacle, validateObstacle, type Obstacle } from "./geometry";
+import {
+  validateInlet,
+  type InletModulation,
+  type InletProfile,
+} from "./inlet";
+import {
+  CELL,
+  MAX_WALL_MOTIONS,
+  movingWall,
+  Normals,
+  withNormal,
+  type Normal,
+  type WallMotion,
+} from "./mask";
+
+export const EdgeBoundaries = {
+  WALL: "wall", // no-slip bounce-back
+  SLIP: "slip", // free-slip wall (specular reflection)
+  MOVING: "moving", // no-slip wall sliding along itself (edgeVelocity)
+  PERIODIC: "periodic", // wraps to the opposite edge (both sides must agree)
+  INLET: "inlet", // velocity inlet: equilibrium with the inlet density/velocity
+  OUTLET: "outlet", // pressure outlet: outlet density, velocity from inside
+  OUTFLOW: "outflow", // zero-gradient: density and velocity from inside
+  CONVECTIVE: "convective", // convective: density and velocity advected out
+  ZOU_HE_INLET: "zouHeInlet", // velocity inlet, Zou-He (non-equilibrium bounce-back)
+  ZOU_HE_OUTLET: "zouHeOutlet", // pressure outlet, Zou-He
+} as const;
+export type EdgeBoundary = (typeof EdgeBoundaries)[keyof typeof EdgeBoundaries];
+
+export type Edge = "left" | "right" | "bottom" | "top";
+
+export interface Scenario {
+  name: string;
+  Nx: number;
+  Ny: number;
+  edges: Record<Edge, EdgeBoundary>;
+  /**
+   * Tangential speed of "moving" edges: along +x for bottom/top, +y for
+   * left/right. Missing edges rest.
+   */
+  edgeVelocity?: Partial<Record<Edge, number>>;
+  obstacles: Obstacle[];
+  /**
+   * Prescribed state of inlet cells (lattice units); the velocity is shaped
+   * across the inlet by `profile` and in time by `modulation` (inlet.ts).
+   */
+  inlet: {
+    rho: number;
+    ux: number;
+    uy: number;
+    profile?: InletProfile;
+    modulation?: InletModulation;
+  };
+  physics: {
+    tau: number;
+    /** Density of outlet cells. */
+    rhoOut: number;
+    forceX: number;
+    forceY: number;
+  };
+  /** Uniform initial state of the fluid cells (solids start at rest). */
+  initial: { rho: number; ux: number; uy: number };
+}
+
+export const ScenarioPresets = {
+  CAVITY: "cavity",
+  CHANNEL: "channel",
+  CYLINDER: "cylinder",
+  STEP: "step",
+} as const;
+export type ScenarioPreset =
+  (typeof ScenarioPresets)[keyof typeof ScenarioPresets];
+
+export const SCENARIO_PRESET_LABELS: Record<ScenarioPreset, string> = {
+  cavity: "Lid-driven cavity",
+  channel: "Poiseuille channel",
+  cylinder: "Kármán street (cylinder)",
+  step: "Backward-facing step",
+};
+
+export const EDGES: readonly Edge[] = ["left", "right", "bottom", "top"];
+
+/** Edges of the built-in channel (mask.ts), also used by the presets. */
+export const CHANNEL_EDGES: Readonly<Record<Edge, EdgeBoundary>> = {
+  left: "inlet",
+  right: "outflow",
+  bottom: "wall",
+  top: "wall",
+};
+
+/**
+ * Builds a preset for (about) the given grid; the cavity is square, so it
+ * uses the smaller side.
+ */
+export function createPreset(
+  preset: ScenarioPreset,
+  Nx: number,
+  Ny: number
+): Scenario {
+  const rest = { rho: 1, ux: 0, uy: 0 };
+  const base = {
+    name: SCENARIO_PRESET_LABELS[preset],
+    Nx,
+    Ny,
+    obstacles: [] as Obstacle[],
+    inlet: { rho: 1, ux: 0.05, uy: 0 },
+    physics: { tau: 0.6, rhoOut: 1, forceX: 0, forceY: 0 },
+    initial: rest,
+  };
+  const channel = CHANNEL_EDGES;
+
+  switch (preset) {
+    case "cavity": {
+      // lid: moving no-slip wall, Re = U N / nu
+      const N = Math.min(Nx, Ny);
+      return {
+        ...base,
+        Nx: N,
+        Ny: N,
+        edges: { left: "wall", right: "wall", bottom: "wall", top: "moving" },
+        edgeVelocity: { top: 0.1 },
+      };
+    }
+    case "channel": {
+      // body-force driven, periodic in x: u_max = F H^2 / (8 nu)
+      const tau = 0.8;
+      const nu = (tau - 0.5) / 3;
+      const H = Ny - 2;
+      return {
+        ...base,
+        edges: {
+          left: "periodic",
+          right: "periodic",
+          bottom: "wall",
+          top: "wall",
+        },
+        physics: { ...base.physics, tau, forceX: (8 * nu * 0.05) / (H * H) },
+      };
+    }
+    case "cylinder": {
+      // Re = U D / nu = 100; off-centre by one cell to trigger shedding
+      const D = Math.max(4, Math.round(Ny / 8));
+      const nu = (0.05 * D) / 100;
+      return {
+        ...base,
+        edges: channel,
+        obstacles: [
+          {
+            kind: "cylinders",
+            cx: Math.round(Nx / 4),
+            cy: Math.floor(Ny / 2) + 1,
+            rows: 1,
+            cols: 1,
+            radius: D / 2,
+            spacing: D,
+            staggered: false,
+          },
+        ],
+        physics: { ...base.physics, tau: 3 * nu + 0.5 },
+        initial: { rho: 1, ux: 0.05, uy: 0 },
+      };
+    }
+    case "step":
+      return {
+        ...base,
+        edges: channel,
+        obstacles: [
+          {
+            kind: "step",
+            length: Math.round(Nx / 8),
+            height: Math.round(Ny / 2),
+          },
+        ],
+      };
+  }
+}
+
+/** Throws if the scenario cannot be simulated as described. */
+export function validateScenario(s: Scenario): void {
+  if (!(Number.isInteger(s.Nx) && Number.isInteger(s.Ny))) {
+    throw new Error("Scenario size must be integer.");
+  }
+  if (s.Nx < 3 || s.Ny < 3) {
+    throw new Error("Scenario needs at least 3 × 3 cells.");
+  }
+  validateEdges(s.edges);
+  if (obstacleMotionId(s.obstacles.length - 1) >= MAX_WALL_MOTIONS) {
+    throw new Error(
+      `At most ${
+        MAX_WALL_MOTIONS - FIRST_OBSTACLE_MOTION_ID
+      } scenario obstacles.`
+    );
+  }
+  s.obstacles.forEach((o, i) => {
+    try {
+      validateObstacle(o);
+    } catch (e) {
+      const reason = e instanceof Error ? e.message : String(e);
+      throw new Error(`Scenario obstacle ${i + 1}: ${reason}`);
+    }
+  });
+  if (s.inlet.profile || s.inlet.modulation) {
+    validateInlet(s.inlet.profile ?? { kind: "uniform" }, s.inlet.modulation);
+  }
+  if (!(s.physics.tau > 0.5)) throw new Error("Scenario tau must be > 0.5.");
+}
+
+/** Throws unless every edge has a known type and periodic edges pair up. */
+export function validateEdges(edges: Record<Edge, EdgeBoundary>): void {
+  for (const edge of EDGES) {
+    if (!Object.values(EdgeBoundaries).includes(edges[edge])) {
+      throw new Error(`Unknown boundary "${edges[edge]}" on the ${edge} edge.`);
+    }
+  }
+  const periodic = (e: Edge) => edges[e] === "periodic";
+  if (periodic("left") !== periodic("right")) {
+    throw new Error("Left and right edges must both be periodic or neither.");
+  }
+  if (periodic("bottom") !== periodic("top")) {
+    throw new Error("Bottom and top edges must both be periodic or neither.");
+  }
+}
+
+/** Parses and validates a shared scenario (JSON text). */
+export function parseScenario(json: string): Scenario {
+  const s = JSON.parse(json) as Scenario;
+  const isObject = (v: unknown) => typeof v === "object" && v !== null;
+  for (const key of ["edges", "inlet", "physics", "initial"] as const) {
+    if (!isObject(s?.[key])) throw new Error(`Scenario lacks "${key}".`);
+  }
+  if (!Array.isArray(s.obstacles)) {
+    throw new Error('Scenario lacks "obstacles".');
+  }
+  validateScenario(s);
+  return s;
+}
+
+/**
+ * Rasterizes the scenario into a mask: edges first, then the obstacles as
+ * solids (moving walls with table entry obstacleMotionId(i) if they move).
+ */
+export function createScenarioMask(s: Scenario): Uint32Array {
+  const mask = new Uint32Array(s.Nx * s.Ny).fill(CELL.FLUID);
+  applyEdges(mask, s.Nx, s.Ny, s.edges);
+  s.obstacles.forEach((o, i) => {
+    const value = o.motion ? movingWall(obstacleMotionId(i)) : CELL.SOLID;
+    drawObstacle(mask, s.Nx, s.Ny, o, value);
+  });
+  return mask;
+}
+
+// Wall motion table entries (mask.ts): one per edge, then one per scenario
+// obstacle; later ones are free for obstacles placed at runtime.
+const EDGE_MOTION_IDS: Record<Edge, number> = {
+  left: 1,
+  right: 2,
+  bottom: 3,
+  top: 4,
+};
+export const FIRST_OBSTACLE_MOTION_ID = 5;
+
+/** Wall motion table entry of the i-th scenario obstacle. */
+export const obstacleMotionId = (i: number): number =>
+  FIRST_OBSTACLE_MOTION_ID + i;
+
+/** Table entries of the "moving" edges, sliding with their edgeVelocity. */
+export function edgeWallMotions(
+  edges: Record<Edge, EdgeBoundary>,
+  velocity: Partial<Record<Edge, number>> = {}
+): Map<number, WallMotion> {
+  const motions = new Map<number, WallMotion>();
+  for (const edge of EDGES) {
+    if (edges[edge] !== "moving") continue;
+    const v = velocity[edge] ?? 0;
+    const along = edge === "left" || edge === "right";
+    motions.set(EDGE_MOTION_IDS[edge], {
+      ux: along ? 0 : v,
+      uy: along ? v : 0,
+      omega: 0,
+      cx: 0,
+      cy: 0,
+    });
+  }
+  return motions;
+}
+
+// direction pointing into the domain, per edge
+const EDGE_NORMALS: Record<Edge, Normal> = {
+  left: Normals.EAST,
+  right: Normals.WEST,
+  bottom: Normals.NORTH,
+  top: Normals.SOUTH,
+};
+
+/**
+ * Writes the boundary cells of all four edges. Where edges meet, the
+ * stronger type wins (wall > moving > slip > outlets > outflows > inlets >
+ * periodic), so the corners of a channel are walls.
+ */
+export function applyEdges(
+  mask: Uint32Array,
+  Nx: number,
+  Ny: number,
+  edges: Record<Edge, EdgeBoundary>
+): void {
+  const rank: Record<EdgeBoundary, number> = {
+    periodic: 0,
+    inlet: 1,
+    zouHeInlet: 2,
+    outflow: 3,
+    convective: 4,
+    outlet: 5,
+    zouHeOutlet: 6,
+    slip: 7,
+    moving: 8,
+    wall: 9,
+  };
+  const value = (type: EdgeBoundary, edge: Edge): number => {
+    const n = EDGE_NORMALS[edge];
+    switch (type) {
+      case "periodic":
+        return CELL.FLUID;
+      case "wall":
+        return CELL.SOLID;
+      case "inlet":
+        return CELL.EQ;
+      case "slip":
+        return withNormal(CELL.SLIP, n);
+      case "moving":
+        return movingWall(EDGE_MOTION_IDS[edge]);
+      case "outlet":
+        return withNormal(CELL.OUTLET, n);
+      case "outflow":
+        return withNormal(CELL.OUTFLOW, n);
+      case "convective":
+        return withNormal(CELL.CONVECTIVE, n);
+      case "zouHeInlet":
+        return withNormal(CELL.ZOU_HE_INLET, n);
+      case "zouHeOutlet":
+        return withNormal(CELL.ZOU_HE_OUTLET, n);
+    }
+  };
+
+  const best = new Int8Array(Nx * Ny).fill(-1);
+  const mark = (cell: number, edge: Edge) => {
+    const type = edges[edge];
+    if (rank[type] <= best[cell]) return;
+    best[cell] = rank[type];
+    mask[cell] = value(type, edge);
+  };
+  for (let y = 0; y < Ny; y++) {
+    mark(y * Nx, "left");
+    mark(y * Nx + Nx - 1, "right");
+  }
+  for (let x = 0; x < Nx; x++) {
+    mark(x, "bottom");
+    mark((Ny - 1) * Nx + x, "top");
+  }
+}
+
+/** Pretty-printed JSON for sharing. */
+export function serializeScenario(s: Scenario): string {
+  return JSON.stringify(s, null, 2);
+}
@@ -1,5 +1,13 @@
 @group(0) @binding(0) var myTex: texture_2d<f32>;
 @group(0) @binding(1) var samp : sampler;
+@group(0) @binding(2) var licTex: texture_2d<f32>; // overlay_compute.wgsl
+@group(0) @binding(3) var<uniform> B: BlitParams;
+@group(0) @binding(4) var dyeTex: texture_2d<f32>; // tracer_compute.wgsl
+
+struct BlitParams {
+  dyeColor:    vec4<f32>, // alpha: opacity at concentration 1, 0 -> dye off
+  licStrength: f32,       // 0 -> LIC off
+};
 
 struct VSOut { @builtin(position) pos: vec4<f32>, @location(0) uv: vec2<f32> };
 
@@ -12,5 +20,10 @@ fn vs(@builtin(vertex_index) vid:u32)->VSOut{
 
 @fragment
 fn fs(in:VSOut)->@location(0) vec4<f32>{
-  return textureSample(myTex, samp, vec2(in.uv.x, 1.0 - in.uv.y));
+  let uv = vec2(in.uv.x, 1.0 - in.uv.y);
+  let color = textureSample(myTex, samp, uv).rgb;
+  let lic = textureSample(licTex, samp, uv).r; // 0.5 is neutral
+  let dye = textureSample(dyeTex, samp, uv).r;
+  let shaded = color * (1.0 + B.licStrength * (2.0 * lic - 1.0));
+  return vec4(mix(shaded, B.dyeColor.rgb, dye * B.dyeColor.a), 1.0);
 }
@@ -1,8 +1,18 @@
 enable f16;
 
-const CELL_FLUID  : u32 = 0u;
-const CELL_SOLID  : u32 = 1u << 0;
-const CELL_EQ     : u32 = 1u << 1;  // equilibrium BC: inlet/outlet
+const CELL_FLUID   : u32 = 0u;
+const CELL_SOLID   : u32 = 1u << 0;  // no-slip wall (bounce-back)
+const CELL_EQ      : u32 = 1u << 1;  // velocity inlet (equilibrium)
+const CELL_SLIP    : u32 = 1u << 2;  // free-slip wall (specular reflection)
+const CELL_OUTLET  : u32 = 1u << 3;  // pressure outlet (equilibrium)
+const CELL_OUTFLOW : u32 = 1u << 4;  // zero-gradient outflow (equilibrium)
+const CELL_MOVING  : u32 = 1u << 5;  // with CELL_SOLID: moving wall
+const CELL_FRESH   : u32 = 1u << 6;  // fluid uncovered by a moving obstacle
+const NORMAL_SHIFT : u32 = 8u;       // bits 8..11: direction (1..4) into the domain
+const MOTION_SHIFT : u32 = 12u;      // bits 12..19: wall motion table index
+const CELL_ZOU_HE_INLET  : u32 = 1u << 20; // velocity inlet (Zou-He)
+const CELL_ZOU_HE_OUTLET : u32 = 1u << 21; // pressure outlet (Zou-He)
+const CELL_CONVECTIVE    : u32 = 1u << 22; // convective outflow (equilibrium)
 
 override WGX: u32 = 32u;
 override WGY: u32 = 32u; 
@@ -25,6 +35,7 @@ const OPP : array<u32,9> = array<u32,9>(
 const W0 : f32 = 4.0 / 9.0;
 const WS : f32 = 1.0 / 9.0;
 const WE : f32 = 1.0 / 36.0;
+const W  : array<f32,9> = array<f32,9>(W0, WS, WS, WS, WS, WE, WE, WE, WE); // lattice weights, EX/EY order
 
 const Q  : u32 = 9u;
 
@@ -35,6 +46,11 @@ fn decode_f16s(p: f16) -> f32 {
   return f32(p) * FP16S_INV_SCALE; // unpack + downscale
 }
 
+// exponent all ones: Inf or NaN (x != x may be optimized away)
+fn is_non_finite(x: f32) -> bool {
+  return (bitcast<u32>(x) & 0x7f800000u) == 0x7f800000u;
+}
+
 /* Firefox does not support passing pointers to var<storage> into functions -> now using pack_f16s instead
 fn store_f16s(p: ptr<storage, f16, read_write>, v: f32) {
   *p = f16(v * FP16S_SCALE);       // upscale + pack
@@ -47,7 +63,38 @@ fn pack_f16s(v: f32) -> f16 {
 
 fn is_fluid(m:u32) -> bool { return (m == 0);}
 fn is_solid(m:u32) -> bool { return (m & CELL_SOLID)  != 0u; }
-fn is_eq(m:u32)    -> bool { return (m & CELL_EQ)     != 0u; } // equilibrium BC: inlet/outlet
+fn is_eq(m:u32)    -> bool { return (m & CELL_EQ)     != 0u; } // velocity inlet
+fn is_slip(m:u32)  -> bool { return (m & CELL_SLIP)   != 0u; }
+fn is_wall(m:u32)  -> bool { return (m & (CELL_SOLID | CELL_SLIP)) != 0u; }
+// open boundaries: reset to an equilibrium every step
+fn is_open(m:u32)  -> bool { return (m & (CELL_EQ | CELL_OUTLET | CELL_OUTFLOW | CELL_CONVECTIVE)) != 0u; }
+// Zou-He boundaries: collide like fluid after rebuilding the unknown populations
+fn is_zou_he(m:u32) -> bool { return (m & (CELL_ZOU_HE_INLET | CELL_ZOU_HE_OUTLET)) != 0u; }
+fn cell_normal(m:u32) -> u32 { return (m >> NORMAL_SHIFT) & 0xfu; }
+fn is_moving(m:u32) -> bool { return (m & CELL_MOVING) != 0u; }
+fn motion_id(m:u32) -> u32 { return (m >> MOTION_SHIFT) & 0xffu; }
+
+// Rigid wall motion (wall motion table entry): velocity u + omega x (r - c)
+struct WallMotion {
+  ux:    f32,
+  uy:    f32,
+  omega: f32, // angular velocity [rad/step], counter-clockwise
+  cx:    f32,
+  cy:    f32,
+  _pad0: f32,
+  _pad1: f32,
+  _pad2: f32,
+};
+
+fn rigid_velocity(w: WallMotion, cell: u32, Nx: u32) -> vec2<f32> {
+  let r = vec2<f32>(f32(cell % Nx), f32(cell / Nx)) - vec2<f32>(w.cx, w.cy);
+  return vec2<f32>(w.ux - w.omega * r.y, w.uy + w.omega * r.x);
+}
+
+// momentum-corrected bounce-back term of population i off a wall moving with uw
+fn moving_wall_term(i: u32, rho: f32, uw: vec2<f32>) -> f32 {
+  return 6.0 * W[i] * rho * (f32(EX[i]) * uw.x + f32(EY[i]) * uw.y);
+}
 
 // SoA: f[dir*C + cell]
 fn addr(dir:u32, cell:u32, C:u32) -> u32 { return dir*C + cell; }
@@ -153,3 +200,22 @@ fn feq_d2q9_shifted(rho_in: f32, u_in: vec2<f32>) -> array<f32, 9> {
   return out;
 }
 
+// Smagorinsky LES: effective relaxation time from the local strain, estimated
+// by the non-equilibrium momentum flux Pi_ab = sum_i c_ia c_ib (f_i - feq_i)
+// (shifts cancel). tau_eff = (tau0 + sqrt(tau0^2 + 18 Cs^2 |Q| / rho)) / 2
+// with |Q| = sqrt(2 Pi:Pi). Returns tau0 for Cs = 0.
+fn smagorinsky_tau(tau0: f32, rho: f32, fi: array<f32, 9>, feq: array<f32, 9>, Cs: f32) -> f32 {
+  var pxx = 0.0;
+  var pyy = 0.0;
+  var pxy = 0.0;
+  for (var i = 1u; i < 9u; i++) {
+    let neq = fi[i] - feq[i];
+    let cx  = f32(EX[i]);
+    let cy  = f32(EY[i]);
+    pxx += cx * cx * neq;
+    pyy += cy * cy * neq;
+    pxy += cx * cy * neq;
+  }
+  let Qn = sqrt(2.0 * (pxx*pxx + pyy*pyy + 2.0*pxy*pxy));
+  return 0.5 * (tau0 + sqrt(tau0*tau0 + 18.0 * Cs*Cs * Qn / rho));
+}
@@ -0,0 +1,56 @@
+// Stability check: reduces global_rho/global_u into a small report with atomics.
+// Must match the DIAG_* flags in diagnostics.ts.
+const DIAG_NAN         : u32 = 1u << 0; // NaN/Inf density or velocity
+const DIAG_NEGATIVE_RHO: u32 = 1u << 1;
+const DIAG_MACH        : u32 = 1u << 2; // |u|/cs above P.machLimit
+
+const CS_INV : f32 = 1.7320508; // 1/cs = sqrt(3)
+
+struct DiagParams {
+  Nx:        u32,
+  Ny:        u32,
+  cellCount: u32,
+  machLimit: f32
+};
+
+struct Report {
+  flags:     atomic<u32>, // DIAG_* bits of all failing cells
+  count:     atomic<u32>, // number of failing cells
+  firstCell: atomic<u32>, // lowest failing cell index (0xffffffff: none)
+  maxMach:   atomic<u32>, // bits of the largest finite Mach number (non-negative f32 orders like u32)
+};
+
+@group(0) @binding(0) var<storage, read>       global_rho : array<f16>;
+@group(0) @binding(1) var<storage, read>       global_u   : array<f16>;   // 2*C length: ux, uy
+@group(0) @binding(2) var<storage, read>       mask       : array<u32>;
+@group(0) @binding(3) var<uniform>             P          : DiagParams;
+@group(0) @binding(4) var<storage, read_write> report     : Report;
+
+@compute @workgroup_size(WGX, WGY, WGZ)
+fn check(@builtin(global_invocation_id) gid: vec3<u32>) {
+  if (gid.x >= P.Nx || gid.y >= P.Ny) { return; }
+
+  let cell : u32 = gid.x + gid.y * P.Nx;
+  let C    : u32 = P.cellCount;
+  if (is_wall(mask[cell])) { return; }
+
+  let rho = decode_f16s(global_rho[cell]);
+  let ux  = decode_f16s(global_u[  cell]);
+  let uy  = decode_f16s(global_u[C+cell]);
+
+  var flags = 0u;
+  if (is_non_finite(rho) || is_non_finite(ux) || is_non_finite(uy)) {
+    flags |= DIAG_NAN;
+  } else {
+    if (rho <= 0.0) { flags |= DIAG_NEGATIVE_RHO; }
+    let mach = sqrt(ux*ux + uy*uy) * CS_INV;
+    if (mach > P.machLimit) { flags |= DIAG_MACH; }
+    atomicMax(&report.maxMach, bitcast<u32>(mach));
+  }
+
+  if (flags != 0u) {
+    atomicOr(&report.flags, flags);
+    atomicAdd(&report.count, 1u);
+    atomicMin(&report.firstCell, cell);
+  }
+}
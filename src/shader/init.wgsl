@@ -3,7 +3,11 @@ struct Params {
   Ny:u32, 
   Q:u32,
   inletUx: f32,
-  inletUy: f32
+  inletUy: f32,
+  rho0: f32, // initial state of the fluid cells
+  u0x: f32,
+  u0y: f32,
+  inletScale: f32, // modulation factor at tick 0 (ramp, steps)
 };
 
 @group(0) @binding(0) var<storage, read_write> f           : array<f16>;   // current
@@ -11,6 +15,18 @@ struct Params {
 @group(0) @binding(2) var<uniform>             P           : Params;
 @group(0) @binding(3) var<storage, read_write> global_u    : array<f16>;   // 2*C length: ux, uy
 @group(0) @binding(4) var<storage, read_write> global_rho  : array<f16>;
+@group(0) @binding(5) var<storage, read>       inlet_profile : array<f32>; // Ny by y, then Nx by x
+
+// same inlet velocity as inlet_velocity() in step.wgsl sees on the first step
+fn inlet_velocity(x: u32, y: u32) -> vec2<f32> {
+  var profile = 1.0;
+  if (x == 0u || x == P.Nx - 1u) {
+    profile = inlet_profile[y];
+  } else if (y == 0u || y == P.Ny - 1u) {
+    profile = inlet_profile[P.Ny + x];
+  }
+  return vec2<f32>(P.inletUx, P.inletUy) * (profile * P.inletScale);
+}
 
 
 @compute @workgroup_size(WGX,WGY, WGZ)
@@ -21,12 +37,12 @@ fn initialize(@builtin(global_invocation_id) gid: vec3<u32>) {
 
   let m = mask[cell];
 
-  var r  : f32 = 1.0; 
-  var ux : f32 = 0.0; 
-  var uy : f32 = 0.0; 
+  var r  : f32 = P.rho0; 
+  var ux : f32 = select(P.u0x, 0.0, is_wall(m)); // walls start at rest
+  var uy : f32 = select(P.u0y, 0.0, is_wall(m)); 
 
-  if(is_eq(m)){
-    if(gid.x == P.Nx -1){ // outlet at the right side
+  if(is_open(m)){
+    if(!is_eq(m)){ // outlet/outflow: at rest
       global_rho[cell] = pack_f16s(1.0);
       global_u[  cell] = pack_f16s(0.0);
       global_u[C+cell] = pack_f16s(0.0);
@@ -36,10 +52,11 @@ fn initialize(@builtin(global_invocation_id) gid: vec3<u32>) {
       }
       return;
     }
+    let uIn = inlet_velocity(gid.x, gid.y);
     global_rho[cell] = pack_f16s(1.0);
-    global_u[  cell] = pack_f16s(P.inletUx);
-    global_u[C+cell] = pack_f16s(P.inletUy);
-    let feq = feq_d2q9_shifted(1.0, vec2<f32>(P.inletUx, P.inletUy));
+    global_u[  cell] = pack_f16s(uIn.x);
+    global_u[C+cell] = pack_f16s(uIn.y);
+    let feq = feq_d2q9_shifted(1.0, uIn);
     for (var d:u32 = 0u; d < 9u; d++) { 
       f[addr(d, cell, C)] = pack_f16s(feq[d]); 
     }
@@ -0,0 +1,90 @@
+// Flow-line overlays, compute part: streamline tracing and the LIC texture.
+// Both follow the velocity of the last step in global_u (see overlay.ts);
+// the velocity sampling comes from sampling.wgsl.
+struct OverlayParams {
+  Nx:               u32,
+  Ny:               u32,
+  cellCount:        u32,
+  glyphSpacing:     u32, // cells between two arrows
+  glyphScale:       f32, // arrow length in cells per lattice velocity unit
+  licLength:        u32, // convolution half-length in cells
+  streamlineLength: u32, // points per streamline
+  seedCount:        u32,
+};
+
+// --- bindings ----------------------------------------------------------------
+@group(0) @binding(0) var<uniform>             P        : OverlayParams;
+@group(0) @binding(1) var<storage, read>       mask     : array<u32>;
+@group(0) @binding(2) var<storage, read>       global_u : array<f16>; // 2*C: ux, uy
+@group(0) @binding(3) var<storage, read>       seeds    : array<vec2<f32>>;
+@group(0) @binding(4) var<storage, read_write> points   : array<vec2<f32>>; // seedCount × streamlineLength
+@group(0) @binding(5) var licTex : texture_storage_2d<rgba8unorm, write>;
+
+const STREAMLINE_STEP : f32 = 0.5; // cells between two points
+
+// unit flow direction, 0 where the fluid rests
+fn flow_direction(p: vec2<f32>) -> vec2<f32> {
+  let u = sample_velocity(p);
+  let l = length(u);
+  if (l < 1e-7) { return vec2<f32>(0.0); }
+  return u / l;
+}
+
+// white noise in [0, 1] per cell, fixed so the LIC only changes with the flow
+fn noise(cell: u32) -> f32 {
+  return unit_random(hash(cell));
+}
+
+// one thread per streamline: midpoint rule on the direction field; a line that
+// stops (wall, domain edge, resting fluid) repeats its last point
+@compute @workgroup_size(64)
+fn trace_streamlines(@builtin(global_invocation_id) gid: vec3<u32>) {
+  let s = gid.x;
+  if (s >= P.seedCount) { return; }
+  let base = s * P.streamlineLength;
+
+  var p = seeds[s];
+  var alive = !is_blocked(p);
+  for (var k = 0u; k < P.streamlineLength; k++) {
+    points[base + k] = p;
+    if (!alive) { continue; }
+    let d1 = flow_direction(p);
+    let d2 = flow_direction(p + 0.5 * STREAMLINE_STEP * d1);
+    let q = p + STREAMLINE_STEP * d2;
+    if (all(d2 == vec2<f32>(0.0)) || is_blocked(q)) {
+      alive = false;
+    } else {
+      p = q;
+    }
+  }
+}
+
+// line integral convolution: average the noise along the streamline through
+// each cell, licLength cells up- and downstream (walls stay neutral grey)
+@compute @workgroup_size(WGX, WGY, WGZ)
+fn lic(@builtin(global_invocation_id) gid: vec3<u32>) {
+  if (gid.x >= P.Nx || gid.y >= P.Ny) { return; }
+  let cell = gid.x + gid.y * P.Nx;
+
+  var v = 0.5;
+  if (!is_wall(mask[cell])) {
+    var sum = noise(cell);
+    var n = 1.0;
+    for (var side = 0u; side < 2u; side++) {
+      let dir = select(-1.0, 1.0, side == 1u);
+      var p = vec2<f32>(gid.xy);
+      for (var k = 0u; k < P.licLength; k++) {
+        let d = flow_direction(p);
+        if (all(d == vec2<f32>(0.0))) { break; }
+        p += dir * d;
+        if (is_blocked(p)) { break; }
+        let c = vec2<u32>(round(p));
+        sum += noise(c.x + c.y * P.Nx);
+        n += 1.0;
+      }
+    }
+    // the mean of n samples spreads 1/sqrt(n) as much: restore the contrast
+    v = clamp(0.5 + (sum / n - 0.5) * 0.7 * sqrt(n), 0.0, 1.0);
+  }
+  textureStore(licTex, vec2<i32>(gid.xy), vec4<f32>(v, v, v, 1.0));
+}
@@ -0,0 +1,67 @@
+// Flow-line overlays, draw part: velocity arrows and the traced streamlines,
+// alpha blended over the blitted field (same clip space as blit.wgsl).
+struct OverlayParams {
+  Nx:               u32,
+  Ny:               u32,
+  cellCount:        u32,
+  glyphSpacing:     u32, // cells between two arrows
+  glyphScale:       f32, // arrow length in cells per lattice velocity unit
+  licLength:        u32, // convolution half-length in cells
+  streamlineLength: u32, // points per streamline
+  seedCount:        u32,
+};
+
+// --- bindings ----------------------------------------------------------------
+@group(0) @binding(0) var<uniform>       P        : OverlayParams;
+@group(0) @binding(1) var<storage, read> mask     : array<u32>;
+@group(0) @binding(2) var<storage, read> global_u : array<f16>; // 2*C: ux, uy
+@group(0) @binding(4) var<storage, read> points   : array<vec2<f32>>; // from trace_streamlines
+
+struct VSOut { @builtin(position) pos: vec4<f32>, @location(0) color: vec4<f32> };
+
+// arrow along +x in units of its length, centred on the origin: a shaft of
+// two triangles and the head
+const ARROW = array<vec2<f32>, 9>(
+  vec2(-0.5, -0.04), vec2(0.15, -0.04), vec2(0.15, 0.04),
+  vec2(-0.5, -0.04), vec2(0.15, 0.04), vec2(-0.5, 0.04),
+  vec2(0.1, -0.18), vec2(0.5, 0.0), vec2(0.1, 0.18),
+);
+
+// cell coordinates (centres at integers, y up) to clip space
+fn to_clip(p: vec2<f32>) -> vec4<f32> {
+  let uv = (p + 0.5) / vec2<f32>(f32(P.Nx), f32(P.Ny));
+  return vec4<f32>(2.0 * uv - 1.0, 0.0, 1.0);
+}
+
+// one instance per arrow on a glyphSpacing grid; walls get no arrow
+@vertex
+fn glyph_vs(@builtin(vertex_index) vid: u32, @builtin(instance_index) iid: u32) -> VSOut {
+  let S = P.glyphSpacing;
+  let cols = P.Nx / S;
+  let x = (iid % cols) * S + S / 2u;
+  let y = (iid / cols) * S + S / 2u;
+  let cell = x + y * P.Nx;
+
+  var u = vec2<f32>(0.0);
+  if (!is_wall(mask[cell])) {
+    u = vec2<f32>(decode_f16s(global_u[cell]), decode_f16s(global_u[P.cellCount + cell]));
+  }
+  let speed = length(u);
+  let len = min(P.glyphScale * speed, 1.5 * f32(S)); // keep neighbours apart
+  let dir = select(vec2<f32>(1.0, 0.0), u / speed, speed > 1e-7);
+  let a = ARROW[vid] * len;
+  let p = vec2<f32>(f32(x), f32(y)) + dir * a.x + vec2<f32>(-dir.y, dir.x) * a.y;
+  return VSOut(to_clip(p), vec4<f32>(1.0, 1.0, 1.0, 0.9));
+}
+
+// one instance per streamline, drawn as a line strip
+@vertex
+fn streamline_vs(@builtin(vertex_index) vid: u32, @builtin(instance_index) iid: u32) -> VSOut {
+  let p = points[iid * P.streamlineLength + vid];
+  return VSOut(to_clip(p), vec4<f32>(1.0, 1.0, 1.0, 0.75));
+}
+
+@fragment
+fn overlay_fs(in: VSOut) -> @location(0) vec4<f32> {
+  return in.color;
+}
@@ -2,10 +2,21 @@ struct VisParams {
   Nx:        u32,
   Ny:        u32,
   cellCount: u32,
-  mode:      u32, // 0=rho, 1=|u|
-  cmap:      u32, // 0=Viridis, 1=Turbo
+  mode:      u32, // 0=|u|, 1=rho, 2=eddy viscosity, 3=vorticity, 4=pressure, 5=ux, 6=uy, 7=Q-criterion, 8=strain rate
   vmin:      f32, // vmin/vmas linear range for normalization
-  vmax:      f32
+  vmax:      f32,
+  tau:       f32, // molecular relaxation time (eddy viscosity mode)
+  smagorinsky: f32, // Smagorinsky constant Cs, 0 -> LES off
+  autoRange: u32, // 1 -> reduce the displayed field into vis_range
+  Fx:        f32, // uniform body force (half-force term of the velocity)
+  Fy:        f32,
+  forceField: u32, // 1 -> add the per-cell force_field
+};
+
+// min/max of the displayed field as order-preserving keys (see range_key)
+struct VisRange {
+  lo: atomic<u32>,
+  hi: atomic<u32>,
 };
 
 // Dynamic params: updated every step ----
@@ -20,6 +31,15 @@ struct StepDynamic {
 @group(0) @binding(2) var<uniform>              Pd   : StepDynamic;
 @group(0) @binding(3) var<storage, read>        mask : array<u32>;
 @group(0) @binding(4) var outputTex : texture_storage_2d<rgba8unorm, write>;
+@group(0) @binding(5) var<storage, read>        wall_motion : array<WallMotion>;
+@group(0) @binding(6) var<storage, read>        global_u : array<f16>; // 2*C: ux, uy of the last step
+@group(0) @binding(7) var<storage, read_write>  vis_range : VisRange;
+@group(0) @binding(8) var<storage, read>        colormap : array<u32, 256>; // RGBA8 LUT (colormaps.ts)
+@group(0) @binding(9) var<storage, read>        force_field : array<f32>; // 2*C: Fx, Fy (only read if P.forceField != 0)
+
+// per-workgroup min/max, merged into vis_range with one atomic pair per workgroup
+var<workgroup> wg_lo : atomic<u32>;
+var<workgroup> wg_hi : atomic<u32>;
 
 
 fn load_f_ep_implicit(cell:u32, parity:u32, C:u32, Nx:u32, Ny:u32, j: array<u32, 9>) -> array<f32,9> {
@@ -34,6 +54,30 @@ fn load_f_ep_implicit(cell:u32, parity:u32, C:u32, Nx:u32, Ny:u32, j: array<u32,
   return fi;
 }
 
+// ---- derived fields ----------------------------------------------------------
+// velocity of a neighbour for the finite differences: walls with their motion
+// (0 at rest), other cells as stored by the last step
+fn neighbor_velocity(cell: u32) -> vec2<f32> {
+  let m = mask[cell];
+  if (is_moving(m)) { return rigid_velocity(wall_motion[motion_id(m)], cell, P.Nx); }
+  if (is_solid(m)) { return vec2<f32>(0.0); }
+  return vec2<f32>(decode_f16s(global_u[cell]), decode_f16s(global_u[P.cellCount + cell]));
+}
+
+// velocity gradient by central differences: (dux/dx, duy/dx, dux/dy, duy/dy)
+fn velocity_gradient(j: array<u32, 9>) -> vec4<f32> {
+  let ddx = 0.5 * (neighbor_velocity(j[1]) - neighbor_velocity(j[2]));
+  let ddy = 0.5 * (neighbor_velocity(j[3]) - neighbor_velocity(j[4]));
+  return vec4<f32>(ddx, ddy);
+}
+
+// u32 that orders like the f32 (atomics have no float min/max): negative
+// values flip all bits, non-negative ones set the sign bit
+fn range_key(x: f32) -> u32 {
+  let b = bitcast<u32>(x);
+  return select(b | 0x80000000u, ~b, (b & 0x80000000u) != 0u);
+}
+
 // ---- normalization ------------------------------------------------------------
 fn normalize01(s:f32, vmin:f32, vmax:f32) -> f32 {
   let eps = 1e-12;
@@ -41,61 +85,45 @@ fn normalize01(s:f32, vmin:f32, vmax:f32) -> f32 {
   return clamp((s - vmin) / d, 0.0, 1.0);
 }
 
-// Colormap lookup tables
-const VIRIDIS_LUT : array<vec3<f32>, 10> = array<vec3<f32>,10>(
-  vec3<f32>(0.267004, 0.004874, 0.329415),
-  vec3<f32>(0.282327, 0.094955, 0.417331),
-  vec3<f32>(0.253935, 0.265254, 0.529983),
-  vec3<f32>(0.206756, 0.371758, 0.553117),
-  vec3<f32>(0.163625, 0.471133, 0.558148),
-  vec3<f32>(0.128729, 0.567573, 0.551864),
-  vec3<f32>(0.134692, 0.658636, 0.517649),
-  vec3<f32>(0.266941, 0.748751, 0.440573),
-  vec3<f32>(0.477504, 0.821444, 0.318195),
-  vec3<f32>(0.741388, 0.873449, 0.149561)
-);
-
-const TURBO_LUT : array<vec3<f32>, 10> = array<vec3<f32>,10>(
-  vec3<f32>(0.18995, 0.07176, 0.23217),
-  vec3<f32>(0.25107, 0.25237, 0.63374),
-  vec3<f32>(0.27628, 0.51592, 0.85877),
-  vec3<f32>(0.23389, 0.70494, 0.69883),
-  vec3<f32>(0.15338, 0.80480, 0.49659),
-  vec3<f32>(0.21230, 0.83660, 0.27766),
-  vec3<f32>(0.48224, 0.80874, 0.11465),
-  vec3<f32>(0.80462, 0.64781, 0.04719),
-  vec3<f32>(0.98360, 0.39654, 0.13090),
-  vec3<f32>(0.98730, 0.17860, 0.16498)
-);
-
-// Smoothstep mix between LUT entries
-fn sample_lut10(t:f32, lut: ptr<function, array<vec3<f32>,10>>) -> vec3<f32> {
-  let x = clamp(t, 0.0, 1.0) * 9.0;
+// colormap lookup, linear between the 256 LUT entries
+fn colorize(t: f32) -> vec3<f32> {
+  let x = clamp(t, 0.0, 1.0) * 255.0;
   let i = u32(floor(x));
-  let j = min(i + 1u, 9u);
-  let u = smoothstep(0.0, 1.0, fract(x));
-  return mix((*lut)[i], (*lut)[j], u);
+  let j = min(i + 1u, 255u);
+  return mix(unpack4x8unorm(colormap[i]).rgb, unpack4x8unorm(colormap[j]).rgb, fract(x));
 }
 
-fn colormapViridis(t:f32) -> vec3<f32> {
-  var lut = VIRIDIS_LUT;
-  return sample_lut10(t, &lut);
-}
-fn colormapTurbo(t:f32) -> vec3<f32> {
-  var lut = TURBO_LUT;
-  return sample_lut10(t, &lut);
+@compute @workgroup_size(WGX, WGY, WGZ)
+fn render(@builtin(global_invocation_id) gid: vec3<u32>,
+          @builtin(local_invocation_index) lid: u32) {
+  if (lid == 0u) {
+    atomicStore(&wg_lo, 0xffffffffu);
+    atomicStore(&wg_hi, 0u);
+  }
+  workgroupBarrier();
+  if (gid.x < P.Nx && gid.y < P.Ny) { shade(gid); }
+  workgroupBarrier();
+  // an empty workgroup (no finite values) leaves the keys as cleared
+  if (lid == 0u && P.autoRange != 0u) {
+    atomicMin(&vis_range.lo, atomicLoad(&wg_lo));
+    atomicMax(&vis_range.hi, atomicLoad(&wg_hi));
+  }
 }
 
-@compute @workgroup_size(WGX, WGY, WGZ)
-fn render(@builtin(global_invocation_id) gid: vec3<u32>) {
-  if (gid.x >= P.Nx || gid.y >= P.Ny) { return; }
+// colors one cell (and adds its value to the workgroup range)
+fn shade(gid: vec3<u32>) {
   let cell : u32 = gid.x + gid.y * P.Nx;
 
-  if (mask[cell] == CELL_SOLID) {
+  let m = mask[cell];
+  if (is_solid(m)) {
     textureStore(outputTex, vec2<i32>(i32(gid.x), i32(gid.y)),
                  vec4<f32>(0.10, 0.10, 0.10, 1.0)); // dark gray solids
     return;
-  } else if (mask[cell] == CELL_EQ) {
+  } else if (is_slip(m)) {
+    textureStore(outputTex, vec2<i32>(i32(gid.x), i32(gid.y)),
+                 vec4<f32>(0.35, 0.35, 0.35, 1.0)); // light gray free-slip walls
+    return;
+  } else if (is_open(m) || is_zou_he(m)) {
     textureStore(outputTex, vec2<i32>(i32(gid.x), i32(gid.y)),
                  vec4<f32>(1.0, 0.0, 0.0, 1.0));   // red inlets/outets
     return;
@@ -103,7 +131,18 @@ fn render(@builtin(global_invocation_id) gid: vec3<u32>) {
 
   let j  = get_neighbors(cell);
   // EP-consistent populations at this cell
-  let fi = load_f_ep_implicit(cell, Pd.parity, P.cellCount, P.Nx, P.Ny, j);
+  var fi = load_f_ep_implicit(cell, Pd.parity, P.cellCount, P.Nx, P.Ny, j);
+
+  // moving walls: add the momentum the step kernel adds (moving_wall_correction)
+  var rho0 : f32 = 1.0;
+  for (var d:u32 = 0u; d < 9u; d++) { rho0 += fi[d]; }
+  for (var i = 1u; i < 9u; i++) {
+    let nb = j[OPP[i]];
+    let mn = mask[nb];
+    if (!is_moving(mn)) { continue; }
+    let w = wall_motion[motion_id(mn)];
+    fi[i] += moving_wall_term(i, rho0, rigid_velocity(w, nb, P.Nx));
+  }
 
   // Macros (shifted DDFs): rho starts at 1.0
   var rho : f32 = 1.0;
@@ -115,15 +154,49 @@ fn render(@builtin(global_invocation_id) gid: vec3<u32>) {
     ux  += v * f32(EX[d]);
     uy  += v * f32(EY[d]);
   }
-  ux /= rho; uy /= rho;
+  // half-force correction (Guo), as the step kernel stores in global_u
+  var F = vec2<f32>(P.Fx, P.Fy);
+  if (P.forceField != 0u) {
+    F += vec2<f32>(force_field[cell], force_field[P.cellCount + cell]);
+  }
+  ux = (ux + 0.5 * F.x) / rho;
+  uy = (uy + 0.5 * F.y) / rho;
+
+  // mode 0=|u|, 1=rho, 2=eddy viscosity nu_t = (tau_eff - tau) / 3,
+  // 3..8: pressure, velocity components and gradient quantities
+  var s = sqrt(ux*ux + uy*uy);
+  if (P.mode == 1u) {
+    s = rho;
+  } else if (P.mode == 2u) {
+    let feq = feq_d2q9_shifted(rho, vec2<f32>(ux, uy));
+    s = (smagorinsky_tau(P.tau, rho, fi, feq, P.smagorinsky) - P.tau) / 3.0;
+  } else if (P.mode == 4u) {
+    s = (rho - 1.0) / 3.0; // p - p0 = cs^2 (rho - 1)
+  } else if (P.mode == 5u) {
+    s = ux;
+  } else if (P.mode == 6u) {
+    s = uy;
+  } else if (P.mode >= 3u) {
+    let g = velocity_gradient(j);
+    let sxy = 0.5 * (g.z + g.y); // strain rate S = (grad u + grad u^T) / 2
+    let ss = g.x * g.x + g.w * g.w + 2.0 * sxy * sxy; // S:S
+    let w = 0.5 * (g.z - g.y); // rotation rate, Omega:Omega = 2 w^2
+    if (P.mode == 3u) {
+      s = g.y - g.z; // vorticity duy/dx - dux/dy
+    } else if (P.mode == 7u) {
+      s = w * w - 0.5 * ss; // Q = (Omega:Omega - S:S) / 2, > 0 in vortex cores
+    } else {
+      s = sqrt(2.0 * ss); // |S|
+    }
+  }
 
-  // mode 0=rho, 1=|u|
-  let speed = sqrt(ux*ux + uy*uy);
-  let s = select(speed, rho, P.mode == 1u);
+  if (P.autoRange != 0u && !is_non_finite(s)) {
+    atomicMin(&wg_lo, range_key(s));
+    atomicMax(&wg_hi, range_key(s));
+  }
 
   // Normalize & colorize
-  let t = normalize01(s, P.vmin, P.vmax);
-  let rgb = select(colormapViridis(t), colormapTurbo(t), P.cmap == 1u);
+  let rgb = colorize(normalize01(s, P.vmin, P.vmax));
 
   textureStore(outputTex, vec2<i32>(i32(gid.x), i32(gid.y)), vec4<f32>(rgb, 1.0));
 }
@@ -0,0 +1,40 @@
+// Velocity sampling and hashing shared by overlay_compute.wgsl and
+// tracer_compute.wgsl (prepended after common.wgsl). The including module
+// declares P (with Nx, Ny and cellCount), mask and global_u.
+
+// positions are in cells with the cell centres at integer coordinates
+fn is_blocked(p: vec2<f32>) -> bool {
+  let c = vec2<i32>(round(p));
+  if (!in_bounds(c.x, c.y, P.Nx, P.Ny)) { return true; }
+  return is_wall(mask[u32(c.x) + u32(c.y) * P.Nx]);
+}
+
+fn cell_velocity(x: i32, y: i32) -> vec2<f32> {
+  let cx = u32(clamp(x, 0, i32(P.Nx) - 1));
+  let cy = u32(clamp(y, 0, i32(P.Ny) - 1));
+  let cell = cx + cy * P.Nx;
+  if (is_wall(mask[cell])) { return vec2<f32>(0.0); }
+  return vec2<f32>(decode_f16s(global_u[cell]), decode_f16s(global_u[P.cellCount + cell]));
+}
+
+// bilinear between the four surrounding cells
+fn sample_velocity(p: vec2<f32>) -> vec2<f32> {
+  let b = floor(p);
+  let t = p - b;
+  let x = i32(b.x);
+  let y = i32(b.y);
+  let lo = mix(cell_velocity(x, y), cell_velocity(x + 1, y), t.x);
+  let hi = mix(cell_velocity(x, y + 1), cell_velocity(x + 1, y + 1), t.x);
+  return mix(lo, hi, t.y);
+}
+
+// PCG hash
+fn hash(x: u32) -> u32 {
+  var h = x * 747796405u + 2891336453u;
+  h = ((h >> ((h >> 28u) + 4u)) ^ h) * 277803737u;
+  return (h >> 22u) ^ h;
+}
+
+fn unit_random(h: u32) -> f32 {
+  return f32(h) / 4294967295.0;
+}
@@ -10,15 +10,33 @@ struct StepParams {
   rhoOut:    f32,
 
   omega:     f32, // LBM relaxation rate w = dt/tau = dt/(nu/c^2+dt/2) = 1/(3*nu+1/2)
-  _pad0:     u32,
-  _pad1:     u32,
-  _pad2:     u32,
+  Fx:        f32, // uniform body force (force density, lattice units)
+  Fy:        f32,
+  forceField: u32, // 1 -> add the per-cell force_field
+
+  omegaMinus: f32, // TRT anti-symmetric relaxation rate (from the magic parameter)
+  sE:        f32, // MRT rates: energy,
+  sEps:      f32, //            energy squared,
+  sQ:        f32, //            energy flux (shear rate is omega)
+
+  smagorinsky: f32, // Smagorinsky constant Cs, 0 -> LES off
+  trtMagic:  f32, // TRT magic parameter (omegaMinus of the local omega with LES)
+  movingWalls: u32, // 1 -> the mask contains moving walls (wall_motion is read)
+  _pad1:     f32,
 };
 
+
+// Collision operator, selected per pipeline (override constant)
+const COLLISION_BGK : u32 = 0u;
+const COLLISION_TRT : u32 = 1u;
+const COLLISION_MRT : u32 = 2u;
+override COLLISION: u32 = COLLISION_BGK;
+
 // Dynamic params: updated every step
 struct StepDynamic {
-  parity: u32,
-  _pad:   vec3<u32> // pad to 16 bytes to be uniform-safe
+  parity:     u32,
+  inletScale: f32,       // time modulation of the inlet velocity (inlet.ts)
+  _pad:       vec2<u32>  // pad to 16 bytes to be uniform-safe
 };
 
 @group(0) @binding(0) var<storage, read_write> f           : array<f16>;   // SoA: f[i*C + cell]
@@ -27,6 +45,9 @@ struct StepDynamic {
 @group(0) @binding(3) var<storage, read_write> global_u    : array<f16>;   // 2*C length: ux, uy
 @group(0) @binding(4) var<storage, read_write> global_rho  : array<f16>;
 @group(0) @binding(5) var<uniform>             Pd          : StepDynamic;
+@group(0) @binding(6) var<storage, read>       force_field : array<f32>;   // 2*C length: Fx, Fy (only read if P.forceField != 0)
+@group(0) @binding(7) var<storage, read>       wall_motion : array<WallMotion>; // indexed by motion_id(mask)
+@group(0) @binding(8) var<storage, read>       inlet_profile : array<f32>; // Ny factors by y (left/right), then Nx by x (bottom/top)
 
 
 // Esoteric Pull: implicit BB
@@ -42,7 +63,204 @@ fn load_f_ep_implicit(cell:u32, parity:u32, C:u32, Nx:u32, Ny:u32, j: array<u32,
   return fi;
 }
 
-fn calculate_rho_u(fi: ptr<function, array<f32, 9>>, rhon: ptr<function, f32>, uxn: ptr<function, f32>, uyn: ptr<function, f32>) {
+// Esoteric Pull store, the counterpart of load_f_ep_implicit
+fn store_f_ep(cell:u32, parity:u32, C:u32, j: array<u32, 9>, fi: array<f32, 9>) {
+  f[addr(0u, cell, C)] = pack_f16s(fi[0]);
+  for (var i=1u; i<9u; i+=2u){
+    f[addr(select(i+1u, i   ,  parity == 1u), j[i], C)] = pack_f16s(fi[i   ]);
+    f[addr(select(i   , i+1u,  parity == 1u), cell, C)] = pack_f16s(fi[i+1u]);
+  }
+}
+
+// Free-slip wall: populations leaving into the domain (c.n > 0) are the
+// arriving ones mirrored at the wall (normal component flipped)
+fn slip_reflect(fi: ptr<function, array<f32, 9>>, n: u32) {
+  let nx = EX[n];
+  let ny = EY[n];
+  for (var i = 1u; i < 9u; i++) {
+    if (EX[i] * nx + EY[i] * ny <= 0) { continue; }
+    let mx = select(EX[i], -EX[i], nx != 0);
+    let my = select(EY[i], -EY[i], ny != 0);
+    for (var k = 1u; k < 9u; k++) {
+      if (EX[k] == mx && EY[k] == my) { (*fi)[i] = (*fi)[k]; }
+    }
+  }
+}
+
+// Zou-He (non-equilibrium bounce-back) for a boundary with normal n (into the
+// domain): populations with c_i.n > 0 come from outside and are rebuilt as
+//   f_i = f_opp + 6 w_i rho (c_i.u) - 1/2 (c_i.t) (N_t - 2/3 rho u_t),
+// N_t being the tangential momentum of the populations with c_i.n = 0.
+fn zou_he_unknowns(fi: ptr<function, array<f32, 9>>, n: u32, rho: f32, u: vec2<f32>) {
+  let cn = vec2<i32>(EX[n], EY[n]);
+  let ct = vec2<i32>(-cn.y, cn.x); // tangent
+  var Nt = 0.0;
+  for (var i = 1u; i < 9u; i++) {
+    if (EX[i] * cn.x + EY[i] * cn.y == 0) {
+      Nt += (*fi)[i] * f32(EX[i] * ct.x + EY[i] * ct.y);
+    }
+  }
+  let ut = u.x * f32(ct.x) + u.y * f32(ct.y);
+  for (var i = 1u; i < 9u; i++) {
+    if (EX[i] * cn.x + EY[i] * cn.y <= 0) { continue; }
+    let cu = f32(EX[i]) * u.x + f32(EY[i]) * u.y;
+    let cti = f32(EX[i] * ct.x + EY[i] * ct.y);
+    // shifted DDFs: w_i = w_opp, so differences need no shift
+    (*fi)[i] = (*fi)[OPP[i]] + 6.0 * W[i] * rho * cu - 0.5 * cti * (Nt - 2.0 / 3.0 * rho * ut);
+  }
+}
+
+// rho (1 - u.n) of the known populations: sum_(c.n = 0) f_i + 2 sum_(c.n < 0) f_i
+fn zou_he_known_mass(fi: ptr<function, array<f32, 9>>, n: u32) -> f32 {
+  var s = 0.0;
+  for (var i = 0u; i < 9u; i++) {
+    let d = EX[i] * EX[n] + EY[i] * EY[n];
+    if (d == 0) { s += (*fi)[i]; } else if (d < 0) { s += 2.0 * (*fi)[i]; }
+  }
+  return s + 1.0; // the weights of these terms sum to 1 (shifted DDFs)
+}
+
+// prescribed inlet velocity at an inlet cell: profile across the domain edge
+// (interior inlet cells are uniform), scaled in time
+fn inlet_velocity(x: u32, y: u32) -> vec2<f32> {
+  var profile = 1.0;
+  if (x == 0u || x == P.Nx - 1u) {
+    profile = inlet_profile[y];
+  } else if (y == 0u || y == P.Ny - 1u) {
+    profile = inlet_profile[P.Ny + x];
+  }
+  return vec2<f32>(P.uInx, P.uIny) * (profile * Pd.inletScale);
+}
+
+// Zou-He inlet (prescribed u) or outlet (prescribed rho)
+fn apply_zou_he(fi: ptr<function, array<f32, 9>>, x: u32, y: u32, m: u32) {
+  let n = cell_normal(m);
+  let cn = vec2<f32>(f32(EX[n]), f32(EY[n]));
+  var rho: f32;
+  var u: vec2<f32>;
+  if ((m & CELL_ZOU_HE_INLET) != 0u) {
+    u = inlet_velocity(x, y);
+    rho = zou_he_known_mass(fi, n) / (1.0 - dot(u, cn));
+  } else {
+    rho = P.rhoOut;
+    u = cn * (1.0 - zou_he_known_mass(fi, n) / rho); // no tangential velocity
+  }
+  zou_he_unknowns(fi, n, rho, u);
+}
+
+// velocity of a moving wall (or fresh) cell
+fn wall_velocity(cell: u32, m: u32) -> vec2<f32> {
+  return rigid_velocity(wall_motion[motion_id(m)], cell, P.Nx);
+}
+
+// Momentum-corrected bounce-back (Ladd): a population bounced at a wall
+// moving with u_w arrives as f_i = f_opp* + 6 w_i rho (c_i . u_w). The
+// implicit EP bounce-back already delivered f_opp*, so only add the term.
+fn moving_wall_correction(fi: ptr<function, array<f32, 9>>, j: array<u32, 9>, rho: f32) {
+  for (var i = 1u; i < 9u; i++) {
+    let nb = j[OPP[i]]; // the population arrives from x - c_i
+    let mn = mask[nb];
+    if (!is_moving(mn)) { continue; }
+    (*fi)[i] += moving_wall_term(i, rho, wall_velocity(nb, mn));
+  }
+}
+
+// neighbour of a boundary cell along its normal (the cell itself without one)
+fn inner_cell(x: u32, y: u32, m: u32) -> u32 {
+  let n = cell_normal(m);
+  let ix = u32(i32(x) + EX[n]);
+  let iy = u32(i32(y) + EY[n]);
+  return ix + iy * P.Nx;
+}
+
+// total body force at a cell: uniform part + optional per-cell field
+fn body_force(cell: u32, C: u32) -> vec2<f32> {
+  var F = vec2<f32>(P.Fx, P.Fy);
+  if (P.forceField != 0u) {
+    F += vec2<f32>(force_field[cell], force_field[C + cell]);
+  }
+  return F;
+}
+
+// Guo forcing source: w_i * [3 (c_i - u).F + 9 (c_i.u)(c_i.F)]
+// (the (1 - w/2) prefactor is applied per operator / moment)
+fn guo_source(u: vec2<f32>, F: vec2<f32>) -> array<f32, 9> {
+  var Fs: array<f32, 9>;
+  for (var i = 0u; i < 9u; i++) {
+    let c  = vec2<f32>(f32(EX[i]), f32(EY[i]));
+    let cu = dot(c, u);
+    Fs[i] = W[i] * (3.0 * dot(c - u, F) + 9.0 * cu * dot(c, F));
+  }
+  return Fs;
+}
+
+// SRT (Single-Relaxation-Time (BGK))
+fn collide_bgk(fi: ptr<function, array<f32, 9>>, feq: array<f32, 9>, Fs: array<f32, 9>, omega: f32) {
+  let one_minus_omega = 1.0 - omega;
+  let pre = 1.0 - 0.5 * omega;
+  for (var i = 0u; i < 9u; i++) {
+    (*fi)[i] = fma(omega, feq[i], fma(one_minus_omega, (*fi)[i], pre * Fs[i]));
+  }
+}
+
+// TRT: symmetric parts relax with omega, anti-symmetric parts with omegaMinus.
+// Shifts cancel since w_i = w_opp(i).
+fn collide_trt(fi: ptr<function, array<f32, 9>>, feq: array<f32, 9>, Fs: array<f32, 9>, wp: f32, wm: f32) {
+  var out: array<f32, 9>;
+  for (var i = 0u; i < 9u; i++) {
+    let o  = OPP[i];
+    let fp = 0.5 * ((*fi)[i] + (*fi)[o]);
+    let fm = 0.5 * ((*fi)[i] - (*fi)[o]);
+    let ep = 0.5 * (feq[i] + feq[o]);
+    let em = 0.5 * (feq[i] - feq[o]);
+    let sp = 0.5 * (Fs[i] + Fs[o]);
+    let sm = 0.5 * (Fs[i] - Fs[o]);
+    out[i] = (*fi)[i] - wp * (fp - ep) - wm * (fm - em)
+           + (1.0 - 0.5 * wp) * sp + (1.0 - 0.5 * wm) * sm;
+  }
+  *fi = out;
+}
+
+// D2Q9 MRT moment basis (Lallemand & Luo), columns in EX/EY order:
+// rho, e, eps, jx, qx, jy, qy, pxx, pxy
+const MRT_M : array<array<f32, 9>, 9> = array<array<f32, 9>, 9>(
+  array<f32, 9>( 1.0,  1.0,  1.0,  1.0,  1.0,  1.0,  1.0,  1.0,  1.0),
+  array<f32, 9>(-4.0, -1.0, -1.0, -1.0, -1.0,  2.0,  2.0,  2.0,  2.0),
+  array<f32, 9>( 4.0, -2.0, -2.0, -2.0, -2.0,  1.0,  1.0,  1.0,  1.0),
+  array<f32, 9>( 0.0,  1.0, -1.0,  0.0,  0.0,  1.0, -1.0,  1.0, -1.0),
+  array<f32, 9>( 0.0, -2.0,  2.0,  0.0,  0.0,  1.0, -1.0,  1.0, -1.0),
+  array<f32, 9>( 0.0,  0.0,  0.0,  1.0, -1.0,  1.0, -1.0, -1.0,  1.0),
+  array<f32, 9>( 0.0,  0.0,  0.0, -2.0,  2.0,  1.0, -1.0, -1.0,  1.0),
+  array<f32, 9>( 0.0,  1.0,  1.0, -1.0, -1.0,  0.0,  0.0,  0.0,  0.0),
+  array<f32, 9>( 0.0,  0.0,  0.0,  0.0,  0.0,  1.0,  1.0, -1.0, -1.0)
+);
+// 1 / |row|^2, so that M^-1 = M^T * diag(MRT_INV_NORM)
+const MRT_INV_NORM : array<f32, 9> = array<f32, 9>(
+  1.0 / 9.0, 1.0 / 36.0, 1.0 / 36.0, 1.0 / 6.0, 1.0 / 12.0, 1.0 / 6.0, 1.0 / 12.0, 1.0 / 4.0, 1.0 / 4.0
+);
+
+// MRT with Guo forcing in moment space: f += M^-1 [ -S (m - m_eq) + (I - S/2) M Fs ]
+// Rates of conserved moments (rho, jx, jy) do not matter and are set to 1.
+fn collide_mrt(fi: ptr<function, array<f32, 9>>, feq: array<f32, 9>, Fs: array<f32, 9>, omega: f32) {
+  var S = array<f32, 9>(1.0, P.sE, P.sEps, 1.0, P.sQ, 1.0, P.sQ, omega, omega);
+  var dm: array<f32, 9>;
+  for (var k = 0u; k < 9u; k++) {
+    var neq = 0.0;
+    var src = 0.0;
+    for (var i = 0u; i < 9u; i++) {
+      neq += MRT_M[k][i] * ((*fi)[i] - feq[i]);
+      src += MRT_M[k][i] * Fs[i];
+    }
+    dm[k] = (-S[k] * neq + (1.0 - 0.5 * S[k]) * src) * MRT_INV_NORM[k];
+  }
+  for (var i = 0u; i < 9u; i++) {
+    var df = 0.0;
+    for (var k = 0u; k < 9u; k++) { df += MRT_M[k][i] * dm[k]; }
+    (*fi)[i] += df;
+  }
+}
+
+fn calculate_rho_u(fi: ptr<function, array<f32, 9>>, F: vec2<f32>, rhon: ptr<function, f32>, uxn: ptr<function, f32>, uyn: ptr<function, f32>) {
     var rho: f32 = (*fi)[0];
     for (var d: u32 = 1u; d < 9u; d++) {  // calculate density from f. 9 for D2Q9, that's just the length of the velocity_set
         rho += (*fi)[d];
@@ -53,8 +271,8 @@ fn calculate_rho_u(fi: ptr<function, array<f32, 9>>, rhon: ptr<function, f32>, u
     var uy: f32 = (*fi)[3] - (*fi)[4] + (*fi)[5] - (*fi)[6] + (*fi)[8] - (*fi)[7];
 
     *rhon = rho;
-    *uxn  = ux / rho;
-    *uyn  = uy / rho;
+    *uxn  = (ux + 0.5 * F.x) / rho; // half-force correction (Guo)
+    *uyn  = (uy + 0.5 * F.y) / rho;
 }
 
 @compute @workgroup_size(WGX, WGY, WGZ)
@@ -71,44 +289,77 @@ fn step(@builtin(global_invocation_id) gid: vec3<u32>) {
   let j  = get_neighbors(cell); // indices of the 8 neighbors (in D2Q9) around 'cell' and 
   var fi = load_f_ep_implicit(cell, Pd.parity, C, P.Nx, P.Ny, j);
 
+  if ((m & CELL_FRESH) != 0u) { // uncovered by a moving obstacle: start at rest relative to it
+    fi = feq_d2q9_shifted(1.0, wall_velocity(cell, m));
+  } else if (P.movingWalls != 0u && !is_open(m)) {
+    moving_wall_correction(&fi, j, decode_f16s(global_rho[cell]));
+  }
+
+  if (is_zou_he(m)) { // rebuild the populations entering from outside
+    apply_zou_he(&fi, gid.x, gid.y, m);
+  }
+
+  if (is_slip(m)) { // free-slip wall: reflect and stream on, no collision
+    slip_reflect(&fi, cell_normal(m));
+    store_f_ep(cell, Pd.parity, C, j, fi);
+    return;
+  }
+
   // --- Collision inputs
   var rhon: f32;
   var uxn : f32;
   var uyn : f32;
+  let F = body_force(cell, C);
 
-  if (gid.x == P.Nx-1u && is_eq(m)) { // outlet
-    let inner = (P.Nx-2u) + gid.y*P.Nx;
-    global_rho[cell] = global_rho[inner];
-    global_u[  cell] = global_u[  inner];
-    global_u[C+cell] = global_u[C+inner];
-  }
-
-  if (is_eq(m)) { //equilibrium BC: inlet/outlet
-    rhon = decode_f16s(global_rho[cell]);
-    uxn  = decode_f16s(global_u[  cell]);
-    uyn  = decode_f16s(global_u[C+cell]);
+  if (is_eq(m)) { // velocity inlet: prescribed density and velocity (live-editable uniforms)
+    let uIn = inlet_velocity(gid.x, gid.y);
+    rhon = P.rhoIn;
+    uxn  = uIn.x;
+    uyn  = uIn.y;
+  } else if (is_open(m)) { // outlet/outflow: velocity (and density) from the inner cell
+    let inner = inner_cell(gid.x, gid.y, m);
+    rhon = select(decode_f16s(global_rho[inner]), P.rhoOut, (m & CELL_OUTLET) != 0u);
+    uxn  = decode_f16s(global_u[  inner]);
+    uyn  = decode_f16s(global_u[C+inner]);
+    if ((m & CELL_CONVECTIVE) != 0u) {
+      // du/dt + U du/dn = 0 (implicit, upwind): the last boundary values relax
+      // towards the inner ones with the outflow speed U (0 on backflow)
+      let n = cell_normal(m);
+      let U = clamp(-(uxn * f32(EX[n]) + uyn * f32(EY[n])), 0.0, 1.0);
+      rhon = (decode_f16s(global_rho[cell]) + U * rhon) / (1.0 + U);
+      uxn  = (decode_f16s(global_u[  cell]) + U * uxn ) / (1.0 + U);
+      uyn  = (decode_f16s(global_u[C+cell]) + U * uyn ) / (1.0 + U);
+    }
   } else {
-    calculate_rho_u(&fi, &rhon, &uxn, &uyn); // calculate density and velocity fields from fi
-    global_rho[cell] = pack_f16s(rhon);
-    global_u[  cell] = pack_f16s(uxn);
-    global_u[C+cell] = pack_f16s(uyn);
+    calculate_rho_u(&fi, F, &rhon, &uxn, &uyn); // calculate density and velocity fields from fi
   }
+  global_rho[cell] = pack_f16s(rhon);
+  global_u[  cell] = pack_f16s(uxn);
+  global_u[C+cell] = pack_f16s(uyn);
 
   // Equilibrium (shifted DDFs)
   let feq = feq_d2q9_shifted(rhon, vec2<f32>(uxn, uyn));
 
-  var Fin: array<f32, 9>;
-  for (var i=0u; i<9u; i+=1u) { Fin[i] = 0.0; }
+  let Fs = guo_source(vec2<f32>(uxn, uyn), F);
 
-  // SRT (Single-Relaxation-Time (BGK))
-  let one_minus_omega = 1.0 - P.omega;
-  for (var i=0u; i<9u; i++){
-    fi[i] = select(fma(P.omega, feq[i], fma(one_minus_omega, fi[i], Fin[i])), feq[i], is_eq(m)); // perform collision (SRT)
+  // Smagorinsky LES: local (effective) relaxation rates
+  var omega = P.omega;
+  var omegaMinus = P.omegaMinus;
+  if (P.smagorinsky > 0.0 && !is_open(m)) {
+    omega = 1.0 / smagorinsky_tau(1.0 / P.omega, rhon, fi, feq, P.smagorinsky);
+    omegaMinus = 1.0 / (P.trtMagic / (1.0 / omega - 0.5) + 0.5);
   }
 
-  f[addr(0u, cell, C)] = pack_f16s(fi[0]);
-  for (var i=1u; i<9u; i+=2u){
-    f[addr(select(i+1u, i   ,  Pd.parity == 1u), j[i], C)] = pack_f16s(fi[i   ]);
-    f[addr(select(i   , i+1u,  Pd.parity == 1u), cell, C)] = pack_f16s(fi[i+1u]);
-  }  
+  // perform collision
+  if (is_open(m)) {
+    fi = feq; // equilibrium BC
+  } else if (COLLISION == COLLISION_TRT) {
+    collide_trt(&fi, feq, Fs, omega, omegaMinus);
+  } else if (COLLISION == COLLISION_MRT) {
+    collide_mrt(&fi, feq, Fs, omega);
+  } else {
+    collide_bgk(&fi, feq, Fs, omega);
+  }
+
+  store_f_ep(cell, Pd.parity, C, j, fi);
 }
@@ -0,0 +1,122 @@
+// Passive tracers, advanced once per LBM step after step.wgsl (see tracer.ts):
+// particles moved with the bilinear velocity of global_u, and a dye advected
+// and diffused by a D2Q5 LBM driven by the same velocity. Velocity sampling
+// and the hash come from sampling.wgsl.
+struct TracerParams {
+  Nx:            u32,
+  Ny:            u32,
+  cellCount:     u32,
+  particleCount: u32,
+  lifetime:      f32, // ticks before a particle is emitted again
+  emitterCount:  u32,
+  omegaDye:      f32, // D2Q5 relaxation rate 1 / (3D + 1/2)
+  particleSize:  f32, // diameter in cells (tracer_draw.wgsl)
+};
+
+// --- bindings ----------------------------------------------------------------
+@group(0) @binding(0) var<uniform>             P          : TracerParams;
+@group(0) @binding(1) var<storage, read>       mask       : array<u32>;
+@group(0) @binding(2) var<storage, read>       global_u   : array<f16>; // 2*C: ux, uy
+@group(0) @binding(3) var<storage, read>       emitters   : array<vec2<f32>>;
+@group(0) @binding(4) var<storage, read_write> particles  : array<vec4<f32>>; // x, y, age, emissions
+@group(0) @binding(5) var<storage, read>       dye_in     : array<f32>; // SoA: g[dir*C + cell]
+@group(0) @binding(6) var<storage, read_write> dye_out    : array<f32>;
+@group(0) @binding(7) var<storage, read>       dye_source : array<f32>; // fixed concentration, < 0 -> none
+@group(0) @binding(8) var dyeTex : texture_storage_2d<rgba8unorm, write>; // concentration in r
+
+// D2Q5: the rest and axis directions of the D2Q9 set (C, E, W, N, S)
+const Q5 : u32 = 5u;
+const W5 : array<f32, 5> = array<f32, 5>(1.0 / 3.0, 1.0 / 6.0, 1.0 / 6.0, 1.0 / 6.0, 1.0 / 6.0);
+
+// ---- particles ---------------------------------------------------------------
+// (re-)emits particle i at a random emitter, jittered by up to half a cell
+fn emit(i: u32, emissions: f32) -> vec4<f32> {
+  let h = hash(i ^ hash(u32(emissions)));
+  let e = emitters[h % P.emitterCount];
+  let jitter = vec2<f32>(unit_random(hash(h)), unit_random(hash(h + 1u))) - 0.5;
+  let p = select(e + jitter, e, is_blocked(e + jitter));
+  return vec4<f32>(p, 0.0, emissions + 1.0);
+}
+
+// one step of dt = 1 with the midpoint rule; particles that hit a wall, leave
+// the domain or grow too old start over at an emitter
+@compute @workgroup_size(64)
+fn advect_particles(@builtin(global_invocation_id) gid: vec3<u32>) {
+  let i = gid.x;
+  if (i >= P.particleCount) { return; }
+  var p = particles[i];
+  p.z += 1.0;
+  if (p.z < 0.0) { particles[i] = p; return; } // not released yet
+  if (p.z == 0.0 || p.z > P.lifetime) { particles[i] = emit(i, p.w); return; }
+
+  let k1 = sample_velocity(p.xy);
+  let k2 = sample_velocity(p.xy + 0.5 * k1);
+  let q = p.xy + k2;
+  if (is_blocked(q)) { particles[i] = emit(i, p.w); return; }
+  particles[i] = vec4<f32>(q, p.zw);
+}
+
+// ---- dye (D2Q5 advection-diffusion) ----------------------------------------------
+fn dye_equilibrium(c: f32, u: vec2<f32>) -> array<f32, 5> {
+  var geq : array<f32, 5>;
+  for (var i = 0u; i < Q5; i++) {
+    geq[i] = W5[i] * c * (1.0 + 3.0 * (f32(EX[i]) * u.x + f32(EY[i]) * u.y));
+  }
+  return geq;
+}
+
+fn dye_concentration(cell: u32) -> f32 {
+  var c = 0.0;
+  for (var i = 0u; i < Q5; i++) { c += dye_in[i * P.cellCount + cell]; }
+  return c;
+}
+
+// collide and push (dye_in -> dye_out): source cells hold their concentration,
+// outlets copy the inner cell's, walls reflect (no flux through them)
+@compute @workgroup_size(WGX, WGY, WGZ)
+fn dye_step(@builtin(global_invocation_id) gid: vec3<u32>) {
+  if (gid.x >= P.Nx || gid.y >= P.Ny) { return; }
+  let cell = gid.x + gid.y * P.Nx;
+  let C = P.cellCount;
+  let m = mask[cell];
+  let coord = vec2<i32>(gid.xy);
+
+  if (is_wall(m)) {
+    // nothing streams into walls: clear them for obstacles that move away
+    for (var i = 0u; i < Q5; i++) { dye_out[i * C + cell] = 0.0; }
+    textureStore(dyeTex, coord, vec4<f32>(0.0));
+    return;
+  }
+
+  let u = vec2<f32>(decode_f16s(global_u[cell]), decode_f16s(global_u[C + cell]));
+  let j = get_neighbors(cell);
+  var g : array<f32, 5>;
+  var c = 0.0;
+  for (var i = 0u; i < Q5; i++) {
+    g[i] = dye_in[i * C + cell];
+    c += g[i];
+  }
+
+  let source = dye_source[cell];
+  if (source >= 0.0) {
+    c = source;
+    g = dye_equilibrium(c, u);
+  } else if (cell_normal(m) != 0u && (is_open(m) || is_zou_he(m))) {
+    c = dye_concentration(j[cell_normal(m)]); // zero gradient
+    g = dye_equilibrium(c, u);
+  } else {
+    let geq = dye_equilibrium(c, u);
+    for (var i = 0u; i < Q5; i++) { g[i] += P.omegaDye * (geq[i] - g[i]); }
+  }
+
+  dye_out[cell] = g[0];
+  for (var i = 1u; i < Q5; i++) {
+    let t = j[i];
+    if (is_wall(mask[t])) {
+      dye_out[OPP[i] * C + cell] = g[i]; // bounce back
+    } else {
+      dye_out[i * C + t] = g[i];
+    }
+  }
+  textureStore(dyeTex, coord, vec4<f32>(clamp(c, 0.0, 1.0), 0.0, 0.0, 1.0));
+}
@@ -0,0 +1,41 @@
+// Tracer particles as round dots, alpha blended over the blitted field
+// (same clip space as blit.wgsl and overlay_draw.wgsl).
+struct TracerParams {
+  Nx:            u32,
+  Ny:            u32,
+  cellCount:     u32,
+  particleCount: u32,
+  lifetime:      f32,
+  emitterCount:  u32,
+  omegaDye:      f32,
+  particleSize:  f32, // diameter in cells
+};
+
+@group(0) @binding(0) var<uniform>       P         : TracerParams;
+@group(0) @binding(4) var<storage, read> particles : array<vec4<f32>>; // x, y, age, emissions
+
+struct VSOut {
+  @builtin(position) pos: vec4<f32>,
+  @location(0) corner: vec2<f32>, // -0.5..0.5 across the dot
+};
+
+const QUAD = array<vec2<f32>, 6>(
+  vec2(-0.5, -0.5), vec2(0.5, -0.5), vec2(0.5, 0.5),
+  vec2(-0.5, -0.5), vec2(0.5, 0.5), vec2(-0.5, 0.5),
+);
+
+// one instance per particle; unreleased ones collapse to a point
+@vertex
+fn particle_vs(@builtin(vertex_index) vid: u32, @builtin(instance_index) iid: u32) -> VSOut {
+  let p = particles[iid];
+  let size = select(P.particleSize, 0.0, p.z < 0.0);
+  let q = p.xy + QUAD[vid] * size;
+  let uv = (q + 0.5) / vec2<f32>(f32(P.Nx), f32(P.Ny));
+  return VSOut(vec4<f32>(2.0 * uv - 1.0, 0.0, 1.0), QUAD[vid]);
+}
+
+@fragment
+fn particle_fs(in: VSOut) -> @location(0) vec4<f32> {
+  if (length(in.corner) > 0.5) { discard; }
+  return vec4<f32>(1.0, 0.95, 0.6, 0.85);
+}
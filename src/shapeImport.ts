@@ -0,0 +1,152 @@
+// Obstacle import: rasterizes image silhouettes (PNG/JPEG/SVG files) or SVG
+// path data into lattice row spans for LBM.applyMaskRows.
+import type { RowSpan } from "./canvas";
+
+/** Where the shape lands on the lattice. */
+export interface ShapePlacement {
+  /** Centre in lattice cells (y = 0 is the bottom row). */
+  cx: number;
+  cy: number;
+  /** Width of the shape in cells; the height follows the aspect ratio. */
+  width: number;
+  /** Counter-clockwise rotation in degrees. */
+  rotation?: number;
+}
+
+export interface ShapeThreshold {
+  /** Pixels darker than this (0..1 luminance) are solid. Default 0.5. */
+  threshold?: number;
+  /** Solid where the image is light instead. */
+  invert?: boolean;
+}
+
+/** A decoded shape and its intrinsic size. */
+export interface ShapeSource {
+  image: CanvasImageSource;
+  width: number;
+  height: number;
+}
+
+/** Decodes an image or SVG file (anything an <img> can display). */
+export async function loadShapeFile(file: Blob): Promise<ShapeSource> {
+  const url = URL.createObjectURL(file);
+  try {
+    const img = new Image();
+    img.src = url;
+    await img.decode();
+    // SVGs without width/height report 0: fall back to a square
+    const width = img.naturalWidth || 512;
+    const height = img.naturalHeight || 512;
+    return { image: img, width, height };
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+/**
+ * Wraps SVG path data (the `d` attribute) into a black-on-transparent image,
+ * cropped to the path's bounding box.
+ */
+export async function loadSvgPath(d: string): Promise<ShapeSource> {
+  const NS = "http://www.w3.org/2000/svg";
+  // measure the path with a detached-but-rendered SVG
+  const probe = document.createElementNS(NS, "svg");
+  probe.style.position = "absolute";
+  probe.style.visibility = "hidden";
+  const path = document.createElementNS(NS, "path");
+  path.setAttribute("d", d);
+  probe.appendChild(path);
+  document.body.appendChild(probe);
+  let box: DOMRect;
+  try {
+    box = path.getBBox();
+  } finally {
+    probe.remove();
+  }
+  if (!(box.width > 0 && box.height > 0)) {
+    throw new Error("SVG path is empty.");
+  }
+
+  // built as DOM and serialized, so the path data is escaped like any attribute
+  const svg = document.createElementNS(NS, "svg");
+  svg.setAttribute("width", String(box.width));
+  svg.setAttribute("height", String(box.height));
+  svg.setAttribute("viewBox", `${box.x} ${box.y} ${box.width} ${box.height}`);
+  const shape = document.createElementNS(NS, "path");
+  shape.setAttribute("d", d);
+  shape.setAttribute("fill", "black");
+  svg.appendChild(shape);
+  const xml = new XMLSerializer().serializeToString(svg);
+  return loadShapeFile(new Blob([xml], { type: "image/svg+xml" }));
+}
+
+/**
+ * Draws the shape onto an Nx × Ny raster and returns the solid cells as row
+ * spans (possibly several per row). Transparent pixels are never solid.
+ */
+export function rasterizeShape(
+  src: ShapeSource,
+  Nx: number,
+  Ny: number,
+  placement: ShapePlacement,
+  opts: ShapeThreshold = {}
+): RowSpan[] {
+  const threshold = opts.threshold ?? 0.5;
+  const canvas = document.createElement("canvas");
+  canvas.width = Nx;
+  canvas.height = Ny;
+  const ctx = canvas.getContext("2d", { willReadFrequently: true });
+  if (!ctx) throw new Error("2D canvas unavailable.");
+
+  // canvas y points down, lattice y up
+  const scale = placement.width / src.width;
+  const rad = ((placement.rotation ?? 0) * Math.PI) / 180;
+  ctx.translate(placement.cx + 0.5, Ny - 1 - placement.cy + 0.5);
+  ctx.rotate(-rad);
+  ctx.scale(scale, scale);
+  ctx.imageSmoothingEnabled = true;
+  ctx.drawImage(src.image, -src.width / 2, -src.height / 2);
+
+  const px = ctx.getImageData(0, 0, Nx, Ny).data;
+  const spans: RowSpan[] = [];
+  for (let row = 0; row < Ny; row++) {
+    const y = Ny - 1 - row;
+    let x0 = -1;
+    for (let x = 0; x <= Nx; x++) {
+      let solid = false;
+      if (x < Nx) {
+        const o = (row * Nx + x) * 4;
+        if (px[o + 3] >= 128) {
+          const lum =
+            (0.2126 * px[o] + 0.7152 * px[o + 1] + 0.0722 * px[o + 2]) / 255;
+          solid = opts.invert ? lum >= threshold : lum < threshold;
+        }
+      }
+      if (solid && x0 < 0) x0 = x;
+      else if (!solid && x0 >= 0) {
+        spans.push({ y, x0, x1: x - 1 });
+        x0 = -1;
+      }
+    }
+  }
+  return spans;
+}
+
+/**
+ * Writes spans through an applyMaskRows-style callback, which merges spans of
+ * the same row: split them into batches with at most one span per row.
+ */
+export function writeSpans(
+  spans: RowSpan[],
+  value: number,
+  applyRows: (rows: RowSpan[], value: number) => void
+): void {
+  const batches: RowSpan[][] = [];
+  const seen = new Map<number, number>(); // row -> spans so far
+  for (const span of spans) {
+    const k = seen.get(span.y) ?? 0;
+    seen.set(span.y, k + 1);
+    (batches[k] ??= []).push(span);
+  }
+  for (const batch of batches) applyRows(batch, value);
+}
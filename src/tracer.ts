@@ -0,0 +1,182 @@
+// Passive tracers advected with the flow: particles moved with the bilinear
+// velocity of global_u and a dye (concentration) transported by a D2Q5
+// advection-diffusion LBM that uses the same velocity. Both advance once per
+// LBM step (tracer_compute.wgsl); this module holds their settings and builds
+// the emitter and source data on the host.
+import { hexColor } from "./colormaps";
+import { CELL, isWall } from "./mask";
+import { inletSeedPoints } from "./overlay";
+
+export const MAX_PARTICLES = 1 << 16;
+export const MAX_EMITTERS = 4096;
+export const MAX_SEED_POINTS = 64;
+
+export const TracerSources = {
+  INLET: "inlet", // particles from the inlet cells, dye injected there
+  POINTS: "points", // from user seed points, clean inflow
+} as const;
+export type TracerSource = (typeof TracerSources)[keyof typeof TracerSources];
+
+export interface TracerSettings {
+  particles: boolean;
+  particleCount: number;
+  /** Ticks before a particle is emitted again (also when it leaves the fluid). */
+  particleLifetime: number;
+  /** Drawn diameter in cells. */
+  particleSize: number;
+
+  dye: boolean;
+  /** Lattice diffusivity D; the D2Q5 relaxation time is 3D + 1/2. */
+  dyeDiffusivity: number;
+  /** INLET: alternating dyed and clean stripes this many cells wide, 0 -> all dyed. */
+  dyeStripes: number;
+  /** CSS hex color the dye is drawn with. */
+  dyeColor: string;
+  /** Opacity of the dye at concentration 1. */
+  dyeOpacity: number;
+
+  /** Where particles are emitted and dye is injected. */
+  source: TracerSource;
+  /** POINTS: emitters in cells. */
+  seedPoints: Array<{ x: number; y: number }>;
+  /** POINTS: radius of the dye sources around the seed points in cells. */
+  sourceRadius: number;
+}
+
+export const DEFAULT_TRACERS: Readonly<TracerSettings> = {
+  particles: false,
+  particleCount: 16384,
+  particleLifetime: 10000,
+  particleSize: 1.5,
+  dye: false,
+  dyeDiffusivity: 0.01,
+  dyeStripes: 16,
+  dyeColor: "#ffffff",
+  dyeOpacity: 0.8,
+  source: TracerSources.INLET,
+  seedPoints: [],
+  sourceRadius: 3,
+};
+
+/** Throws on settings the tracer passes cannot run. */
+export function validateTracers(t: TracerSettings): void {
+  if (
+    !Number.isInteger(t.particleCount) ||
+    t.particleCount < 1 ||
+    t.particleCount > MAX_PARTICLES
+  ) {
+    throw new Error(`Particle count must be 1..${MAX_PARTICLES}.`);
+  }
+  if (!(t.particleLifetime >= 1)) {
+    throw new Error("Particle lifetime must be ≥ 1 tick.");
+  }
+  if (!(t.particleSize > 0)) throw new Error("Particle size must be positive.");
+  // D2Q5 BGK: tau = 3D + 1/2 in (0.5, 2]
+  if (!(t.dyeDiffusivity > 0 && t.dyeDiffusivity <= 0.5)) {
+    throw new Error("Dye diffusivity must be within (0, 0.5].");
+  }
+  if (!Number.isInteger(t.dyeStripes) || t.dyeStripes < 0) {
+    throw new Error("Dye stripe width must be an integer ≥ 0.");
+  }
+  hexColor(t.dyeColor);
+  if (!(t.dyeOpacity >= 0 && t.dyeOpacity <= 1)) {
+    throw new Error("Dye opacity must be within 0..1.");
+  }
+  if (!Object.values(TracerSources).includes(t.source)) {
+    throw new Error(`Unknown tracer source "${t.source}".`);
+  }
+  if (t.seedPoints.length > MAX_SEED_POINTS) {
+    throw new Error(`At most ${MAX_SEED_POINTS} seed points.`);
+  }
+  if (t.source === TracerSources.POINTS && !t.seedPoints.length) {
+    throw new Error("Point sources need at least one seed point.");
+  }
+  if (!t.seedPoints.every((p) => Number.isFinite(p.x + p.y))) {
+    throw new Error("Seed points need finite coordinates.");
+  }
+  if (!(t.sourceRadius >= 0)) throw new Error("Source radius must be ≥ 0.");
+}
+
+/**
+ * Particle emitters (x, y pairs in cells): the seed points, or the inlet
+ * cells one cell into the domain (every k-th beyond MAX_EMITTERS), or the
+ * left column without inlet cells.
+ */
+export function particleEmitters(
+  t: TracerSettings,
+  mask: Uint32Array,
+  Nx: number,
+  Ny: number
+): Float32Array<ArrayBuffer> {
+  let points: Array<[number, number]> =
+    t.source === TracerSources.POINTS
+      ? t.seedPoints.map(({ x, y }) => [x, y])
+      : inletSeedPoints(mask, Nx, Ny);
+  if (!points.length) {
+    points = Array.from({ length: Ny - 2 }, (_, y): [number, number] => [
+      1,
+      y + 1,
+    ]);
+  }
+  const k = Math.ceil(points.length / MAX_EMITTERS);
+  points = points.filter((_, i) => i % k === 0);
+  const out = new Float32Array(2 * points.length);
+  points.forEach(([x, y], i) => {
+    out[2 * i] = Math.min(Nx - 1, Math.max(0, x));
+    out[2 * i + 1] = Math.min(Ny - 1, Math.max(0, y));
+  });
+  return out;
+}
+
+/**
+ * Fixed dye concentration per cell, -1 where the dye evolves freely: inlet
+ * cells (dyed or clean stripes) and, for POINTS, discs around the seed points.
+ */
+export function dyeSources(
+  t: TracerSettings,
+  mask: Uint32Array,
+  Nx: number,
+  Ny: number
+): Float32Array<ArrayBuffer> {
+  const out = new Float32Array(Nx * Ny).fill(-1);
+  const dyedInlet = t.source === TracerSources.INLET;
+  for (let cell = 0; cell < Nx * Ny; cell++) {
+    if ((mask[cell] & (CELL.EQ | CELL.ZOU_HE_INLET)) === 0) continue;
+    const x = cell % Nx;
+    const y = (cell - x) / Nx;
+    // x + y runs along the edge (the other coordinate is constant)
+    const stripe = t.dyeStripes ? Math.floor((x + y) / t.dyeStripes) % 2 : 0;
+    out[cell] = dyedInlet && stripe === 0 ? 1 : 0;
+  }
+  if (dyedInlet) return out;
+
+  const r = t.sourceRadius;
+  for (const p of t.seedPoints) {
+    const y0 = Math.max(0, Math.ceil(p.y - r));
+    const y1 = Math.min(Ny - 1, Math.floor(p.y + r));
+    const x0 = Math.max(0, Math.ceil(p.x - r));
+    const x1 = Math.min(Nx - 1, Math.floor(p.x + r));
+    for (let y = y0; y <= y1; y++) {
+      for (let x = x0; x <= x1; x++) {
+        const cell = y * Nx + x;
+        if ((x - p.x) ** 2 + (y - p.y) ** 2 > r * r) continue;
+        if (!isWall(mask[cell])) out[cell] = 1;
+      }
+    }
+  }
+  return out;
+}
+
+/**
+ * Particle state (x, y, age, emissions) before the first step: ages are
+ * staggered over the lifetime so the particles leave the emitters as a steady
+ * stream (age < 0: not released yet).
+ */
+export function initialParticles(t: TracerSettings): Float32Array<ArrayBuffer> {
+  const n = t.particleCount;
+  const out = new Float32Array(4 * n);
+  for (let i = 0; i < n; i++) {
+    out[4 * i + 2] = -Math.floor((i * t.particleLifetime) / n) - 1;
+  }
+  return out;
+}
@@ -0,0 +1,175 @@
+// Conversion between physical (SI) and lattice units for the D2Q9 solver.
+// Lattice units: dx = dt = 1, cs² = 1/3, reference density 1.
+
+export const CS2 = 1 / 3; // lattice speed of sound squared
+const CS = Math.sqrt(CS2);
+
+// stability / accuracy limits used for warnings
+export const MACH_LIMIT = 0.3; // compressibility error grows ~Ma²
+export const TAU_MIN = 0.505; // BGK becomes unstable as tau -> 0.5
+export const TAU_MAX = 2.0; // large tau degrades accuracy
+
+export interface UnitInput {
+  /** Characteristic length L [m] (e.g. obstacle diameter). */
+  length: number;
+  /** Characteristic length in lattice cells (resolution of L). */
+  cells: number;
+  /** Inflow speed U [m/s]. */
+  velocity: number;
+  /** Kinematic viscosity ν [m²/s]. Ignored if `reynolds` is given. */
+  viscosity?: number;
+  /** Target Reynolds number Re = U·L/ν; overrides `viscosity`. */
+  reynolds?: number;
+  /** Inflow speed in lattice units (sets the time step). Default 0.05. */
+  latticeVelocity?: number;
+  /** Fluid density [kg/m³] used for pressure conversion. Default 1000 (water). */
+  density?: number;
+}
+
+/**
+ * Derives lattice parameters (omega, lattice velocity, dx, dt) from a
+ * physical description of the flow and converts quantities back to SI.
+ */
+export class UnitSystem {
+  // physical
+  readonly length: number; // L [m]
+  readonly velocity: number; // U [m/s]
+  readonly viscosity: number; // ν [m²/s]
+  readonly density: number; // ρ [kg/m³]
+  readonly reynolds: number;
+
+  // lattice
+  readonly cells: number; // L in cells
+  readonly latticeVelocity: number; // U in lattice units
+  readonly latticeViscosity: number; // ν in lattice units
+  readonly tau: number;
+  readonly omega: number;
+  readonly mach: number;
+
+  // conversion factors
+  readonly dx: number; // [m] per cell
+  readonly dt: number; // [s] per tick
+
+  readonly warnings: string[] = [];
+
+  constructor(input: UnitInput) {
+    const { length, cells, velocity } = input;
+    if (!(length > 0 && cells > 0 && velocity > 0)) {
+      throw new Error("Length, cells and velocity must be positive.");
+    }
+    let viscosity: number;
+    if (input.reynolds !== undefined) {
+      if (!(input.reynolds > 0)) throw new Error("Reynolds must be positive.");
+      viscosity = (velocity * length) / input.reynolds;
+    } else if (input.viscosity !== undefined && input.viscosity > 0) {
+      viscosity = input.viscosity;
+    } else {
+      throw new Error("Either a positive viscosity or Reynolds is required.");
+    }
+
+    this.length = length;
+    this.cells = cells;
+    this.velocity = velocity;
+    this.viscosity = viscosity;
+    this.density = input.density ?? 1000;
+    this.reynolds = (velocity * length) / viscosity;
+
+    const latticeVelocity = input.latticeVelocity ?? 0.05;
+    if (!(latticeVelocity > 0)) {
+      throw new Error("Lattice velocity must be positive.");
+    }
+    this.latticeVelocity = latticeVelocity;
+    this.dx = length / cells;
+    this.dt = (this.latticeVelocity * this.dx) / velocity;
+    this.latticeViscosity = (viscosity * this.dt) / (this.dx * this.dx);
+    this.tau = 3 * this.latticeViscosity + 0.5;
+    this.omega = 1 / this.tau;
+    this.mach = this.latticeVelocity / CS;
+
+    const ma = this.mach.toFixed(3);
+    const tau = this.tau.toFixed(4);
+    if (this.mach > MACH_LIMIT) {
+      this.warnings.push(
+        `Mach ${ma} > ${MACH_LIMIT}: compressibility errors, lower the lattice velocity.`
+      );
+    }
+    if (this.tau < TAU_MIN) {
+      this.warnings.push(
+        `tau ${tau} < ${TAU_MIN}: likely unstable, increase resolution or lattice velocity.`
+      );
+    } else if (this.tau > TAU_MAX) {
+      this.warnings.push(
+        `tau ${tau} > ${TAU_MAX}: inaccurate, lower the lattice velocity.`
+      );
+    }
+  }
+
+  /**
+   * Physical scales that reproduce given lattice parameters
+   * (used to describe an existing lattice setup, default L = 1 m, U = 1 m/s).
+   */
+  static fromLattice(opts: {
+    cells: number;
+    tau: number;
+    latticeVelocity: number;
+    length?: number;
+    velocity?: number;
+    density?: number;
+  }): UnitSystem {
+    const nuLattice = (opts.tau - 0.5) / 3;
+    return new UnitSystem({
+      length: opts.length ?? 1,
+      cells: opts.cells,
+      velocity: opts.velocity ?? 1,
+      reynolds: (opts.latticeVelocity * opts.cells) / nuLattice,
+      latticeVelocity: opts.latticeVelocity,
+      density: opts.density,
+    });
+  }
+
+  /**
+   * Same dx/dt with a different lattice velocity and/or tau: the physical
+   * velocity and viscosity (and therefore Re) change accordingly.
+   */
+  withLattice(opts: { latticeVelocity?: number; tau?: number }): UnitSystem {
+    const u = opts.latticeVelocity ?? this.latticeVelocity;
+    const nu = ((opts.tau ?? this.tau) - 0.5) / 3;
+    const velocity = (u * this.dx) / this.dt;
+    return new UnitSystem({
+      length: this.length,
+      cells: this.cells,
+      // keep a finite scale for a zero inflow (dt is then undefined)
+      velocity: velocity > 0 ? velocity : this.velocity,
+      viscosity: (nu * this.dx * this.dx) / this.dt,
+      latticeVelocity: u > 0 ? u : this.latticeVelocity,
+      density: this.density,
+    });
+  }
+
+  /** Input that rebuilds this unit system (viscosity form). */
+  toInput(): UnitInput {
+    return {
+      length: this.length,
+      cells: this.cells,
+      velocity: this.velocity,
+      viscosity: this.viscosity,
+      latticeVelocity: this.latticeVelocity,
+      density: this.density,
+    };
+  }
+
+  // ---------- lattice -> SI ----------
+  toPhysicalLength = (cells: number): number => cells * this.dx;
+  toPhysicalTime = (ticks: number): number => ticks * this.dt;
+  toPhysicalVelocity = (u: number): number => (u * this.dx) / this.dt;
+  toPhysicalViscosity = (nu: number): number =>
+    (nu * this.dx * this.dx) / this.dt;
+  /** Gauge pressure p - p0 [Pa] from lattice density. */
+  toPhysicalPressure = (rho: number): number =>
+    (rho - 1) * CS2 * this.density * (this.dx / this.dt) ** 2;
+
+  // ---------- SI -> lattice ----------
+  toLatticeLength = (meters: number): number => meters / this.dx;
+  toLatticeTime = (seconds: number): number => seconds / this.dt;
+  toLatticeVelocity = (u: number): number => (u * this.dt) / this.dx;
+}